@@ -0,0 +1,175 @@
+// AIClient.ts
+// Single entry point for model calls in the main process. ProcessingHelper and
+// VoiceHelper both go through it, so they share one provider instance, one retry
+// policy (ModelScheduler), one logging format, one model-used event stream and
+// one place where token usage is recorded and the daily budget enforced.
+
+import { BrowserWindow } from "electron"
+import { DEFAULT_MODEL, getErrorMessage } from "./config"
+import { AIContent, AIPart, AIProvider, AIUsage, createAIProvider } from "./aiProviders"
+import { ChunkCallback, modelScheduler } from "./ModelScheduler"
+import { usageTracker } from "./UsageTracker"
+
+export interface AIClientDeps {
+  getMainWindow: () => BrowserWindow | null
+}
+
+export interface AICallOptions {
+  jsonMode?: boolean
+  /** JSON Schema for providers with native structured output */
+  responseSchema?: Record<string, any>
+  signal?: AbortSignal
+  /** Stream the response; receives the full text generated so far */
+  onText?: (textSoFar: string) => void
+  /** Prompt template version, e.g. "solution@custom-3", included in logs */
+  promptVersion?: string
+  /** Earlier turns of the conversation, sent before the prompt */
+  history?: AIContent[]
+}
+
+// Renderer event sent whenever a call succeeds, carrying the model that answered
+export const MODEL_USED_EVENT = "model-used"
+
+export class AIClient {
+  private deps: AIClientDeps
+  private provider: AIProvider | null = null
+  private lastUsedModel: string = DEFAULT_MODEL
+
+  constructor(deps: AIClientDeps) {
+    this.deps = deps
+  }
+
+  /**
+   * The configured provider, created on first use.
+   * Throws a user-facing error when the provider is not configured.
+   */
+  public getProvider(): AIProvider {
+    if (!this.provider) {
+      this.provider = createAIProvider()
+      console.log(`[AI Client] Using provider: ${this.provider.id}`)
+    }
+    return this.provider
+  }
+
+  /**
+   * Drop the current provider so the next call picks up a new API key,
+   * provider or model settings
+   */
+  public reload(): void {
+    this.provider = null
+    console.log("[AI Client] Provider settings changed, reloading on next call")
+  }
+
+  /**
+   * Models to try in order for the active provider
+   */
+  public getModelChain(): string[] {
+    return this.getProvider().getModelChain()
+  }
+
+  /**
+   * Get the last model that was successfully used
+   */
+  public getLastUsedModel(): string {
+    return this.lastUsedModel
+  }
+
+  /**
+   * Run a prompt through the fallback chain and return the response text.
+   * Errors are converted to user-friendly messages; cancellation is rethrown as-is.
+   */
+  public async generate(
+    context: string,
+    systemInstruction: string | undefined,
+    promptParts: AIPart[],
+    options: AICallOptions = {}
+  ): Promise<string> {
+    const { jsonMode = false, responseSchema, signal, onText, promptVersion, history = [] } = options
+    const provider = this.getProvider()
+    usageTracker.assertWithinBudget()
+
+    // The prompt is the newest user turn; merge it if the history already ends on one
+    const contents: AIContent[] = history.map((content) => ({ ...content, parts: [...content.parts] }))
+    const lastContent = contents[contents.length - 1]
+    if (lastContent && lastContent.role === "user") {
+      lastContent.parts.push(...promptParts)
+    } else {
+      contents.push({ role: "user", parts: promptParts })
+    }
+
+    // Usage of the attempt that eventually succeeds
+    let usage: AIUsage | null = null
+
+    const request = async (
+      modelName: string,
+      callSignal: AbortSignal,
+      onChunk: ChunkCallback
+    ): Promise<string> => {
+      usage = null
+      console.log(
+        `[AI Request - ${context}] Attempting with ${provider.id} model: ${modelName}` +
+          (promptVersion ? ` (prompt ${promptVersion})` : "") +
+          (history.length > 0 ? ` with ${history.length} history turns` : "")
+      )
+      const generateRequest = {
+        model: modelName,
+        systemInstruction: systemInstruction || undefined,
+        contents,
+        jsonMode,
+        responseSchema,
+        signal: callSignal,
+        onUsage: (reported: AIUsage) => {
+          usage = reported
+        }
+      }
+      if (!onText) {
+        return provider.generateContent(generateRequest)
+      }
+
+      // A fallback restarts the stream, so always report the full text, not deltas
+      let text = ""
+      for await (const delta of provider.generateContentStream(generateRequest)) {
+        onChunk()
+        text += delta
+        onText(text)
+      }
+      return text
+    }
+
+    try {
+      const { result, model } = await modelScheduler.execute(
+        provider.getModelChain(),
+        request,
+        { signal, context, streaming: !!onText }
+      )
+      console.log(`[AI Response - ${context}] Success with ${model}`)
+
+      usageTracker.record({
+        context,
+        model,
+        usage,
+        images: contents
+          .flatMap((content) => content.parts)
+          .filter((part) => part.inlineData?.mimeType.startsWith("image/")).length
+      })
+      this.reportModelUsed(model)
+      return result
+    } catch (error: any) {
+      if (error.message === "CanceledError") throw error
+
+      // All models failed - throw a user-friendly error
+      console.error(`[AI Error - ${context}] All models failed. Last error:`, error?.message)
+      throw new Error(getErrorMessage(error))
+    }
+  }
+
+  // Track successful model for UI display and emit it to the renderer
+  private reportModelUsed(modelName: string): void {
+    this.lastUsedModel = modelName
+
+    const mainWindow = this.deps.getMainWindow()
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send(MODEL_USED_EVENT, modelName)
+    }
+  }
+}
@@ -0,0 +1,208 @@
+// ConversationHistory.ts
+// The conversation since the last reset, kept as role-tagged turns and sent to
+// the model as real multi-turn contents, so a follow-up like "now make it
+// iterative" sees the full previous code. Once the turns outgrow their token
+// budget the oldest ones are folded into a model-written summary instead of
+// being cut off. Checkpoints let the renderer branch a follow-up from any
+// earlier solution version with the conversation as it was at that point.
+
+import { AIContent, AIPart } from "./aiProviders"
+import { AIClient } from "./AIClient"
+import { CONVERSATION_CONFIG } from "./config"
+import { renderPrompt } from "./promptTemplates"
+import { SolutionPayload } from "./solutionSchema"
+
+export interface HistoryImage {
+  /** Base64 image data */
+  data: string
+  mimeType: string
+}
+
+interface ConversationTurn {
+  role: "user" | "model"
+  text: string
+  /** Screenshots sent with the turn */
+  images: HistoryImage[]
+  timestamp: number
+}
+
+/**
+ * Readable form of a structured answer, used as the model's side of a turn
+ */
+export function formatSolutionTurn(solution: SolutionPayload, language: string): string {
+  const sections: string[] = []
+  if (solution.short_answer) {
+    sections.push(`Answer: ${solution.short_answer}`)
+  }
+  if (solution.thoughts.length > 0) {
+    sections.push(solution.thoughts.map((thought) => `- ${thought}`).join("\n"))
+  }
+  if (solution.code) {
+    sections.push("```" + language + "\n" + solution.code + "\n```")
+  }
+  sections.push(`Time: ${solution.time_complexity}\nSpace: ${solution.space_complexity}`)
+  return sections.join("\n\n")
+}
+
+function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CONVERSATION_CONFIG.CHARS_PER_TOKEN)
+}
+
+// Append a turn, merging it into the previous one when the role repeats, since
+// providers expect user and model turns to alternate
+function pushContent(contents: AIContent[], role: AIContent["role"], parts: AIPart[]): void {
+  const last = contents[contents.length - 1]
+  if (last && last.role === role) {
+    last.parts.push(...parts)
+  } else {
+    contents.push({ role, parts: [...parts] })
+  }
+}
+
+interface ConversationCheckpoint {
+  turns: ConversationTurn[]
+  summary: string
+}
+
+export class ConversationHistory {
+  private turns: ConversationTurn[] = []
+  /** Model-written summary of the turns that were compacted away */
+  private summary: string = ""
+  private checkpoints = new Map<string, ConversationCheckpoint>()
+  private nextCheckpointId = 1
+
+  public clear(): void {
+    this.turns = []
+    this.summary = ""
+    this.checkpoints.clear()
+    console.log("Conversation history cleared")
+  }
+
+  /**
+   * Remember the conversation as it is now. Turns are never mutated, so a
+   * checkpoint only copies the list.
+   */
+  public checkpoint(): string {
+    const id = `checkpoint-${this.nextCheckpointId++}`
+    this.checkpoints.set(id, { turns: [...this.turns], summary: this.summary })
+    return id
+  }
+
+  /**
+   * Rewind (or fast-forward) to a checkpoint. Returns false if it no longer
+   * exists, e.g. after a reset.
+   */
+  public restore(id: string): boolean {
+    const checkpoint = this.checkpoints.get(id)
+    if (!checkpoint) return false
+    this.turns = [...checkpoint.turns]
+    this.summary = checkpoint.summary
+    return true
+  }
+
+  public addTurn(role: "user" | "model", text: string, images: HistoryImage[] = []): void {
+    this.turns.push({ role, text, images, timestamp: Date.now() })
+  }
+
+  // Only the most recent screenshots are worth re-sending
+  private getImageTurnIndexes(): Set<number> {
+    const indexes = new Set<number>()
+    for (let i = this.turns.length - 1; i >= 0; i--) {
+      if (indexes.size >= CONVERSATION_CONFIG.MAX_IMAGE_TURNS) break
+      if (this.turns[i].images.length > 0) indexes.add(i)
+    }
+    return indexes
+  }
+
+  /**
+   * Rough size of the history as it would be sent
+   */
+  public estimateTokens(): number {
+    const imageTurns = this.getImageTurnIndexes()
+    return this.turns.reduce(
+      (total, turn, index) =>
+        total +
+        estimateTextTokens(turn.text) +
+        (imageTurns.has(index) ? turn.images.length * CONVERSATION_CONFIG.TOKENS_PER_IMAGE : 0),
+      estimateTextTokens(this.summary)
+    )
+  }
+
+  /**
+   * The history as provider contents, to be followed by the new user turn
+   */
+  public getContents(): AIContent[] {
+    const contents: AIContent[] = []
+    if (this.summary) {
+      pushContent(contents, "user", [
+        { text: `Summary of the earlier conversation:\n${this.summary}` }
+      ])
+    }
+
+    const imageTurns = this.getImageTurnIndexes()
+    this.turns.forEach((turn, index) => {
+      const parts: AIPart[] = [{ text: turn.text }]
+      if (imageTurns.has(index)) {
+        parts.push(
+          ...turn.images.map((image) => ({ inlineData: image }))
+        )
+      } else if (turn.images.length > 0) {
+        parts.push({ text: `[${turn.images.length} earlier screenshot(s) not included]` })
+      }
+      pushContent(contents, turn.role, parts)
+    })
+    return contents
+  }
+
+  /**
+   * Summarize the history first if it is over budget, then return its contents.
+   * A failed summary is logged and the full history is sent instead.
+   */
+  public async prepareContents(aiClient: AIClient, signal?: AbortSignal): Promise<AIContent[]> {
+    if (this.estimateTokens() > CONVERSATION_CONFIG.MAX_HISTORY_TOKENS) {
+      try {
+        await this.compact(aiClient, signal)
+      } catch (error: any) {
+        if (error.message === "CanceledError") throw error
+        console.warn("Failed to summarize conversation history:", error.message)
+      }
+    }
+    return this.getContents()
+  }
+
+  // Fold everything but the most recent turns into the summary
+  private async compact(aiClient: AIClient, signal?: AbortSignal): Promise<void> {
+    let keepFrom = Math.max(0, this.turns.length - CONVERSATION_CONFIG.KEEP_RECENT_TURNS)
+    // Keep whole exchanges so the verbatim part starts with a question
+    if (keepFrom > 0 && this.turns[keepFrom].role === "model") keepFrom--
+    if (keepFrom === 0) return
+
+    const older = this.turns.slice(0, keepFrom)
+    const transcript = older.map((turn) => {
+      const speaker = turn.role === "user" ? "User" : "Assistant"
+      const screenshots = turn.images.length > 0 ? ` [${turn.images.length} screenshot(s)]` : ""
+      return `${speaker}${screenshots}:\n${turn.text}`
+    })
+    if (this.summary) {
+      transcript.unshift(`Summary of the conversation before this point:\n${this.summary}`)
+    }
+
+    const prompt = renderPrompt("summary", { history: transcript.join("\n\n") })
+    const summary = await aiClient.generate(
+      "Summarize",
+      prompt.system || undefined,
+      [{ text: prompt.user }],
+      { signal, promptVersion: prompt.version }
+    )
+
+    const before = this.estimateTokens()
+    this.summary = summary.trim()
+    this.turns = this.turns.slice(keepFrom)
+    console.log(
+      `Summarized ${older.length} conversation turns (~${before} -> ~${this.estimateTokens()} tokens)`
+    )
+  }
+}
+
+// Shared so processing, voice and reset all see the same conversation
+export const conversationHistory = new ConversationHistory()
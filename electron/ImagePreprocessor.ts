@@ -0,0 +1,171 @@
+// ImagePreprocessor.ts
+// Prepares screenshots before they are sent to the model: detects the real
+// format from the file header (captures are PNG, imports may not be),
+// downscales anything larger than the configured longest edge, optionally
+// converts to grayscale and boosts contrast so text stands out, and re-encodes
+// to whichever allowed format is smallest. Settings are persisted in
+// electron-store and read on every call.
+
+import { NativeImage, nativeImage } from "electron"
+import Store from "electron-store"
+import { IMAGE_PREPROCESS_CONFIG } from "./config"
+
+const store = new Store()
+
+const STORE_KEY = "IMAGE_PREPROCESSING"
+
+export type ImageEncoding = "auto" | "png" | "jpeg"
+
+export interface ImagePreprocessSettings {
+  /** Longest edge in pixels after downscaling; 0 keeps the original size */
+  maxEdge: number
+  grayscale: boolean
+  contrastBoost: boolean
+  /** "auto" sends whichever of PNG and JPEG is smaller */
+  encoding: ImageEncoding
+}
+
+export interface PreprocessedImage {
+  /** Base64 image data */
+  data: string
+  mimeType: string
+  originalBytes: number
+  bytes: number
+}
+
+const DEFAULT_SETTINGS: ImagePreprocessSettings = {
+  maxEdge: IMAGE_PREPROCESS_CONFIG.DEFAULT_MAX_EDGE,
+  grayscale: false,
+  contrastBoost: false,
+  encoding: "auto"
+}
+
+export function getImagePreprocessSettings(): ImagePreprocessSettings {
+  return {
+    ...DEFAULT_SETTINGS,
+    ...((store.get(STORE_KEY) as Partial<ImagePreprocessSettings> | undefined) || {})
+  }
+}
+
+export function setImagePreprocessSettings(settings: Partial<ImagePreprocessSettings>): void {
+  if (settings.maxEdge !== undefined && (!Number.isInteger(settings.maxEdge) || settings.maxEdge < 0)) {
+    throw new Error(`Invalid max edge: ${settings.maxEdge}`)
+  }
+  if (settings.encoding !== undefined && !["auto", "png", "jpeg"].includes(settings.encoding)) {
+    throw new Error(`Unsupported image encoding: ${settings.encoding}`)
+  }
+  const updated = { ...getImagePreprocessSettings(), ...settings }
+  store.set(STORE_KEY, updated)
+  console.log("Image preprocessing settings updated:", updated)
+}
+
+/**
+ * MIME type from the file signature, falling back to PNG (what captures produce)
+ */
+export function detectImageMimeType(buffer: Buffer): string {
+  if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47) return "image/png"
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "image/jpeg"
+  }
+  if (
+    buffer.length >= 12 &&
+    buffer.toString("ascii", 0, 4) === "RIFF" &&
+    buffer.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    return "image/webp"
+  }
+  if (buffer.length >= 6 && buffer.toString("ascii", 0, 3) === "GIF") return "image/gif"
+  if (buffer.length >= 2 && buffer.toString("ascii", 0, 2) === "BM") return "image/bmp"
+  return "image/png"
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Grayscale and/or contrast stretch on the raw BGRA pixels
+function adjustPixels(image: NativeImage, settings: ImagePreprocessSettings): NativeImage {
+  const size = image.getSize()
+  const bitmap = image.toBitmap()
+  const factor = settings.contrastBoost ? IMAGE_PREPROCESS_CONFIG.CONTRAST_FACTOR : 1
+  const adjust = (value: number) =>
+    Math.min(255, Math.max(0, Math.round((value - 128) * factor + 128)))
+
+  for (let i = 0; i < bitmap.length; i += 4) {
+    if (settings.grayscale) {
+      const luma = adjust(0.114 * bitmap[i] + 0.587 * bitmap[i + 1] + 0.299 * bitmap[i + 2])
+      bitmap[i] = bitmap[i + 1] = bitmap[i + 2] = luma
+    } else {
+      bitmap[i] = adjust(bitmap[i])
+      bitmap[i + 1] = adjust(bitmap[i + 1])
+      bitmap[i + 2] = adjust(bitmap[i + 2])
+    }
+  }
+  return nativeImage.createFromBitmap(bitmap, size)
+}
+
+/**
+ * Apply the preprocessing settings to an image. Images Electron cannot decode
+ * are sent unchanged with their detected MIME type.
+ */
+export function preprocessImage(input: Buffer, label = "image"): PreprocessedImage {
+  const settings = getImagePreprocessSettings()
+  const originalMimeType = detectImageMimeType(input)
+
+  let image = nativeImage.createFromBuffer(input)
+  if (image.isEmpty()) {
+    console.warn(`Could not decode ${label} (${originalMimeType}), sending it unchanged`)
+    return {
+      data: input.toString("base64"),
+      mimeType: originalMimeType,
+      originalBytes: input.length,
+      bytes: input.length
+    }
+  }
+
+  const originalSize = image.getSize()
+  // Stitched scrolling captures are much taller than wide; limiting their
+  // height would shrink the text, so the limit applies to their width
+  const limitWidth = originalSize.width >= originalSize.height || originalSize.height > originalSize.width * 2
+  const limitedEdge = limitWidth ? originalSize.width : originalSize.height
+  const downscale = settings.maxEdge > 0 && limitedEdge > settings.maxEdge
+  if (downscale) {
+    image = image.resize(
+      limitWidth ? { width: settings.maxEdge, quality: "best" } : { height: settings.maxEdge, quality: "best" }
+    )
+  }
+  if (settings.grayscale || settings.contrastBoost) {
+    image = adjustPixels(image, settings)
+  }
+  const transformed = downscale || settings.grayscale || settings.contrastBoost
+
+  const candidates: { mimeType: string; buffer: Buffer }[] = []
+  if (!transformed && (settings.encoding === "auto" || originalMimeType === `image/${settings.encoding}`)) {
+    // Re-encoding an untouched image must never make it bigger
+    candidates.push({ mimeType: originalMimeType, buffer: input })
+  }
+  if (settings.encoding !== "jpeg") {
+    candidates.push({ mimeType: "image/png", buffer: image.toPNG() })
+  }
+  if (settings.encoding !== "png") {
+    candidates.push({ mimeType: "image/jpeg", buffer: image.toJPEG(IMAGE_PREPROCESS_CONFIG.JPEG_QUALITY) })
+  }
+  const best = candidates.reduce((a, b) => (b.buffer.length < a.buffer.length ? b : a))
+
+  const finalSize = image.getSize()
+  const saved = input.length - best.buffer.length
+  console.log(
+    `Preprocessed ${label}: ${originalSize.width}x${originalSize.height} ${originalMimeType} ${formatBytes(input.length)}` +
+      ` -> ${finalSize.width}x${finalSize.height} ${best.mimeType} ${formatBytes(best.buffer.length)}` +
+      ` (${saved >= 0 ? "saved" : "grew by"} ${formatBytes(Math.abs(saved))}, ${Math.round((Math.abs(saved) / input.length) * 100)}%)`
+  )
+
+  return {
+    data: best.buffer.toString("base64"),
+    mimeType: best.mimeType,
+    originalBytes: input.length,
+    bytes: best.buffer.length
+  }
+}
@@ -0,0 +1,261 @@
+// ModelScheduler.ts
+// Quota-aware scheduling across the model fallback chain. Remembers which models
+// were recently rate-limited or failing, skips them while they cool down, honours
+// Retry-After hints, backs off with jitter and enforces a per-call timeout.
+
+import {
+  isNetworkError,
+  isRateLimitError,
+  RETRY_CONFIG
+} from "./config"
+
+interface ModelHealth {
+  /** Timestamp until which the model is skipped */
+  cooldownUntil: number
+  /** Consecutive failures of any kind, reset on success */
+  consecutiveFailures: number
+  /** Consecutive rate limits, used to grow the cooldown when no hint is given */
+  consecutiveRateLimits: number
+}
+
+export interface ScheduleOptions {
+  /** User cancellation; combined with the per-call timeout */
+  signal?: AbortSignal
+  /** Log tag, e.g. "Extract" or "Voice Response" */
+  context: string
+  /**
+   * Streamed requests are not limited in total duration; they time out when
+   * the first chunk or the next one takes too long. The request reports each
+   * chunk through the onChunk callback it is given.
+   */
+  streaming?: boolean
+}
+
+// Called by a streamed request whenever a chunk arrives
+export type ChunkCallback = () => void
+
+export interface ScheduleResult<T> {
+  result: T
+  model: string
+}
+
+/**
+ * Read a Retry-After hint from a provider error, in milliseconds.
+ * OpenAI-compatible errors carry the header value as `retryAfterMs`; Gemini
+ * embeds a RetryInfo `retryDelay` (e.g. "37s") in the error message.
+ */
+export function getRetryAfterMs(error: any): number | null {
+  if (typeof error?.retryAfterMs === "number") return error.retryAfterMs
+
+  const message = String(error?.message || error || "")
+  const match =
+    message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) ||
+    message.match(/retry in (\d+(?:\.\d+)?)\s*s/i)
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null
+}
+
+/**
+ * Exponential backoff with jitter: somewhere between half and all of
+ * BASE_DELAY_MS * 2^attempt, capped at MAX_DELAY_MS
+ */
+export function getBackoffDelay(attempt: number): number {
+  const exponential = Math.min(
+    RETRY_CONFIG.MAX_DELAY_MS,
+    RETRY_CONFIG.BASE_DELAY_MS * Math.pow(2, attempt)
+  )
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2))
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("CanceledError"))
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new Error("CanceledError"))
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+export class ModelScheduler {
+  private health = new Map<string, ModelHealth>()
+
+  private getHealth(model: string): ModelHealth {
+    let health = this.health.get(model)
+    if (!health) {
+      health = { cooldownUntil: 0, consecutiveFailures: 0, consecutiveRateLimits: 0 }
+      this.health.set(model, health)
+    }
+    return health
+  }
+
+  /**
+   * Milliseconds until the model may be used again (0 when available)
+   */
+  public getCooldownRemaining(model: string): number {
+    return Math.max(0, this.getHealth(model).cooldownUntil - Date.now())
+  }
+
+  private recordSuccess(model: string): void {
+    const health = this.getHealth(model)
+    health.cooldownUntil = 0
+    health.consecutiveFailures = 0
+    health.consecutiveRateLimits = 0
+  }
+
+  private recordRateLimit(model: string, retryAfterMs: number | null): void {
+    const health = this.getHealth(model)
+    health.consecutiveFailures++
+    health.consecutiveRateLimits++
+
+    const cooldown =
+      retryAfterMs ??
+      RETRY_CONFIG.RATE_LIMIT_COOLDOWN_MS * Math.pow(2, health.consecutiveRateLimits - 1)
+    health.cooldownUntil = Math.max(health.cooldownUntil, Date.now() + cooldown)
+  }
+
+  private recordFailure(model: string, context: string): void {
+    const health = this.getHealth(model)
+    health.consecutiveFailures++
+
+    if (health.consecutiveFailures >= RETRY_CONFIG.CIRCUIT_FAILURE_THRESHOLD) {
+      console.warn(
+        `[AI Scheduler - ${context}] Circuit opened for ${model} after ${health.consecutiveFailures} consecutive failures`
+      )
+      health.cooldownUntil = Math.max(
+        health.cooldownUntil,
+        Date.now() + RETRY_CONFIG.CIRCUIT_COOLDOWN_MS
+      )
+    }
+  }
+
+  // Run one attempt against a model with the per-call timeout applied. Streamed
+  // attempts get a first-chunk timeout that becomes an idle timeout once chunks flow.
+  private async attempt<T>(
+    model: string,
+    run: (model: string, signal: AbortSignal, onChunk: ChunkCallback) => Promise<T>,
+    signal: AbortSignal | undefined,
+    streaming: boolean
+  ): Promise<T> {
+    const timeoutController = new AbortController()
+    let timeoutMessage = streaming
+      ? `${model} sent nothing for ${RETRY_CONFIG.STREAM_FIRST_CHUNK_TIMEOUT_MS / 1000}s`
+      : `Request to ${model} timed out after ${RETRY_CONFIG.API_TIMEOUT_MS / 1000}s`
+    let timer = setTimeout(
+      () => timeoutController.abort(),
+      streaming ? RETRY_CONFIG.STREAM_FIRST_CHUNK_TIMEOUT_MS : RETRY_CONFIG.API_TIMEOUT_MS
+    )
+    const onChunk = () => {
+      if (!streaming || timeoutController.signal.aborted) return
+      clearTimeout(timer)
+      timeoutMessage = `Stream from ${model} stalled for ${RETRY_CONFIG.STREAM_IDLE_TIMEOUT_MS / 1000}s`
+      timer = setTimeout(() => timeoutController.abort(), RETRY_CONFIG.STREAM_IDLE_TIMEOUT_MS)
+    }
+    const callSignal = signal
+      ? AbortSignal.any([signal, timeoutController.signal])
+      : timeoutController.signal
+
+    try {
+      return await run(model, callSignal, onChunk)
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new Error("CanceledError")
+      }
+      if (timeoutController.signal.aborted) {
+        const timeoutError: any = new Error(timeoutMessage)
+        timeoutError.isTimeout = true
+        throw timeoutError
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * Run a request against the first healthy model in the chain, falling back
+   * through the rest. Throws the last error when every model fails.
+   */
+  public async execute<T>(
+    models: string[],
+    run: (model: string, signal: AbortSignal, onChunk: ChunkCallback) => Promise<T>,
+    options: ScheduleOptions
+  ): Promise<ScheduleResult<T>> {
+    const { signal, context, streaming = false } = options
+    const available = models.filter((model) => this.getCooldownRemaining(model) === 0)
+
+    // Every model is cooling down: wait for the soonest one if the wait is short
+    let candidates = available
+    if (candidates.length === 0) {
+      const soonest = [...models].sort(
+        (a, b) => this.getCooldownRemaining(a) - this.getCooldownRemaining(b)
+      )[0]
+      const wait = this.getCooldownRemaining(soonest)
+      if (wait > RETRY_CONFIG.MAX_DELAY_MS) {
+        throw new Error(
+          `Every model is cooling down. Please try again in ${Math.ceil(wait / 1000)}s.`
+        )
+      }
+      console.log(`[AI Scheduler - ${context}] All models cooling down, waiting ${wait}ms for ${soonest}`)
+      await sleep(wait, signal)
+      candidates = [soonest]
+    } else if (available.length < models.length) {
+      const skipped = models.filter((model) => !available.includes(model))
+      console.log(`[AI Scheduler - ${context}] Skipping models in cooldown:`, skipped)
+    }
+
+    let lastError: any
+
+    for (const model of candidates) {
+      for (let attempt = 0; attempt <= RETRY_CONFIG.MAX_RETRIES_PER_MODEL; attempt++) {
+        if (signal?.aborted) {
+          throw new Error("CanceledError")
+        }
+
+        try {
+          const result = await this.attempt(model, run, signal, streaming)
+          this.recordSuccess(model)
+          return { result, model }
+        } catch (error: any) {
+          if (error.message === "CanceledError") throw error
+
+          lastError = error
+          console.warn(`[AI Error - ${context}] Model ${model} failed:`, error.message || String(error))
+
+          if (isRateLimitError(error)) {
+            const retryAfterMs = getRetryAfterMs(error)
+            this.recordRateLimit(model, retryAfterMs)
+            console.log(
+              `[AI Fallback - ${context}] Rate limit hit on ${model}, cooling down for ${this.getCooldownRemaining(model)}ms`
+            )
+            break
+          }
+
+          this.recordFailure(model, context)
+
+          // Transient failures get another attempt on the same model after a backoff
+          const isTransient = error.isTimeout || isNetworkError(error)
+          if (isTransient && attempt < RETRY_CONFIG.MAX_RETRIES_PER_MODEL) {
+            const delay = getBackoffDelay(attempt)
+            console.log(`[AI Retry - ${context}] Retrying ${model} in ${delay}ms`)
+            await sleep(delay, signal)
+            continue
+          }
+          break
+        }
+      }
+    }
+
+    throw lastError || new Error("No models available")
+  }
+}
+
+// Shared across helpers so every caller sees the same cooldowns
+export const modelScheduler = new ModelScheduler()
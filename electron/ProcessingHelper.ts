@@ -1,233 +1,111 @@
 import fs from "node:fs"
+import path from "node:path"
 import { ScreenshotHelper } from "./ScreenshotHelper"
 import { IProcessingHelperDeps } from "./main"
 import { app, BrowserWindow } from "electron"
-import { GoogleGenAI, Part } from "@google/genai"
-import Store from "electron-store"
+import { AIPart } from "./aiProviders"
+import { AICallOptions, AIClient } from "./AIClient"
+import { parsePartialJson } from "./partialJson"
 import {
-  DEFAULT_MODEL,
-  getFallbackChain,
-  isRateLimitError,
-  isNetworkError,
-  getErrorMessage,
-  RETRY_CONFIG,
-  RESPONSE_LANGUAGE,
-  GeminiModel
-} from "./config"
-
-const store = new Store()
-
-let genAI: GoogleGenAI | null = null
-
-// Track the last successfully used model to emit to renderer
-let lastUsedModel: string = DEFAULT_MODEL
-
-// Conversation history for context preservation
-interface ConversationMessage {
-  role: "user" | "assistant"
-  content: string
-  timestamp: number
+  CHAT_REPLY_JSON_SCHEMA,
+  ChatReplyPayload,
+  parseChatReplyPayload,
+  parseSolutionPayload,
+  SOLUTION_JSON_SCHEMA,
+  SolutionPayload
+} from "./solutionSchema"
+import { ResponseCache } from "./ResponseCache"
+import { getPromptTemplateVersion, PromptTemplateId, renderPrompt } from "./promptTemplates"
+import { getLocalizedMessage, getResponseLanguage } from "./responseLanguage"
+import { sessionStore } from "./SessionStore"
+import { conversationHistory, formatSolutionTurn, HistoryImage } from "./ConversationHistory"
+import { formatBytes, preprocessImage } from "./ImagePreprocessor"
+import { formatOcrPromptSection, getOcrMode, measureOcrAgreement, recognizeScreenshots } from "./ocr"
+import { OCR_CONFIG } from "./config"
+import { getStitchingEnabled, stitchScreenshots } from "./imageStitcher"
+import { FocusRegion, formatFocusPromptSection } from "./annotations"
+import { v4 as uuidv4 } from "uuid"
+
+// Options for a processing run
+export interface ProcessOptions {
+  /** Skip the response cache lookup and always call the model */
+  bypassCache?: boolean
 }
 
-// Shared conversation history - persists until Ctrl+R reset
-let conversationHistory: ConversationMessage[] = []
-const MAX_HISTORY_MESSAGES = 10 // Keep last 10 exchanges for context
-
-// Export function to clear history (called on reset)
-export function clearConversationHistory() {
-  conversationHistory = []
-  console.log("Conversation history cleared")
+// A queued screenshot, preprocessed and ready to send
+interface LoadedScreenshot {
+  path: string
+  preview: string
+  /** Base64 image data */
+  data: string
+  mimeType: string
+  originalBytes: number
+  bytes: number
+  /** Areas the user highlighted in the annotation editor */
+  focusRegions: FocusRegion[]
 }
 
-// Export function to add to history
-export function addToConversationHistory(role: "user" | "assistant", content: string) {
-  conversationHistory.push({
-    role,
-    content,
-    timestamp: Date.now()
-  })
-  // Trim if too long
-  if (conversationHistory.length > MAX_HISTORY_MESSAGES * 2) {
-    conversationHistory = conversationHistory.slice(-MAX_HISTORY_MESSAGES * 2)
-  }
+// What the response cache stores for a solved problem
+interface CachedSolution {
+  problem_statement: string
+  solution: SolutionPayload
+  /** Local OCR text the extraction was made from, if OCR was on */
+  ocr_text?: string | null
+  /** Model that produced the solution, which a fallback may have changed */
+  model: string
 }
 
-// Export function to get history summary for prompts
-export function getConversationContext(): string {
-  if (conversationHistory.length === 0) return ""
-  
-  const recentHistory = conversationHistory.slice(-MAX_HISTORY_MESSAGES)
-  return recentHistory.map(msg => {
-    const role = msg.role === "user" ? "User" : "Assistant"
-    // Truncate long messages for context
-    const content = msg.content.length > 500 ? msg.content.substring(0, 500) + "..." : msg.content
-    return `${role}: ${content}`
-  }).join("\n\n")
+// What the response cache stores for a reviewed debug round
+interface CachedDebug {
+  response: string
+  model: string
 }
 
 export class ProcessingHelper {
   private deps: IProcessingHelperDeps
   private screenshotHelper: ScreenshotHelper
+  private aiClient: AIClient
+  private responseCache: ResponseCache
 
   // AbortControllers for API requests
   private currentProcessingAbortController: AbortController | null = null
   private currentExtraProcessingAbortController: AbortController | null = null
+  private currentChatAbortController: AbortController | null = null
+
+  // Temporary files holding stitched screenshots of the current run
+  private stitchedPaths = new Set<string>()
 
   constructor(deps: IProcessingHelperDeps) {
     this.deps = deps
     this.screenshotHelper = deps.getScreenshotHelper()!
-
-    if (!genAI) {
-      const apiKey = store.get("GEMINI_API_KEY") as string
-      if (!apiKey) {
-        // We will handle the missing key error when we try to make a request, 
-        // or we can throw here if we want to fail early. 
-        // But throwing here might crash the app initialization if this is called early.
-        // However, ProcessingHelper is initialized in main.ts.
-        // Let's just log it here and throw in callAIWithFallback.
-        console.log("GEMINI_API_KEY not found in store.")
-      } else {
-        genAI = new GoogleGenAI({ apiKey })
-      }
-    }
+    this.aiClient = deps.getAIClient()
+    this.responseCache = new ResponseCache()
   }
 
-  // Helper function to wrap Gemini calls with fallback and logging
+  // All model calls go through the shared AI client
   private async callAIWithFallback(
     context: string,
     systemInstruction: string,
-    promptParts: Part[],
-    jsonMode: boolean = false,
-    signal?: AbortSignal
+    promptParts: AIPart[],
+    options: AICallOptions = {}
   ): Promise<string> {
-    if (!genAI) {
-      // Try to initialize again in case key was set after startup
-      const apiKey = store.get("GEMINI_API_KEY") as string
-      if (apiKey) {
-        genAI = new GoogleGenAI({ apiKey })
-      } else {
-        throw new Error("Please set your API Key in Settings.")
-      }
-    }
-
-    // Get user's preferred model from store, default to configured default
-    const userModel = (store.get("GEMINI_MODEL") as string as GeminiModel) || DEFAULT_MODEL
-    
-    // Get the fallback chain starting from user's preferred model
-    const models = getFallbackChain(userModel)
-    
-    let lastError: any
-    let successfulModel: string | null = null
-
-    for (const modelName of models) {
-      if (signal?.aborted) {
-        throw new Error("CanceledError")
-      }
-
-      try {
-        console.log(`[Gemini Request - ${context}] Attempting with model: ${modelName}`)
-
-        const response = await genAI.models.generateContent({
-          model: modelName,
-          config: {
-            systemInstruction: systemInstruction,
-            responseMimeType: jsonMode ? "application/json" : "text/plain"
-          },
-          contents: [
-            {
-              role: "user",
-              parts: promptParts
-            }
-          ]
-        })
-
-        const responseText = response.text
-        console.log(`[Gemini Response - ${context}] Success with ${modelName}`)
-        
-        // Track successful model for UI display
-        successfulModel = modelName
-        lastUsedModel = modelName
-        
-        // Emit model used event to renderer
-        const mainWindow = this.deps.getMainWindow()
-        if (mainWindow && !mainWindow.isDestroyed()) {
-          mainWindow.webContents.send("model-used", modelName)
-        }
-        
-        return responseText || ""
-      } catch (error: any) {
-        const errorMessage = error.message || String(error)
-        console.warn(`[Gemini Error - ${context}] Model ${modelName} failed:`, errorMessage)
-        lastError = error
-
-        // Check if it's a rate limit error - try next model silently
-        if (isRateLimitError(error)) {
-          console.log(`[Gemini Fallback - ${context}] Rate limit hit on ${modelName}, trying next model...`)
-          
-          // Small delay before trying next model
-          await new Promise(resolve => setTimeout(resolve, RETRY_CONFIG.BASE_DELAY_MS))
-          continue
-        }
-
-        // Check if it's a network error - retry with delay
-        if (isNetworkError(error)) {
-          console.log(`[Gemini Retry - ${context}] Network error on ${modelName}, retrying...`)
-          await new Promise(resolve => setTimeout(resolve, RETRY_CONFIG.BASE_DELAY_MS))
-          
-          // Retry the same model once for network errors
-          try {
-            const retryResponse = await genAI.models.generateContent({
-              model: modelName,
-              config: {
-                systemInstruction: systemInstruction,
-                responseMimeType: jsonMode ? "application/json" : "text/plain"
-              },
-              contents: [
-                {
-                  role: "user",
-                  parts: promptParts
-                }
-              ]
-            })
-            
-            const retryText = retryResponse.text
-            console.log(`[Gemini Retry Success - ${context}] Success with ${modelName} after retry`)
-            
-            successfulModel = modelName
-            lastUsedModel = modelName
-            
-            const mainWindow = this.deps.getMainWindow()
-            if (mainWindow && !mainWindow.isDestroyed()) {
-              mainWindow.webContents.send("model-used", modelName)
-            }
-            
-            return retryText || ""
-          } catch (retryError: any) {
-            console.warn(`[Gemini Retry Failed - ${context}] Model ${modelName} failed on retry:`, retryError.message)
-            lastError = retryError
-            continue
-          }
-        }
-
-        // For other errors, continue to next model
-        continue
-      }
-    }
+    return this.aiClient.generate(context, systemInstruction, promptParts, options)
+  }
 
-    // All models failed - throw a user-friendly error
-    const userMessage = getErrorMessage(lastError)
-    console.error(`[Gemini Error - ${context}] All models failed. Last error:`, lastError?.message)
-    throw new Error(userMessage)
+  /**
+   * Drop every cached answer so the next run asks the model again
+   */
+  public clearResponseCache(): void {
+    this.responseCache.clear()
   }
 
   /**
    * Get the last model that was successfully used
    */
   public getLastUsedModel(): string {
-    return lastUsedModel
+    return this.aiClient.getLastUsedModel()
   }
 
-
   private async waitForInitialization(
     mainWindow: BrowserWindow
   ): Promise<void> {
@@ -276,7 +154,7 @@ export class ProcessingHelper {
     }
   }
 
-  public async processScreenshots(): Promise<void> {
+  public async processScreenshots(options: ProcessOptions = {}): Promise<void> {
     const mainWindow = this.deps.getMainWindow()
     if (!mainWindow) return
 
@@ -299,15 +177,11 @@ export class ProcessingHelper {
         this.currentProcessingAbortController = new AbortController()
         const { signal } = this.currentProcessingAbortController
 
-        const screenshots = await Promise.all(
-          screenshotQueue.map(async (path) => ({
-            path,
-            preview: await this.screenshotHelper.getImagePreview(path),
-            data: fs.readFileSync(path).toString("base64")
-          }))
+        const screenshots = await this.loadScreenshots(
+          getStitchingEnabled() ? await this.stitchQueue(screenshotQueue) : screenshotQueue
         )
 
-        const result = await this.processScreenshotsHelper(screenshots, signal)
+        const result = await this.processScreenshotsHelper(screenshots, signal, options)
 
         if (!result.success) {
           console.log("Processing failed:", result.error)
@@ -364,6 +238,7 @@ export class ProcessingHelper {
         this.deps.setView("queue")
       } finally {
         this.currentProcessingAbortController = null
+        await this.removeStitchedFiles()
       }
     } else {
       // view == 'solutions'
@@ -381,16 +256,10 @@ export class ProcessingHelper {
       const { signal } = this.currentExtraProcessingAbortController
 
       try {
-        const screenshots = await Promise.all(
-          [
-            ...this.screenshotHelper.getScreenshotQueue(),
-            ...extraScreenshotQueue
-          ].map(async (path) => ({
-            path,
-            preview: await this.screenshotHelper.getImagePreview(path),
-            data: fs.readFileSync(path).toString("base64")
-          }))
-        )
+        const screenshots = await this.loadScreenshots([
+          ...this.screenshotHelper.getScreenshotQueue(),
+          ...extraScreenshotQueue
+        ])
         console.log(
           "Combined screenshots for processing:",
           screenshots.map((s) => s.path)
@@ -398,11 +267,16 @@ export class ProcessingHelper {
 
         const result = await this.processExtraScreenshotsHelper(
           screenshots,
-          signal
+          signal,
+          options
         )
 
         if (result.success) {
           this.deps.setHasDebugged(true)
+          sessionStore.addEntry(
+            { type: "debug", response: result.data!, model: result.model! },
+            { language: await this.getLanguage(), screenshotPaths: extraScreenshotQueue }
+          )
           mainWindow.webContents.send(
             this.deps.PROCESSING_EVENTS.DEBUG_SUCCESS,
             result.data
@@ -431,35 +305,277 @@ export class ProcessingHelper {
     }
   }
 
+  /**
+   * Solve a problem given as plain text (pasted or imported). The text is the
+   * problem statement, so the Extract stage is skipped.
+   */
+  public async processTextProblem(problemText: string, options: ProcessOptions = {}): Promise<void> {
+    const mainWindow = this.deps.getMainWindow()
+    if (!mainWindow) return
+
+    mainWindow.webContents.send(this.deps.PROCESSING_EVENTS.INITIAL_START)
+    this.currentProcessingAbortController = new AbortController()
+    const { signal } = this.currentProcessingAbortController
+
+    try {
+      const result = await this.solveTextProblemHelper(problemText, signal, options)
+      if (!result.success) {
+        mainWindow.webContents.send(
+          this.deps.PROCESSING_EVENTS.INITIAL_SOLUTION_ERROR,
+          result.error || "Unknown error"
+        )
+        this.deps.setView("queue")
+        return
+      }
+      mainWindow.webContents.send(this.deps.PROCESSING_EVENTS.SOLUTION_SUCCESS, result.data)
+      this.deps.setView("solutions")
+    } catch (error: any) {
+      console.error("Text problem processing error:", error)
+      mainWindow.webContents.send(
+        this.deps.PROCESSING_EVENTS.INITIAL_SOLUTION_ERROR,
+        error.name === "CanceledError"
+          ? "Processing was canceled by the user."
+          : error.message || "Server error. Please try again."
+      )
+      this.deps.setView("queue")
+    } finally {
+      this.currentProcessingAbortController = null
+    }
+  }
+
+  private async solveTextProblemHelper(
+    problemText: string,
+    signal: AbortSignal,
+    options: ProcessOptions
+  ): Promise<{ success: boolean; data?: any; error?: string }> {
+    const mainWindow = this.deps.getMainWindow()
+    if (!mainWindow) return { success: false, error: "Main window not available" }
+    const language = await this.getLanguage()
+
+    const cacheKey = this.buildCacheKey("solve:text", [problemText], language, ["solution"])
+    const cached = options.bypassCache ? null : this.responseCache.get<CachedSolution>(cacheKey)
+    const solution = cached?.solution
+    if (cached) {
+      console.log("Serving text problem solution from response cache:", cacheKey)
+    }
+
+    this.deps.setProblemInfo({ problem_statement: problemText, ocr_text: null })
+    mainWindow.webContents.send(this.deps.PROCESSING_EVENTS.PROBLEM_EXTRACTED, {
+      problem_statement: problemText
+    })
+
+    let data = solution
+    let model = cached?.model
+    if (!data || !model) {
+      const solutionsResult = await this.generateSolutionsHelper(signal)
+      if (!solutionsResult.success || !solutionsResult.data) {
+        return { success: false, error: solutionsResult.error || "Failed to generate solutions" }
+      }
+      data = solutionsResult.data as SolutionPayload
+      model = this.getLastUsedModel()
+      this.responseCache.set<CachedSolution>(cacheKey, { problem_statement: problemText, solution: data, model })
+    }
+
+    this.recordSolutionInHistory(problemText, data, [], language)
+    sessionStore.addEntry(
+      {
+        type: "solution",
+        problemStatement: problemText,
+        solution: data,
+        model,
+        cached: !!cached
+      },
+      { language }
+    )
+    this.screenshotHelper.clearExtraScreenshotQueue()
+
+    return {
+      success: true,
+      data: { ...data, cached: !!cached, checkpointId: conversationHistory.checkpoint() }
+    }
+  }
+
+  // Merge overlapping captures of a scrolled page, in queue order. Merged
+  // images are written to temporary files since OCR and the session history
+  // read screenshots from disk.
+  private async stitchQueue(screenshotPaths: string[]): Promise<string[]> {
+    if (screenshotPaths.length < 2) return screenshotPaths
+    const buffers = await Promise.all(screenshotPaths.map((p) => fs.promises.readFile(p)))
+    const stitched = stitchScreenshots(buffers)
+    if (stitched.length === screenshotPaths.length) return screenshotPaths
+
+    console.log(`Stitched ${screenshotPaths.length} screenshots into ${stitched.length} image(s)`)
+    const results = await Promise.all(
+      stitched.map(async ({ image, sources }) => {
+        if (sources.length === 1) return [screenshotPaths[sources[0]]]
+        // Highlights are placed relative to their own screenshot, so annotated ones stay separate
+        if (sources.some((index) => this.screenshotHelper.getFocusRegions(screenshotPaths[index]).length > 0)) {
+          return sources.map((index) => screenshotPaths[index])
+        }
+        const stitchedPath = path.join(app.getPath("temp"), `stitched-${uuidv4()}.png`)
+        await fs.promises.writeFile(stitchedPath, image)
+        this.stitchedPaths.add(stitchedPath)
+        return [stitchedPath]
+      })
+    )
+    return results.flat()
+  }
+
+  private async removeStitchedFiles(): Promise<void> {
+    for (const stitchedPath of this.stitchedPaths) {
+      await fs.promises.rm(stitchedPath, { force: true }).catch((error) => {
+        console.warn(`Could not remove stitched screenshot ${stitchedPath}:`, error)
+      })
+    }
+    this.stitchedPaths.clear()
+  }
+
+  // Read the queued screenshots and run them through the image preprocessor
+  private async loadScreenshots(screenshotPaths: string[]): Promise<LoadedScreenshot[]> {
+    const screenshots = await Promise.all(
+      screenshotPaths.map(async (screenshotPath) => ({
+        path: screenshotPath,
+        preview: await this.screenshotHelper.getImagePreview(screenshotPath),
+        ...preprocessImage(fs.readFileSync(screenshotPath), path.basename(screenshotPath)),
+        focusRegions: this.screenshotHelper.getFocusRegions(screenshotPath)
+      }))
+    )
+    const originalBytes = screenshots.reduce((total, s) => total + s.originalBytes, 0)
+    const bytes = screenshots.reduce((total, s) => total + s.bytes, 0)
+    console.log(
+      `Screenshots ready to send: ${formatBytes(originalBytes)} -> ${formatBytes(bytes)}` +
+        ` (saved ${formatBytes(Math.max(0, originalBytes - bytes))})`
+    )
+    return screenshots
+  }
+
+  // Cache key for a request: the provider's preferred model and the prompt
+  // template versions are part of the key, so switching models or editing a
+  // prompt never serves an answer produced under different conditions
+  private buildCacheKey(
+    kind: string,
+    images: string[],
+    language: string,
+    templates: PromptTemplateId[],
+    context: string[] = []
+  ): string {
+    const provider = this.aiClient.getProvider()
+    return ResponseCache.buildKey({
+      kind,
+      images,
+      context,
+      language,
+      responseLanguage: getResponseLanguage(),
+      provider: provider.id,
+      model: provider.getModelChain()[0],
+      promptVersions: templates.map(getPromptTemplateVersion)
+    })
+  }
+
   private async processScreenshotsHelper(
-    screenshots: Array<{ path: string; data: string }>,
-    signal: AbortSignal
+    screenshots: LoadedScreenshot[],
+    signal: AbortSignal,
+    options: ProcessOptions = {}
   ): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const imageDataList = screenshots.map((screenshot) => screenshot.data)
+      const images = screenshots.map(({ data, mimeType }) => ({ data, mimeType }))
+      const imageDataList = images.map((image) => image.data)
       const mainWindow = this.deps.getMainWindow()
       const language = await this.getLanguage()
 
-      const promptParts: Part[] = [
-        { text: `Extract the coding problem statement AND the relevant code snippet from these images. The problem might be stated as a question (e.g., "What will this code output?"). Ensure you include the actual code itself, not just the question. Programming Language: ${language}. Respond in ${RESPONSE_LANGUAGE}. Return the combined problem statement and code.` },
-        ...imageDataList.map(image => ({
-          inlineData: {
-            data: image,
-            mimeType: "image/jpeg"
-          }
-        }))
+      // OCR changes what the model sees, so each mode caches separately
+      const ocrMode = getOcrMode()
+      const cacheKey = this.buildCacheKey(
+        ocrMode === "image" ? "solve" : `solve:${ocrMode}`,
+        imageDataList,
+        language,
+        ["extract", "solution"]
+      )
+      const cached = options.bypassCache
+        ? null
+        : this.responseCache.get<CachedSolution>(cacheKey)
+      if (cached && mainWindow) {
+        console.log("Serving solution from response cache:", cacheKey)
+        this.deps.setProblemInfo({
+          problem_statement: cached.problem_statement,
+          ocr_text: cached.ocr_text ?? null
+        })
+        mainWindow.webContents.send(
+          this.deps.PROCESSING_EVENTS.PROBLEM_EXTRACTED,
+          { problem_statement: cached.problem_statement }
+        )
+        this.recordSolutionInHistory(
+          cached.problem_statement,
+          cached.solution,
+          ocrMode === "ocr" && cached.ocr_text ? [] : images,
+          language
+        )
+        sessionStore.addEntry(
+          {
+            type: "solution",
+            problemStatement: cached.problem_statement,
+            solution: cached.solution,
+            model: cached.model,
+            cached: true
+          },
+          { language, screenshotPaths: screenshots.map((screenshot) => screenshot.path) }
+        )
+        this.screenshotHelper.clearExtraScreenshotQueue()
+
+        const data = {
+          ...cached.solution,
+          cached: true,
+          checkpointId: conversationHistory.checkpoint()
+        }
+        mainWindow.webContents.send(this.deps.PROCESSING_EVENTS.SOLUTION_SUCCESS, data)
+        return { success: true, data }
+      }
+
+      const prompt = renderPrompt("extract", {
+        language,
+        responseLanguage: getResponseLanguage()
+      })
+
+      // Local OCR on the full-resolution captures; falls back to images if it finds nothing usable
+      const ocrText =
+        ocrMode === "image"
+          ? null
+          : await recognizeScreenshots(screenshots.map((screenshot) => screenshot.path), signal)
+      if (ocrMode !== "image" && !ocrText) {
+        console.warn("No usable OCR text, sending the screenshots instead")
+      }
+      const sendImages = ocrMode !== "ocr" || !ocrText
+      const focusSection = formatFocusPromptSection(screenshots.map((screenshot) => screenshot.focusRegions))
+
+      const promptText = [
+        prompt.user,
+        ocrText ? formatOcrPromptSection(ocrText, sendImages) : null,
+        focusSection
+      ]
+        .filter(Boolean)
+        .join("\n\n")
+      const promptParts: AIPart[] = [
+        { text: promptText },
+        ...(sendImages ? images.map((image) => ({ inlineData: image })) : [])
       ];
 
       const problemInfo = await this.callAIWithFallback(
         "Extract",
-        "You are an expert coding assistant.",
+        prompt.system,
         promptParts,
-        false,
-        signal
+        { signal, promptVersion: prompt.version }
       );
 
+      if (ocrText) {
+        const agreement = measureOcrAgreement(problemInfo, ocrText)
+        console.log(`Extraction shares ${Math.round(agreement * 100)}% of its words with the OCR text`)
+        if (agreement < OCR_CONFIG.MIN_AGREEMENT) {
+          console.warn("Extraction differs a lot from the OCR text; the model may have misread the screenshots")
+        }
+      }
+
       // Store problem info in AppState
-      this.deps.setProblemInfo({ problem_statement: problemInfo })
+      this.deps.setProblemInfo({ problem_statement: problemInfo, ocr_text: ocrText })
 
       // Send first success event
       if (mainWindow) {
@@ -470,14 +586,38 @@ export class ProcessingHelper {
 
         // Generate solutions after successful extraction
         const solutionsResult = await this.generateSolutionsHelper(signal)
-        if (solutionsResult.success) {
+        if (solutionsResult.success && solutionsResult.data) {
+          this.recordSolutionInHistory(problemInfo, solutionsResult.data, sendImages ? images : [], language)
+          const model = this.getLastUsedModel()
+          this.responseCache.set<CachedSolution>(cacheKey, {
+            problem_statement: problemInfo,
+            solution: solutionsResult.data,
+            ocr_text: ocrText,
+            model
+          })
+          sessionStore.addEntry(
+            {
+              type: "solution",
+              problemStatement: problemInfo,
+              solution: solutionsResult.data,
+              model,
+              cached: false
+            },
+            { language, screenshotPaths: screenshots.map((screenshot) => screenshot.path) }
+          )
+
           // Clear any existing extra screenshots before transitioning to solutions view
           this.screenshotHelper.clearExtraScreenshotQueue()
+          const data = {
+            ...solutionsResult.data,
+            cached: false,
+            checkpointId: conversationHistory.checkpoint()
+          }
           mainWindow.webContents.send(
             this.deps.PROCESSING_EVENTS.SOLUTION_SUCCESS,
-            solutionsResult.data
+            data
           )
-          return { success: true, data: solutionsResult.data }
+          return { success: true, data }
         } else {
           throw new Error(
             solutionsResult.error || "Failed to generate solutions"
@@ -510,109 +650,35 @@ export class ProcessingHelper {
       const language = await this.getLanguage()
 
       if (!problemInfo) {
-        throw new Error("No problem info available")
+        throw new Error(getLocalizedMessage("NO_PROBLEM_INFO"))
       }
 
-      // Get conversation context for continuity
-      const conversationContext = getConversationContext()
-      const contextSection = conversationContext 
-        ? `\n\nPrevious conversation context (for reference):\n${conversationContext}\n\n---\n`
-        : ""
-
-      const systemPrompt = `You are an expert coding assistant. Analyze the provided problem and code snippet.
-Respond ENTIRELY in ${RESPONSE_LANGUAGE}. Be concise and focus on the essential information.
-${contextSection ? "Use the previous conversation context to provide continuity if the current question relates to earlier discussions." : ""}
-
-Instructions:
-1.  If possible, provide a very brief, direct answer to the problem first (e.g., the final output value or a direct yes/no).
-2.  Then, provide the detailed explanation, code, and complexity analysis.
-3.  Generate a response in JSON format containing the following fields:
-    - "short_answer": (Nullable string) A very brief, direct answer to the problem, if applicable (e.g., the program's output). Use null if not applicable. MUST be in ${RESPONSE_LANGUAGE}.
-    - "code": (String) The corrected or proposed code solution in ${language}. Comments within the code MUST be in ${RESPONSE_LANGUAGE}.
-    - "thoughts": (Array of strings) Explanation of your thought process, step-by-step. MUST be in ${RESPONSE_LANGUAGE}.
-    - "time_complexity": (String) Time complexity analysis (e.g., "O(n)"). MUST be in ${RESPONSE_LANGUAGE}.
-    - "space_complexity": (String) Space complexity analysis (e.g., "O(1)"). MUST be in ${RESPONSE_LANGUAGE}.
-
-If the problem statement is incomplete or unclear, set "short_answer" to null, explain the issue clearly in the "thoughts" field (in ${RESPONSE_LANGUAGE}), and set "code" to an empty string or a relevant placeholder comment (in ${RESPONSE_LANGUAGE}).`;
-
-      const userPrompt = `${contextSection}Problem and Code:\n\`\`\`\n${problemInfo.problem_statement}\n\`\`\`\n\nGenerate the JSON response as described in the system prompt.`;
-
-      // Add user message to history
-      conversationHistory.push({
-        role: "user",
-        content: `Problem: ${problemInfo.problem_statement}`,
-        timestamp: Date.now()
+      // Earlier problems and answers go in as real turns, not pasted into the prompt
+      const history = await conversationHistory.prepareContents(this.aiClient, signal)
+
+      const prompt = renderPrompt("solution", {
+        language,
+        responseLanguage: getResponseLanguage(),
+        // Customised templates from before history was sent as turns may still use it
+        context: "",
+        problem: problemInfo.problem_statement
       })
 
       const rawContent = await this.callAIWithFallback(
         "Generate",
-        systemPrompt,
-        [{ text: userPrompt }],
-        true,
-        signal
-      );
-      let structuredData = {
-        short_answer: null as string | null,
-        code: "",
-        thoughts: ["Failed to parse AI response."],
-        time_complexity: "N/A",
-        space_complexity: "N/A"
-      };
-
-      try {
-        let jsonToParse = rawContent.trim();
-        // Check if the response is wrapped in markdown code fences and extract JSON
-        if (jsonToParse.startsWith("```json") && jsonToParse.endsWith("```")) {
-          jsonToParse = jsonToParse.substring(7, jsonToParse.length - 3).trim();
-        } else if (jsonToParse.startsWith("```") && jsonToParse.endsWith("```")) {
-          // Handle generic ``` ``` fences as well
-          jsonToParse = jsonToParse.substring(3, jsonToParse.length - 3).trim();
-        }
-
-        // Attempt to parse the (potentially extracted) JSON
-        const parsed = JSON.parse(jsonToParse);
-        // Basic validation to ensure it has the expected structure (including optional short_answer)
-        if (parsed && typeof parsed === 'object' && 'code' in parsed && 'thoughts' in parsed && 'time_complexity' in parsed && 'space_complexity' in parsed) {
-          structuredData = {
-            short_answer: parsed.short_answer || null,
-            code: parsed.code || "",
-            thoughts: Array.isArray(parsed.thoughts) ? parsed.thoughts : [String(parsed.thoughts || `No thoughts provided in ${RESPONSE_LANGUAGE}.`)],
-            time_complexity: parsed.time_complexity || "N/A",
-            space_complexity: parsed.space_complexity || "N/A"
-          };
-        } else {
-          // If parsing succeeds but structure is wrong, put raw content in thoughts
-          structuredData.thoughts = [`Received unexpected structure from AI (in ${RESPONSE_LANGUAGE}):`, rawContent];
-          structuredData.code = `// AI Response (unexpected format):\n${rawContent}`;
-          structuredData.short_answer = null;
+        prompt.system,
+        [{ text: prompt.user }],
+        {
+          jsonMode: true,
+          responseSchema: SOLUTION_JSON_SCHEMA,
+          signal,
+          promptVersion: prompt.version,
+          history,
+          onText: (textSoFar) => this.emitSolutionChunk(textSoFar)
         }
-      } catch (parseError) {
-        // If JSON parsing fails, return the raw string as 'code' and add a thought
-        console.warn(`Failed to parse OpenAI response as JSON (language: ${RESPONSE_LANGUAGE}). Raw content:`, rawContent);
-        // Improved error handling for non-JSON responses
-        structuredData = {
-          short_answer: null,
-          code: `// Error: Could not process the response from the AI.`,
-          thoughts: [`The AI response could not be understood (expected JSON format). Response language set to ${RESPONSE_LANGUAGE}.`, "Raw AI Response:", rawContent],
-          time_complexity: "N/A",
-          space_complexity: "N/A"
-        };
-      }
+      );
 
-      // Add assistant response to history for context continuity
-      const responseSummary = structuredData.short_answer 
-        ? `Answer: ${structuredData.short_answer}` 
-        : `Solution provided with ${structuredData.thoughts.length} thoughts`
-      conversationHistory.push({
-        role: "assistant",
-        content: responseSummary + (structuredData.code ? `\nCode: ${structuredData.code.substring(0, 300)}...` : ""),
-        timestamp: Date.now()
-      })
-      
-      // Trim history if too long
-      if (conversationHistory.length > MAX_HISTORY_MESSAGES * 2) {
-        conversationHistory = conversationHistory.slice(-MAX_HISTORY_MESSAGES * 2)
-      }
+      const structuredData = await this.parseSolutionWithRepair(rawContent, signal)
 
       return { success: true, data: structuredData }
     } catch (error: any) {
@@ -625,12 +691,12 @@ If the problem statement is incomplete or unclear, set "short_answer" to null, e
           mainWindow.webContents.send("reset-view")
           mainWindow.webContents.send(
             this.deps.PROCESSING_EVENTS.INITIAL_SOLUTION_ERROR,
-            "Request timed out. The server took too long to respond. Please try again."
+            getLocalizedMessage("REQUEST_TIMED_OUT")
           )
         }
         return {
           success: false,
-          error: "Request timed out. Please try again."
+          error: getLocalizedMessage("REQUEST_TIMED_OUT_SHORT")
         }
       }
 
@@ -644,12 +710,87 @@ If the problem statement is incomplete or unclear, set "short_answer" to null, e
     }
   }
 
-  private async processExtraScreenshotsHelper(
-    screenshots: Array<{ path: string; data: string }>,
+  // Add a solved problem to the conversation history for context continuity
+  private recordSolutionInHistory(
+    problemStatement: string,
+    solution: SolutionPayload,
+    images: HistoryImage[],
+    language: string
+  ): void {
+    conversationHistory.addTurn("user", `Problem and Code:\n${problemStatement}`, images)
+    conversationHistory.addTurn("model", formatSolutionTurn(solution, language))
+  }
+
+  // Add a debug round to the conversation history, so later answers build on the fix
+  private recordDebugInHistory(response: string, images: HistoryImage[]): void {
+    conversationHistory.addTurn("user", "Debug the current solution using these screenshots.", images)
+    conversationHistory.addTurn("model", response)
+  }
+
+  // Validate the model output against the solution schema. If it does not match,
+  // ask the model once to repair its own JSON before giving up.
+  private async parseSolutionWithRepair(
+    rawContent: string,
     signal: AbortSignal
+  ): Promise<SolutionPayload> {
+    const firstAttempt = parseSolutionPayload(rawContent)
+    if (firstAttempt.data) return firstAttempt.data
+
+    console.warn("Solution response failed validation:", firstAttempt.errors)
+
+    const repairPrompt = `The following response was supposed to be a JSON object matching this JSON Schema:
+${JSON.stringify(SOLUTION_JSON_SCHEMA, null, 2)}
+
+It failed validation with these errors:
+${firstAttempt.errors.map((error) => `- ${error}`).join("\n")}
+
+Response to repair:
+${rawContent}
+
+Return ONLY the corrected JSON object. Keep the original content and language; only fix the structure.`
+
+    const repairedContent = await this.callAIWithFallback(
+      "Repair",
+      "You repair malformed JSON so that it matches a given schema.",
+      [{ text: repairPrompt }],
+      { jsonMode: true, responseSchema: SOLUTION_JSON_SCHEMA, signal }
+    )
+
+    const secondAttempt = parseSolutionPayload(repairedContent)
+    if (secondAttempt.data) {
+      console.log("Solution response repaired successfully")
+      return secondAttempt.data
+    }
+
+    console.error("Repaired solution still invalid:", secondAttempt.errors)
+    throw new Error(`Invalid AI response: ${secondAttempt.errors.join("; ")}`)
+  }
+
+  // Send the fields parsed so far from a streaming solution to the renderer
+  private emitSolutionChunk(textSoFar: string): void {
+    const mainWindow = this.deps.getMainWindow()
+    if (!mainWindow || mainWindow.isDestroyed()) return
+
+    const partial = parsePartialJson(textSoFar)
+    if (!partial || typeof partial !== "object") return
+
+    mainWindow.webContents.send(this.deps.PROCESSING_EVENTS.SOLUTION_CHUNK, {
+      short_answer: typeof partial.short_answer === "string" ? partial.short_answer : null,
+      thoughts: Array.isArray(partial.thoughts)
+        ? partial.thoughts.filter((thought: unknown) => typeof thought === "string")
+        : [],
+      code: typeof partial.code === "string" ? partial.code : ""
+    })
+  }
+
+  private async processExtraScreenshotsHelper(
+    screenshots: LoadedScreenshot[],
+    signal: AbortSignal,
+    options: ProcessOptions = {}
   ) {
     try {
-      const imageDataList = screenshots.map((screenshot) => screenshot.data)
+      const images = screenshots.map(({ data, mimeType }) => ({ data, mimeType }))
+      const imageDataList = images.map((image) => image.data)
       const problemInfo = this.deps.getProblemInfo()
       const language = await this.getLanguage()
 
@@ -657,27 +798,44 @@ If the problem statement is incomplete or unclear, set "short_answer" to null, e
         throw new Error("No problem info available")
       }
 
-      const systemPrompt = `You are an expert debugger. Analyze and fix this code in ${language} language. Respond in ${RESPONSE_LANGUAGE}.`;
+      // The review depends on the problem and on the conversation so far, which
+      // holds the current code (solutions, chat edits, the selected version)
+      const cacheKey = this.buildCacheKey("debug", imageDataList, language, ["debug"], [
+        problemInfo.problem_statement,
+        JSON.stringify(conversationHistory.getContents())
+      ])
+      const cached = options.bypassCache ? null : this.responseCache.get<CachedDebug>(cacheKey)
+      if (cached) {
+        console.log("Serving debug response from response cache:", cacheKey)
+        this.recordDebugInHistory(cached.response, images)
+        return { success: true, data: cached.response, model: cached.model }
+      }
 
-      const promptParts: Part[] = [
-        { text: `Problem: ${problemInfo.problem_statement}\n\nCurrent solution: ${problemInfo.solution}\n\nDebug this code.` },
-        ...imageDataList.map(image => ({
-          inlineData: {
-            data: image,
-            mimeType: "image/jpeg"
-          }
-        }))
+      const history = await conversationHistory.prepareContents(this.aiClient, signal)
+
+      const prompt = renderPrompt("debug", {
+        language,
+        responseLanguage: getResponseLanguage(),
+        problem: problemInfo.problem_statement,
+        solution: String(problemInfo.solution)
+      })
+
+      const promptParts: AIPart[] = [
+        { text: prompt.user },
+        ...images.map((image) => ({ inlineData: image }))
       ];
 
       const responseText = await this.callAIWithFallback(
         "Debug",
-        systemPrompt,
+        prompt.system,
         promptParts,
-        false,
-        signal
+        { signal, promptVersion: prompt.version, history }
       );
 
-      return { success: true, data: responseText }
+      const model = this.getLastUsedModel()
+      this.responseCache.set<CachedDebug>(cacheKey, { response: responseText, model })
+      this.recordDebugInHistory(responseText, images)
+      return { success: true, data: responseText, model }
     } catch (error: any) {
       if (error.name === "CanceledError") {
         return {
@@ -696,6 +854,87 @@ If the problem statement is incomplete or unclear, set "short_answer" to null, e
     }
   }
 
+  /**
+   * Answer a typed follow-up about the current solution. When the request
+   * changes the code, the reply carries the full updated code. Passing the
+   * checkpoint of an earlier solution version branches the conversation from it.
+   */
+  public async processChatMessage(
+    message: string,
+    code: string,
+    checkpointId?: string
+  ): Promise<{ success: boolean; data?: ChatReplyPayload; checkpointId?: string; error?: string }> {
+    this.currentChatAbortController?.abort()
+    this.currentChatAbortController = new AbortController()
+    const { signal } = this.currentChatAbortController
+
+    try {
+      if (checkpointId && !conversationHistory.restore(checkpointId)) {
+        console.warn(`Conversation checkpoint ${checkpointId} not found, continuing from the latest turn`)
+      }
+
+      const problemInfo = this.deps.getProblemInfo()
+      const language = await this.getLanguage()
+
+      const history = await conversationHistory.prepareContents(this.aiClient, signal)
+      const prompt = renderPrompt("chat", {
+        language,
+        responseLanguage: getResponseLanguage(),
+        problem: problemInfo?.problem_statement || "",
+        code,
+        message
+      })
+
+      const rawContent = await this.callAIWithFallback(
+        "Chat",
+        prompt.system,
+        [{ text: prompt.user }],
+        {
+          jsonMode: true,
+          responseSchema: CHAT_REPLY_JSON_SCHEMA,
+          signal,
+          promptVersion: prompt.version,
+          history
+        }
+      )
+
+      const result = parseChatReplyPayload(rawContent)
+      if (!result.data) {
+        console.error("Chat response failed validation:", result.errors)
+        throw new Error(`Invalid AI response: ${result.errors.join("; ")}`)
+      }
+      const reply = result.data
+
+      conversationHistory.addTurn("user", message)
+      conversationHistory.addTurn(
+        "model",
+        reply.code ? `${reply.reply}\n\n\`\`\`${language}\n${reply.code}\n\`\`\`` : reply.reply
+      )
+      sessionStore.addEntry(
+        {
+          type: "chat",
+          message,
+          reply: reply.reply,
+          code: reply.code,
+          model: this.getLastUsedModel()
+        },
+        { language }
+      )
+
+      return { success: true, data: reply, checkpointId: conversationHistory.checkpoint() }
+    } catch (error: any) {
+      if (error.message === "CanceledError") {
+        return { success: false, error: "Chat request was canceled." }
+      }
+      console.error("Chat error:", error.message)
+      return { success: false, error: error.message }
+    } finally {
+      if (this.currentChatAbortController?.signal === signal) {
+        this.currentChatAbortController = null
+      }
+    }
+  }
+
   public cancelOngoingRequests(): void {
     let wasCancelled = false
 
@@ -711,6 +950,12 @@ If the problem statement is incomplete or unclear, set "short_answer" to null, e
       wasCancelled = true
     }
 
+    if (this.currentChatAbortController) {
+      this.currentChatAbortController.abort()
+      this.currentChatAbortController = null
+      wasCancelled = true
+    }
+
     // Reset hasDebugged flag
     this.deps.setHasDebugged(false)
 
@@ -734,5 +979,10 @@ If the problem statement is incomplete or unclear, set "short_answer" to null, e
       this.currentExtraProcessingAbortController.abort()
       this.currentExtraProcessingAbortController = null
     }
+
+    if (this.currentChatAbortController) {
+      this.currentChatAbortController.abort()
+      this.currentChatAbortController = null
+    }
   }
 }
@@ -0,0 +1,209 @@
+// RegionSelector.ts
+// Region capture: a frozen full-screen capture is shown in a borderless window
+// over a display and the user drags a rectangle on it. Working on the frozen
+// image (rather than a see-through window over the live screen) means the
+// selection always matches the pixels we crop, whatever the capture tool or
+// scale factor. The last region is persisted so it can be re-captured with a
+// single key.
+
+import { BrowserWindow, Display, nativeImage } from "electron"
+import Store from "electron-store"
+
+const store = new Store()
+
+const STORE_KEY = "LAST_CAPTURE_REGION"
+
+// Drags smaller than this (in screen pixels) are treated as stray clicks
+const MIN_SELECTION_SIZE = 8
+
+export interface CaptureRegion {
+  /** Rectangle in pixels of the full capture it was selected on */
+  x: number
+  y: number
+  width: number
+  height: number
+  /** Size of that capture, so the region can be rescaled if the resolution changes */
+  imageWidth: number
+  imageHeight: number
+}
+
+// Self-contained page: the capture is handed over through selectRegion() and the
+// promise it returns resolves to the rectangle in image pixels, or null on Esc
+const OVERLAY_HTML = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>
+  html, body { margin: 0; height: 100%; overflow: hidden; background: #000; cursor: crosshair; user-select: none; }
+  img { position: absolute; pointer-events: none; }
+  #dim { position: absolute; inset: 0; background: rgba(0, 0, 0, 0.35); }
+  #selection { position: absolute; display: none; border: 1px solid #10b981; box-shadow: 0 0 0 9999px rgba(0, 0, 0, 0.35); }
+  #size { position: absolute; left: 0; top: -20px; font: 11px -apple-system, sans-serif; color: #fff; background: rgba(0, 0, 0, 0.7); padding: 1px 4px; border-radius: 3px; white-space: nowrap; }
+  #hint { position: absolute; top: 16px; left: 50%; transform: translateX(-50%); font: 13px -apple-system, sans-serif; color: #fff; background: rgba(0, 0, 0, 0.7); padding: 6px 12px; border-radius: 6px; }
+</style>
+</head>
+<body>
+<img id="capture">
+<div id="dim"></div>
+<div id="selection"><span id="size"></span></div>
+<div id="hint">Drag to select a region &middot; Esc to cancel</div>
+<script>
+  window.selectRegion = (src, imageWidth, imageHeight) => new Promise((resolve) => {
+    const img = document.getElementById("capture")
+    const dim = document.getElementById("dim")
+    const selection = document.getElementById("selection")
+    const size = document.getElementById("size")
+    const hint = document.getElementById("hint")
+
+    // Fit the capture to the window; captures of several monitors get letterboxed
+    const scale = Math.min(window.innerWidth / imageWidth, window.innerHeight / imageHeight)
+    const left = (window.innerWidth - imageWidth * scale) / 2
+    const top = (window.innerHeight - imageHeight * scale) / 2
+    Object.assign(img.style, {
+      left: left + "px",
+      top: top + "px",
+      width: imageWidth * scale + "px",
+      height: imageHeight * scale + "px"
+    })
+    img.src = src
+
+    const clampX = (x) => Math.min(Math.max(x, left), left + imageWidth * scale)
+    const clampY = (y) => Math.min(Math.max(y, top), top + imageHeight * scale)
+    let start = null
+    let rect = null
+
+    window.addEventListener("mousedown", (e) => {
+      start = { x: clampX(e.clientX), y: clampY(e.clientY) }
+      hint.style.display = "none"
+    })
+    window.addEventListener("mousemove", (e) => {
+      if (!start) return
+      const x = clampX(e.clientX)
+      const y = clampY(e.clientY)
+      rect = {
+        x: Math.min(start.x, x),
+        y: Math.min(start.y, y),
+        width: Math.abs(x - start.x),
+        height: Math.abs(y - start.y)
+      }
+      dim.style.display = "none"
+      Object.assign(selection.style, {
+        display: "block",
+        left: rect.x + "px",
+        top: rect.y + "px",
+        width: rect.width + "px",
+        height: rect.height + "px"
+      })
+      size.textContent = Math.round(rect.width / scale) + " \\u00d7 " + Math.round(rect.height / scale)
+    })
+    window.addEventListener("mouseup", () => {
+      if (!start) return
+      start = null
+      if (!rect || rect.width < ${MIN_SELECTION_SIZE} || rect.height < ${MIN_SELECTION_SIZE}) {
+        rect = null
+        selection.style.display = "none"
+        dim.style.display = "block"
+        hint.style.display = "block"
+        return
+      }
+      resolve({
+        x: Math.round((rect.x - left) / scale),
+        y: Math.round((rect.y - top) / scale),
+        width: Math.round(rect.width / scale),
+        height: Math.round(rect.height / scale)
+      })
+    })
+    window.addEventListener("keydown", (e) => {
+      if (e.key === "Escape") resolve(null)
+    })
+  })
+</script>
+</body>
+</html>`
+
+/**
+ * Show the capture over the display and let the user drag a rectangle on it.
+ * Resolves to null when the selection is cancelled.
+ */
+export async function selectRegion(capture: Buffer, display: Display): Promise<CaptureRegion | null> {
+  const image = nativeImage.createFromBuffer(capture)
+  const { width: imageWidth, height: imageHeight } = image.getSize()
+  if (imageWidth === 0 || imageHeight === 0) {
+    throw new Error("Screenshot could not be decoded")
+  }
+
+  const overlay = new BrowserWindow({
+    ...display.bounds,
+    frame: false,
+    show: false,
+    resizable: false,
+    movable: false,
+    minimizable: false,
+    maximizable: false,
+    skipTaskbar: true,
+    hasShadow: false,
+    enableLargerThanScreen: true,
+    alwaysOnTop: true,
+    backgroundColor: "#000000",
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true
+    }
+  })
+  overlay.setAlwaysOnTop(true, "screen-saver", 1)
+  overlay.setContentProtection(true)
+
+  // Closing the overlay any other way (Alt+F4, losing focus) cancels the selection
+  const closed = new Promise<null>((resolve) => overlay.once("closed", () => resolve(null)))
+  overlay.once("blur", () => {
+    if (!overlay.isDestroyed()) overlay.close()
+  })
+
+  try {
+    await overlay.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(OVERLAY_HTML)}`)
+    // JPEG keeps the hand-over small; the crop is taken from the original PNG
+    const preview = `data:image/jpeg;base64,${image.toJPEG(85).toString("base64")}`
+    const selection = overlay.webContents.executeJavaScript(
+      `window.selectRegion(${JSON.stringify(preview)}, ${imageWidth}, ${imageHeight})`,
+      true
+    ) as Promise<Omit<CaptureRegion, "imageWidth" | "imageHeight"> | null>
+    // Destroying the overlay rejects the pending script after the race is over
+    const settled = selection.catch(() => null)
+    overlay.show()
+    overlay.focus()
+
+    const rect = await Promise.race([settled, closed])
+    return rect ? { ...rect, imageWidth, imageHeight } : null
+  } finally {
+    if (!overlay.isDestroyed()) overlay.destroy()
+  }
+}
+
+/**
+ * Crop a full capture to the region, rescaling it if the capture size changed since it was selected
+ */
+export function cropToRegion(capture: Buffer, region: CaptureRegion): Buffer {
+  const image = nativeImage.createFromBuffer(capture)
+  const { width, height } = image.getSize()
+  const scaleX = width / region.imageWidth
+  const scaleY = height / region.imageHeight
+
+  const x = Math.min(Math.max(Math.round(region.x * scaleX), 0), width - 1)
+  const y = Math.min(Math.max(Math.round(region.y * scaleY), 0), height - 1)
+  return image
+    .crop({
+      x,
+      y,
+      width: Math.max(1, Math.min(Math.round(region.width * scaleX), width - x)),
+      height: Math.max(1, Math.min(Math.round(region.height * scaleY), height - y))
+    })
+    .toPNG()
+}
+
+export function getLastRegion(): CaptureRegion | null {
+  return (store.get(STORE_KEY) as CaptureRegion | undefined) || null
+}
+
+export function setLastRegion(region: CaptureRegion): void {
+  store.set(STORE_KEY, region)
+}
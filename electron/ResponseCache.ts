@@ -0,0 +1,135 @@
+// ResponseCache.ts
+// Content-addressed on-disk cache for AI responses. Entries are keyed by a hash of
+// the screenshot contents plus everything that affects the prompt, and evicted
+// least-recently-used first once the cache grows past its size cap.
+
+import path from "node:path"
+import fs from "node:fs"
+import crypto from "node:crypto"
+import { app } from "electron"
+import { RESPONSE_CACHE_CONFIG } from "./config"
+
+/**
+ * Everything that changes the model's answer for a given set of images
+ */
+export interface CacheKeyParts {
+  /** "solve" for the initial solution, "debug" for follow-up screenshots */
+  kind: string
+  /** Base64 image data, in queue order */
+  images: string[]
+  language: string
+  responseLanguage: string
+  provider: string
+  model: string
+  /** Versions of the prompt templates involved, so edited prompts miss the cache */
+  promptVersions: string[]
+  /** Text the answer also depends on (problem, current code, conversation), hashed into the key */
+  context?: string[]
+}
+
+interface CacheEntry<T> {
+  key: string
+  createdAt: number
+  value: T
+}
+
+export class ResponseCache {
+  private readonly cacheDir: string
+  private readonly maxSizeBytes: number
+
+  constructor(maxSizeBytes: number = RESPONSE_CACHE_CONFIG.MAX_SIZE_BYTES) {
+    this.cacheDir = path.join(app.getPath("userData"), "response-cache")
+    this.maxSizeBytes = maxSizeBytes
+
+    if (!fs.existsSync(this.cacheDir)) {
+      fs.mkdirSync(this.cacheDir, { recursive: true })
+    }
+  }
+
+  /**
+   * Build a stable cache key. Images are hashed by content, not path, so the same
+   * problem captured twice maps to the same entry.
+   */
+  public static buildKey(parts: CacheKeyParts): string {
+    const imageHashes = parts.images.map((image) =>
+      crypto.createHash("sha256").update(Buffer.from(image, "base64")).digest("hex")
+    )
+    return crypto
+      .createHash("sha256")
+      .update(
+        JSON.stringify({
+          kind: parts.kind,
+          images: imageHashes,
+          language: parts.language,
+          responseLanguage: parts.responseLanguage,
+          provider: parts.provider,
+          model: parts.model,
+          formatVersion: RESPONSE_CACHE_CONFIG.FORMAT_VERSION,
+          promptVersions: parts.promptVersions,
+          context: (parts.context || []).map((text) =>
+            crypto.createHash("sha256").update(text).digest("hex")
+          )
+        })
+      )
+      .digest("hex")
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.cacheDir, `${key}.json`)
+  }
+
+  public get<T>(key: string): T | null {
+    const filePath = this.entryPath(key)
+    try {
+      if (!fs.existsSync(filePath)) return null
+      const entry = JSON.parse(fs.readFileSync(filePath, "utf8")) as CacheEntry<T>
+
+      // The file's mtime doubles as the last-access time for LRU eviction
+      const now = new Date()
+      fs.utimesSync(filePath, now, now)
+      return entry.value
+    } catch (error) {
+      console.warn("Discarding unreadable cache entry:", key, error)
+      fs.rmSync(filePath, { force: true })
+      return null
+    }
+  }
+
+  public set<T>(key: string, value: T): void {
+    const entry: CacheEntry<T> = { key, createdAt: Date.now(), value }
+    try {
+      fs.writeFileSync(this.entryPath(key), JSON.stringify(entry))
+      this.evict()
+    } catch (error) {
+      console.error("Error writing response cache entry:", error)
+    }
+  }
+
+  public clear(): void {
+    for (const file of fs.readdirSync(this.cacheDir)) {
+      fs.rmSync(path.join(this.cacheDir, file), { force: true })
+    }
+    console.log("Response cache cleared")
+  }
+
+  // Remove least recently used entries until the cache fits within its size cap
+  private evict(): void {
+    const entries = fs
+      .readdirSync(this.cacheDir)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => {
+        const filePath = path.join(this.cacheDir, file)
+        const stats = fs.statSync(filePath)
+        return { filePath, size: stats.size, lastAccessed: stats.mtimeMs }
+      })
+      .sort((a, b) => a.lastAccessed - b.lastAccessed)
+
+    let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0)
+    for (const entry of entries) {
+      if (totalSize <= this.maxSizeBytes) break
+      fs.rmSync(entry.filePath, { force: true })
+      totalSize -= entry.size
+      console.log("Evicted response cache entry:", path.basename(entry.filePath))
+    }
+  }
+}
@@ -2,17 +2,42 @@
 
 import path from "node:path"
 import fs from "node:fs"
-import { app } from "electron"
+import { app, Display, nativeImage, screen } from "electron"
 import { v4 as uuidv4 } from "uuid"
 import { execFile } from "child_process"
 import { promisify } from "util"
+import { captureScreenshotLinux } from "./linuxCapture"
+import { getCursorDisplay, resolveCaptureDisplays, stitchDisplayCaptures } from "./displayCapture"
+import { cropToRegion, getLastRegion, selectRegion, setLastRegion } from "./RegionSelector"
+import Store from "electron-store"
+import { SCREENSHOT_QUEUE_CONFIG } from "./config"
+import { detectImageMimeType } from "./ImagePreprocessor"
+import { ImportedImage } from "./problemImport"
+import { computePerceptualHash, hashDistance } from "./perceptualHash"
+import { FocusRegion, normalizeFocusRegions } from "./annotations"
 
 const execFileAsync = promisify(execFile)
 
+const store = new Store()
+
+const MAX_SCREENSHOTS_KEY = "MAX_SCREENSHOTS"
+
+// A capture that looks the same as one already queued, held back until the user decides
+export interface DuplicateScreenshot {
+  /** The new capture, saved but not queued */
+  path: string
+  /** The queued screenshot it matches */
+  duplicateOf: string
+}
+
 export class ScreenshotHelper {
   private screenshotQueue: string[] = []
   private extraScreenshotQueue: string[] = []
-  private readonly MAX_SCREENSHOTS = 2
+  private pendingDuplicate: DuplicateScreenshot | null = null
+  // Perceptual hashes of saved screenshots, by path
+  private screenshotHashes = new Map<string, string | null>()
+  // Areas highlighted in the annotation editor, by path
+  private focusRegions = new Map<string, FocusRegion[]>()
 
   private readonly screenshotDir: string
   private readonly extraScreenshotDir: string
@@ -62,7 +87,141 @@ export class ScreenshotHelper {
     return this.extraScreenshotQueue
   }
 
+  /**
+   * How many screenshots the queue holds before the oldest is dropped
+   */
+  public getMaxScreenshots(): number {
+    return (
+      (store.get(MAX_SCREENSHOTS_KEY) as number | undefined) ??
+      SCREENSHOT_QUEUE_CONFIG.DEFAULT_MAX_SCREENSHOTS
+    )
+  }
+
+  public setMaxScreenshots(maxScreenshots: number): void {
+    if (!(SCREENSHOT_QUEUE_CONFIG.MAX_SCREENSHOTS_OPTIONS as readonly number[]).includes(maxScreenshots)) {
+      throw new Error(`Unsupported screenshot queue size: ${maxScreenshots}`)
+    }
+    store.set(MAX_SCREENSHOTS_KEY, maxScreenshots)
+    console.log(`Screenshot queue size set to ${maxScreenshots}`)
+    this.trimQueue(maxScreenshots)
+  }
+
+  // Drop the oldest screenshots beyond the limit
+  private trimQueue(maxScreenshots: number): void {
+    while (this.screenshotQueue.length > maxScreenshots) {
+      const oldestPath = this.screenshotQueue.shift()
+      if (oldestPath) {
+        this.screenshotHashes.delete(oldestPath)
+        this.focusRegions.delete(oldestPath)
+        fs.unlink(oldestPath, (err) => {
+          if (err) console.error(`Error deleting oldest screenshot at ${oldestPath}:`, err)
+        })
+      }
+    }
+  }
+
+  /**
+   * Put a queue in a new order. The paths must be exactly the screenshots of
+   * the main or the extra queue; whichever matches is reordered.
+   */
+  public reorderScreenshots(paths: string[]): void {
+    const sameScreenshots = (queue: string[]) =>
+      queue.length === paths.length && queue.every((filePath) => paths.includes(filePath))
+
+    if (sameScreenshots(this.screenshotQueue)) {
+      this.screenshotQueue = [...paths]
+    } else if (sameScreenshots(this.extraScreenshotQueue)) {
+      this.extraScreenshotQueue = [...paths]
+    } else {
+      throw new Error("Reordered screenshots do not match the queue")
+    }
+    console.log("Reordered screenshot queue:", paths)
+  }
+
+  /**
+   * Perceptual hash of a screenshot, computed once per file
+   */
+  public getScreenshotHash(screenshotPath: string): string | null {
+    if (!this.screenshotHashes.has(screenshotPath)) {
+      this.screenshotHashes.set(
+        screenshotPath,
+        computePerceptualHash(nativeImage.createFromPath(screenshotPath))
+      )
+    }
+    return this.screenshotHashes.get(screenshotPath) ?? null
+  }
+
+  /**
+   * Overwrite a queued screenshot with its annotated version. The highlighted
+   * regions are kept for the Extract prompt.
+   */
+  public async replaceWithAnnotated(
+    screenshotPath: string,
+    image: Buffer,
+    focusRegions: FocusRegion[]
+  ): Promise<void> {
+    if (!this.screenshotQueue.includes(screenshotPath) && !this.extraScreenshotQueue.includes(screenshotPath)) {
+      throw new Error("Screenshot is not in the queue")
+    }
+    await fs.promises.writeFile(screenshotPath, image)
+    this.screenshotHashes.delete(screenshotPath)
+    const regions = normalizeFocusRegions(focusRegions)
+    if (regions.length > 0) {
+      this.focusRegions.set(screenshotPath, regions)
+    } else {
+      this.focusRegions.delete(screenshotPath)
+    }
+    console.log(`Saved annotated screenshot with ${regions.length} focus region(s):`, screenshotPath)
+  }
+
+  public getFocusRegions(screenshotPath: string): FocusRegion[] {
+    return this.focusRegions.get(screenshotPath) || []
+  }
+
+  public getPendingDuplicate(): DuplicateScreenshot | null {
+    return this.pendingDuplicate
+  }
+
+  /**
+   * Settle a held-back duplicate: "replace" swaps it in for the queued
+   * screenshot it matches, "keep-both" queues it like any other capture.
+   * Returns the path now in the queue.
+   */
+  public resolveDuplicate(action: "replace" | "keep-both"): string {
+    const pending = this.pendingDuplicate
+    if (!pending) throw new Error("No duplicate screenshot is waiting")
+    this.pendingDuplicate = null
+
+    const index = this.screenshotQueue.indexOf(pending.duplicateOf)
+    if (action === "replace" && index !== -1) {
+      this.screenshotQueue[index] = pending.path
+      this.screenshotHashes.delete(pending.duplicateOf)
+      this.focusRegions.delete(pending.duplicateOf)
+      fs.unlink(pending.duplicateOf, (err) => {
+        if (err) console.error(`Error deleting replaced screenshot at ${pending.duplicateOf}:`, err)
+      })
+      console.log(`Replaced screenshot ${index + 1} with the new capture:`, pending.path)
+    } else {
+      this.addToQueue(pending.path)
+    }
+    return pending.path
+  }
+
+  private discardPendingDuplicate(): void {
+    if (!this.pendingDuplicate) return
+    const { path: pendingPath } = this.pendingDuplicate
+    this.pendingDuplicate = null
+    this.screenshotHashes.delete(pendingPath)
+    fs.unlink(pendingPath, (err) => {
+      if (err) console.error(`Error deleting unused duplicate screenshot at ${pendingPath}:`, err)
+    })
+  }
+
   public clearQueues(): void {
+    this.discardPendingDuplicate()
+    this.screenshotHashes.clear()
+    this.focusRegions.clear()
+
     // Clear screenshotQueue
     this.screenshotQueue.forEach((screenshotPath) => {
       fs.unlink(screenshotPath, (err) => {
@@ -74,6 +233,7 @@ export class ScreenshotHelper {
 
     // Clear extraScreenshotQueue
     this.extraScreenshotQueue.forEach((screenshotPath) => {
+      this.focusRegions.delete(screenshotPath)
       fs.unlink(screenshotPath, (err) => {
         if (err)
           console.error(
@@ -85,24 +245,29 @@ export class ScreenshotHelper {
     this.extraScreenshotQueue = []
   }
 
-  private async captureScreenshotMac(): Promise<Buffer> {
+  private async captureScreenshotMac(display: Display): Promise<Buffer> {
     const tmpPath = path.join(app.getPath("temp"), `${uuidv4()}.png`)
-    await execFileAsync("screencapture", ["-x", tmpPath])
+    // -R takes the display rectangle in global points, the same space as Electron's bounds
+    const { x, y, width, height } = display.bounds
+    await execFileAsync("screencapture", ["-x", `-R${x},${y},${width},${height}`, tmpPath])
     const buffer = await fs.promises.readFile(tmpPath)
     await fs.promises.unlink(tmpPath)
     return buffer
   }
 
-  private async captureScreenshotWindows(): Promise<Buffer> {
+  private async captureScreenshotWindows(display: Display): Promise<Buffer> {
     // Using PowerShell's native screenshot capability
     const tmpPath = path.join(app.getPath("temp"), `${uuidv4()}.png`)
+    // CopyFromScreen works in physical pixels once the process is DPI aware
+    const { x, y, width, height } = screen.dipToScreenRect(null, display.bounds)
     const script = `
       Add-Type -AssemblyName System.Windows.Forms
       Add-Type -AssemblyName System.Drawing
-      $screen = [System.Windows.Forms.Screen]::PrimaryScreen
-      $bitmap = New-Object System.Drawing.Bitmap $screen.Bounds.Width, $screen.Bounds.Height
+      Add-Type -TypeDefinition 'using System.Runtime.InteropServices; public class Dpi { [DllImport("user32.dll")] public static extern bool SetProcessDPIAware(); }'
+      [Dpi]::SetProcessDPIAware() | Out-Null
+      $bitmap = New-Object System.Drawing.Bitmap ${width}, ${height}
       $graphics = [System.Drawing.Graphics]::FromImage($bitmap)
-      $graphics.CopyFromScreen($screen.Bounds.X, $screen.Bounds.Y, 0, 0, $bitmap.Size)
+      $graphics.CopyFromScreen(${x}, ${y}, 0, 0, $bitmap.Size)
       $bitmap.Save('${tmpPath.replace(/\\/g, "\\\\")}')
       $graphics.Dispose()
       $bitmap.Dispose()
@@ -113,6 +278,89 @@ export class ScreenshotHelper {
     return buffer
   }
 
+  // Get screenshot buffer using native methods, one display at a time
+  private async captureDisplays(displays: Display[]): Promise<Buffer> {
+    if (process.platform === "linux") {
+      return captureScreenshotLinux(displays)
+    }
+    const captures: { display: Display; image: Buffer }[] = []
+    for (const display of displays) {
+      const image =
+        process.platform === "darwin"
+          ? await this.captureScreenshotMac(display)
+          : await this.captureScreenshotWindows(display)
+      captures.push({ display, image })
+    }
+    return stitchDisplayCaptures(captures)
+  }
+
+  // In queue view: stack screenshots up to the configured queue size
+  private addToQueue(screenshotPath: string): void {
+    const maxScreenshots = this.getMaxScreenshots()
+    this.trimQueue(maxScreenshots - 1)
+    this.screenshotQueue.push(screenshotPath)
+    console.log(`Added screenshot to queue (${this.screenshotQueue.length}/${maxScreenshots}):`, screenshotPath)
+  }
+
+  // Queued screenshot that looks the same as the given image, if any
+  private findQueuedDuplicate(hash: string | null): string | null {
+    if (!hash) return null
+    return (
+      this.screenshotQueue.find((queuedPath) => {
+        const queuedHash = this.getScreenshotHash(queuedPath)
+        return queuedHash !== null && hashDistance(hash, queuedHash) <= SCREENSHOT_QUEUE_CONFIG.DUPLICATE_MAX_DISTANCE
+      }) ?? null
+    )
+  }
+
+  /**
+   * Save a screenshot and queue it. With detectDuplicates, a capture matching
+   * one already queued is saved but held back as the pending duplicate instead
+   * of pushing the older one out.
+   */
+  private async saveToQueue(
+    screenshotBuffer: Buffer,
+    extension = "png",
+    detectDuplicates = false
+  ): Promise<string> {
+    const screenshotPath = path.join(this.screenshotDir, `${uuidv4()}.${extension}`)
+    await fs.promises.writeFile(screenshotPath, screenshotBuffer)
+    const hash = computePerceptualHash(screenshotBuffer)
+    this.screenshotHashes.set(screenshotPath, hash)
+    // An unanswered duplicate prompt is dropped by the next capture
+    this.discardPendingDuplicate()
+
+    const maxScreenshots = this.getMaxScreenshots()
+    if (this.view === "queue") {
+      const duplicateOf = detectDuplicates ? this.findQueuedDuplicate(hash) : null
+      if (duplicateOf) {
+        this.pendingDuplicate = { path: screenshotPath, duplicateOf }
+        console.log("New capture looks the same as a queued screenshot, holding it back:", duplicateOf)
+      } else {
+        this.addToQueue(screenshotPath)
+      }
+    } else {
+      // In solutions/debug view: this is a NEW question, clear old screenshots
+      // User wants to ask about something new, not combine with previous
+      this.screenshotQueue.forEach((oldPath) => {
+        this.focusRegions.delete(oldPath)
+        fs.unlink(oldPath, (err) => {
+          if (err) console.error(`Error deleting old screenshot at ${oldPath}:`, err)
+        })
+      })
+      this.screenshotHashes.clear()
+      this.screenshotHashes.set(screenshotPath, hash)
+      this.screenshotQueue = [screenshotPath]
+      console.log(`New question - replaced queue with fresh screenshot (1/${maxScreenshots}):`, screenshotPath)
+
+      // Switch back to queue view
+      console.log("Switching from", this.view, "to queue view for new question")
+      this.view = "queue"
+    }
+
+    return screenshotPath
+  }
+
   public async takeScreenshot(
     hideMainWindow: () => void,
     showMainWindow: () => void
@@ -123,57 +371,70 @@ export class ScreenshotHelper {
 
     let screenshotPath = ""
     try {
-      // Get screenshot buffer using native methods
-      const screenshotBuffer =
-        process.platform === "darwin"
-          ? await this.captureScreenshotMac()
-          : await this.captureScreenshotWindows()
+      screenshotPath = await this.saveToQueue(await this.captureDisplays(resolveCaptureDisplays()), "png", true)
+    } catch (error) {
+      console.error("Screenshot error:", error)
+      throw error
+    } finally {
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      showMainWindow()
+    }
 
-      screenshotPath = path.join(this.screenshotDir, `${uuidv4()}.png`)
-      await fs.promises.writeFile(screenshotPath, screenshotBuffer)
-      
-      if (this.view === "queue") {
-        // In queue view: stack screenshots up to MAX_SCREENSHOTS
-        if (this.screenshotQueue.length >= this.MAX_SCREENSHOTS) {
-          const oldestPath = this.screenshotQueue.shift()
-          if (oldestPath) {
-            fs.unlink(oldestPath, (err) => {
-              if (err) console.error(`Error deleting oldest screenshot at ${oldestPath}:`, err)
-            })
-          }
+    return screenshotPath
+  }
+
+  /**
+   * Capture part of the screen. With reuseLastRegion the previously selected
+   * region is cropped straight away; otherwise (or if there is none yet) the
+   * user drags one on the selection overlay. Resolves to null if cancelled.
+   */
+  public async takeRegionScreenshot(
+    hideMainWindow: () => void,
+    showMainWindow: () => void,
+    reuseLastRegion: boolean
+  ): Promise<string | null> {
+    console.log("Taking region screenshot in view:", this.view)
+    hideMainWindow()
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    try {
+      const displays = resolveCaptureDisplays()
+      const capture = await this.captureDisplays(displays)
+      let region = reuseLastRegion ? getLastRegion() : null
+      if (!region) {
+        // A stitched capture is shown on the display the user is looking at
+        region = await selectRegion(capture, displays.length === 1 ? displays[0] : getCursorDisplay())
+        if (!region) {
+          console.log("Region selection cancelled")
+          return null
         }
-        this.screenshotQueue.push(screenshotPath)
-        console.log(`Added screenshot to queue (${this.screenshotQueue.length}/${this.MAX_SCREENSHOTS}):`, screenshotPath)
-      } else {
-        // In solutions/debug view: this is a NEW question, clear old screenshots
-        // User wants to ask about something new, not combine with previous
-        this.screenshotQueue.forEach((oldPath) => {
-          fs.unlink(oldPath, (err) => {
-            if (err) console.error(`Error deleting old screenshot at ${oldPath}:`, err)
-          })
-        })
-        this.screenshotQueue = [screenshotPath]
-        console.log(`New question - replaced queue with fresh screenshot (1/${this.MAX_SCREENSHOTS}):`, screenshotPath)
-        
-        // Switch back to queue view
-        console.log("Switching from", this.view, "to queue view for new question")
-        this.view = "queue"
+        setLastRegion(region)
       }
+      return await this.saveToQueue(cropToRegion(capture, region), "png", true)
     } catch (error) {
-      console.error("Screenshot error:", error)
+      console.error("Region screenshot error:", error)
       throw error
     } finally {
       await new Promise((resolve) => setTimeout(resolve, 50))
       showMainWindow()
     }
+  }
 
-    return screenshotPath
+  /**
+   * Queue images that were imported rather than captured, in order
+   */
+  public async importImages(images: ImportedImage[]): Promise<string[]> {
+    const screenshotPaths: string[] = []
+    for (const image of images) {
+      screenshotPaths.push(await this.saveToQueue(image.data, image.extension))
+    }
+    return screenshotPaths
   }
 
   public async getImagePreview(filepath: string): Promise<string> {
     try {
       const data = await fs.promises.readFile(filepath)
-      return `data:image/png;base64,${data.toString("base64")}`
+      return `data:${detectImageMimeType(data)};base64,${data.toString("base64")}`
     } catch (error) {
       console.error("Error reading image:", error)
       throw error
@@ -185,6 +446,8 @@ export class ScreenshotHelper {
   ): Promise<{ success: boolean; error?: string }> {
     try {
       await fs.promises.unlink(path)
+      this.screenshotHashes.delete(path)
+      this.focusRegions.delete(path)
       if (this.view === "queue") {
         this.screenshotQueue = this.screenshotQueue.filter(
           (filePath) => filePath !== path
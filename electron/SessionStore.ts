@@ -0,0 +1,287 @@
+// SessionStore.ts
+// Persists every practice session (extracted problem, solutions, debug rounds and
+// voice Q&A) to userData/sessions so it survives Ctrl+R and restarts. Each session
+// is one JSON file; an index file keeps the list view cheap to load.
+
+import path from "node:path"
+import fs from "node:fs"
+import { app, nativeImage } from "electron"
+import Store from "electron-store"
+import { v4 as uuidv4 } from "uuid"
+import { HISTORY_CONFIG, SCREENSHOT_QUEUE_CONFIG } from "./config"
+import { computePerceptualHash, hashDistance } from "./perceptualHash"
+import { SolutionPayload } from "./solutionSchema"
+
+const store = new Store()
+
+interface BaseEntry {
+  timestamp: number
+  /** Model that produced the response */
+  model: string
+  /** Small JPEG data URLs of the screenshots sent with the request */
+  thumbnails: string[]
+}
+
+export interface SolutionEntry extends BaseEntry {
+  type: "solution"
+  problemStatement: string
+  solution: SolutionPayload
+  cached: boolean
+}
+
+export interface DebugEntry extends BaseEntry {
+  type: "debug"
+  response: string
+}
+
+export interface VoiceEntry extends BaseEntry {
+  type: "voice"
+  question: string
+  answer: SolutionPayload
+}
+
+export interface ChatEntry extends BaseEntry {
+  type: "chat"
+  message: string
+  reply: string
+  /** Updated code, or null when the reply left the code unchanged */
+  code: string | null
+}
+
+export type SessionEntry = SolutionEntry | DebugEntry | VoiceEntry | ChatEntry
+
+// What callers provide; the store adds the timestamp and thumbnails
+type NewEntry<E extends BaseEntry> = Omit<E, "timestamp" | "thumbnails">
+export type NewSessionEntry =
+  | NewEntry<SolutionEntry>
+  | NewEntry<DebugEntry>
+  | NewEntry<VoiceEntry>
+  | NewEntry<ChatEntry>
+
+export interface StoredSession {
+  id: string
+  title: string
+  /** Programming language selected when the session started */
+  language: string
+  startedAt: number
+  updatedAt: number
+  entries: SessionEntry[]
+}
+
+export interface SessionSummary {
+  id: string
+  title: string
+  language: string
+  startedAt: number
+  updatedAt: number
+  entryCount: number
+  thumbnail: string | null
+  /** Perceptual hashes of the session's screenshots, to recognise the same problem later */
+  screenshotHashes?: string[]
+}
+
+function getSessionTitle(entry: NewSessionEntry): string {
+  const text =
+    entry.type === "solution"
+      ? entry.problemStatement
+      : entry.type === "voice"
+        ? entry.question
+        : entry.type === "chat"
+          ? entry.message
+          : "Debug session"
+  const firstLine = text.split("\n").find((line) => line.trim()) || "Untitled session"
+  const title = firstLine.replace(/[#*`]/g, "").trim()
+  return title.length > 80 ? `${title.slice(0, 77)}...` : title
+}
+
+export class SessionStore {
+  private currentSessionId: string = uuidv4()
+
+  private get sessionsDir(): string {
+    const dir = path.join(app.getPath("userData"), "sessions")
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true })
+    }
+    return dir
+  }
+
+  private get indexPath(): string {
+    return path.join(this.sessionsDir, "index.json")
+  }
+
+  private sessionPath(id: string): string {
+    // Ids come from the renderer; never let one escape the sessions directory
+    return path.join(this.sessionsDir, `${path.basename(id)}.json`)
+  }
+
+  private readIndex(): SessionSummary[] {
+    try {
+      if (fs.existsSync(this.indexPath)) {
+        return JSON.parse(fs.readFileSync(this.indexPath, "utf8")) as SessionSummary[]
+      }
+    } catch (error) {
+      console.error("Error reading session index:", error)
+    }
+    return []
+  }
+
+  private writeIndex(index: SessionSummary[]): void {
+    try {
+      fs.writeFileSync(this.indexPath, JSON.stringify(index))
+    } catch (error) {
+      console.error("Error writing session index:", error)
+    }
+  }
+
+  public getSaveThumbnails(): boolean {
+    return store.get("HISTORY_SAVE_THUMBNAILS", true) as boolean
+  }
+
+  public setSaveThumbnails(enabled: boolean): void {
+    store.set("HISTORY_SAVE_THUMBNAILS", enabled)
+  }
+
+  /**
+   * Start recording into a new session (called on reset)
+   */
+  public startSession(): void {
+    this.currentSessionId = uuidv4()
+  }
+
+  public getCurrentSessionId(): string {
+    return this.currentSessionId
+  }
+
+  /**
+   * Downscale screenshots to thumbnails. Returns nothing when thumbnails are off.
+   */
+  public createThumbnails(screenshotPaths: string[]): string[] {
+    if (!this.getSaveThumbnails()) return []
+
+    const thumbnails: string[] = []
+    for (const screenshotPath of screenshotPaths) {
+      try {
+        const image = nativeImage.createFromPath(screenshotPath)
+        if (image.isEmpty()) continue
+        const resized = image.resize({ width: HISTORY_CONFIG.THUMBNAIL_WIDTH })
+        thumbnails.push(
+          `data:image/jpeg;base64,${resized.toJPEG(HISTORY_CONFIG.THUMBNAIL_QUALITY).toString("base64")}`
+        )
+      } catch (error) {
+        console.error("Error creating session thumbnail:", error)
+      }
+    }
+    return thumbnails
+  }
+
+  /**
+   * Append an entry to the current session, creating the session on first use
+   */
+  public addEntry(
+    entry: NewSessionEntry,
+    options: { language: string; screenshotPaths?: string[] }
+  ): void {
+    const now = Date.now()
+    const session: StoredSession = this.getSession(this.currentSessionId) || {
+      id: this.currentSessionId,
+      title: getSessionTitle(entry),
+      language: options.language,
+      startedAt: now,
+      updatedAt: now,
+      entries: []
+    }
+
+    session.entries.push({
+      ...entry,
+      timestamp: now,
+      thumbnails: this.createThumbnails(options.screenshotPaths || [])
+    } as SessionEntry)
+    session.updatedAt = now
+
+    try {
+      fs.writeFileSync(this.sessionPath(session.id), JSON.stringify(session))
+    } catch (error) {
+      console.error("Error saving session:", error)
+      return
+    }
+
+    const existingIndex = this.readIndex()
+    const previous = existingIndex.find((s) => s.id === session.id)
+    const newHashes = (options.screenshotPaths || [])
+      .map((screenshotPath) => computePerceptualHash(nativeImage.createFromPath(screenshotPath)))
+      .filter((hash): hash is string => hash !== null)
+
+    const summary: SessionSummary = {
+      id: session.id,
+      title: session.title,
+      language: session.language,
+      startedAt: session.startedAt,
+      updatedAt: session.updatedAt,
+      entryCount: session.entries.length,
+      thumbnail: session.entries.find((e) => e.thumbnails.length > 0)?.thumbnails[0] || null,
+      screenshotHashes: [...new Set([...(previous?.screenshotHashes || []), ...newHashes])]
+    }
+    const index = [summary, ...existingIndex.filter((s) => s.id !== session.id)]
+
+    // Drop the oldest sessions beyond the retention limit
+    for (const stale of index.slice(HISTORY_CONFIG.MAX_SESSIONS)) {
+      this.deleteSessionFile(stale.id)
+    }
+    this.writeIndex(index.slice(0, HISTORY_CONFIG.MAX_SESSIONS))
+  }
+
+  /**
+   * Sessions, most recently updated first
+   */
+  public listSessions(): SessionSummary[] {
+    return this.readIndex().sort((a, b) => b.updatedAt - a.updatedAt)
+  }
+
+  /**
+   * Earlier sessions with a screenshot that looks like the given one, most recent first
+   */
+  public findSessionsByScreenshotHash(hash: string): SessionSummary[] {
+    return this.listSessions().filter(
+      (summary) =>
+        summary.id !== this.currentSessionId &&
+        (summary.screenshotHashes || []).some(
+          (sessionHash) => hashDistance(hash, sessionHash) <= SCREENSHOT_QUEUE_CONFIG.SESSION_MATCH_MAX_DISTANCE
+        )
+    )
+  }
+
+  public getSession(id: string): StoredSession | null {
+    try {
+      const filePath = this.sessionPath(id)
+      if (!fs.existsSync(filePath)) return null
+      return JSON.parse(fs.readFileSync(filePath, "utf8")) as StoredSession
+    } catch (error) {
+      console.error("Error reading session:", error)
+      return null
+    }
+  }
+
+  private deleteSessionFile(id: string): void {
+    try {
+      fs.rmSync(this.sessionPath(id), { force: true })
+    } catch (error) {
+      console.error("Error deleting session file:", error)
+    }
+  }
+
+  public deleteSession(id: string): void {
+    this.deleteSessionFile(id)
+    this.writeIndex(this.readIndex().filter((s) => s.id !== id))
+  }
+
+  public clear(): void {
+    for (const summary of this.readIndex()) {
+      this.deleteSessionFile(summary.id)
+    }
+    this.writeIndex([])
+    console.log("Session history cleared")
+  }
+}
+
+// Shared so processing, voice and IPC all write to the same current session
+export const sessionStore = new SessionStore()
@@ -0,0 +1,230 @@
+// UsageTracker.ts
+// Records token usage for every model response, aggregated per day, per model,
+// per pipeline stage and per session, and enforces the optional daily budget.
+
+import path from "node:path"
+import fs from "node:fs"
+import { app } from "electron"
+import Store from "electron-store"
+import { v4 as uuidv4 } from "uuid"
+import { USAGE_CONFIG } from "./config"
+import { AIUsage } from "./aiProviders"
+
+const store = new Store()
+
+export interface UsageTotals {
+  requests: number
+  promptTokens: number
+  outputTokens: number
+  images: number
+  audioSeconds: number
+}
+
+export interface DayUsage {
+  /** Local date, YYYY-MM-DD */
+  date: string
+  total: UsageTotals
+  byModel: Record<string, UsageTotals>
+  byStage: Record<string, UsageTotals>
+}
+
+export interface SessionUsage {
+  id: string
+  startedAt: number
+  total: UsageTotals
+  byModel: Record<string, UsageTotals>
+}
+
+export interface UsageSummary {
+  today: DayUsage
+  /** Most recent days first, including today */
+  recentDays: DayUsage[]
+  currentSession: SessionUsage
+  /** Daily token budget; 0 means unlimited */
+  dailyBudget: number
+}
+
+interface UsageFile {
+  days: Record<string, DayUsage>
+  sessions: SessionUsage[]
+}
+
+export interface UsageRecord {
+  /** Call context from the AI client, e.g. "Extract" or "Voice Response" */
+  context: string
+  model: string
+  usage: AIUsage | null
+  images: number
+}
+
+/**
+ * Map an AI client call context onto the stages shown in the Usage view
+ */
+export function getUsageStage(context: string): string {
+  if (context.startsWith("Voice")) return "Voice"
+  // Repairs are re-prompts of the solution step
+  if (context === "Repair") return "Generate"
+  if (["Extract", "Generate", "Debug", "Chat", "Summarize"].includes(context)) return context
+  return "Other"
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, outputTokens: 0, images: 0, audioSeconds: 0 }
+}
+
+function addTo(totals: UsageTotals, delta: UsageTotals): void {
+  totals.requests += delta.requests
+  totals.promptTokens += delta.promptTokens
+  totals.outputTokens += delta.outputTokens
+  totals.images += delta.images
+  totals.audioSeconds += delta.audioSeconds
+}
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export class UsageTracker {
+  private data: UsageFile | null = null
+  private sessionId: string = uuidv4()
+
+  private get filePath(): string {
+    return path.join(app.getPath("userData"), "usage.json")
+  }
+
+  private load(): UsageFile {
+    if (this.data) return this.data
+    try {
+      if (fs.existsSync(this.filePath)) {
+        this.data = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as UsageFile
+      }
+    } catch (error) {
+      console.error("Error reading usage data, starting fresh:", error)
+    }
+    if (!this.data) {
+      this.data = { days: {}, sessions: [] }
+    }
+    return this.data
+  }
+
+  private save(): void {
+    const data = this.load()
+
+    // Drop days and sessions beyond the retention limits
+    const days = Object.keys(data.days).sort()
+    for (const day of days.slice(0, Math.max(0, days.length - USAGE_CONFIG.HISTORY_DAYS))) {
+      delete data.days[day]
+    }
+    data.sessions = data.sessions.slice(-USAGE_CONFIG.MAX_SESSIONS)
+
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(data))
+    } catch (error) {
+      console.error("Error saving usage data:", error)
+    }
+  }
+
+  private getDay(date: string): DayUsage {
+    const data = this.load()
+    if (!data.days[date]) {
+      data.days[date] = { date, total: emptyTotals(), byModel: {}, byStage: {} }
+    }
+    return data.days[date]
+  }
+
+  private getCurrentSession(): SessionUsage {
+    const data = this.load()
+    let session = data.sessions.find((s) => s.id === this.sessionId)
+    if (!session) {
+      session = { id: this.sessionId, startedAt: Date.now(), total: emptyTotals(), byModel: {} }
+      data.sessions.push(session)
+    }
+    return session
+  }
+
+  /**
+   * Start attributing usage to a new session (called on reset)
+   */
+  public startSession(): void {
+    this.sessionId = uuidv4()
+  }
+
+  public record({ context, model, usage, images }: UsageRecord): void {
+    const delta: UsageTotals = {
+      requests: 1,
+      promptTokens: usage?.promptTokens || 0,
+      outputTokens: usage?.outputTokens || 0,
+      images,
+      audioSeconds: usage?.audioTokens
+        ? Math.round(usage.audioTokens / USAGE_CONFIG.AUDIO_TOKENS_PER_SECOND)
+        : 0
+    }
+
+    const day = this.getDay(toDateKey(new Date()))
+    const stage = getUsageStage(context)
+    addTo(day.total, delta)
+    addTo((day.byModel[model] ||= emptyTotals()), delta)
+    addTo((day.byStage[stage] ||= emptyTotals()), delta)
+
+    const session = this.getCurrentSession()
+    addTo(session.total, delta)
+    addTo((session.byModel[model] ||= emptyTotals()), delta)
+
+    this.save()
+  }
+
+  public getDailyBudget(): number {
+    return (store.get("DAILY_TOKEN_BUDGET") as number) || 0
+  }
+
+  public setDailyBudget(tokens: number): void {
+    store.set("DAILY_TOKEN_BUDGET", Math.max(0, Math.floor(tokens) || 0))
+  }
+
+  /**
+   * Throw a user-facing error when today's usage has reached the daily budget
+   */
+  public assertWithinBudget(): void {
+    const budget = this.getDailyBudget()
+    if (!budget) return
+
+    const { total } = this.getDay(toDateKey(new Date()))
+    const used = total.promptTokens + total.outputTokens
+    if (used >= budget) {
+      throw new Error(
+        `Daily token budget reached (${used.toLocaleString()} of ${budget.toLocaleString()} tokens). Raise it in Settings → Usage or try again tomorrow.`
+      )
+    }
+  }
+
+  public getSummary(days = 7): UsageSummary {
+    const today = new Date()
+    const recentDays: DayUsage[] = []
+    for (let i = 0; i < days; i++) {
+      const date = new Date(today)
+      date.setDate(today.getDate() - i)
+      const key = toDateKey(date)
+      recentDays.push(
+        this.load().days[key] || { date: key, total: emptyTotals(), byModel: {}, byStage: {} }
+      )
+    }
+
+    return {
+      today: recentDays[0],
+      recentDays,
+      currentSession: this.getCurrentSession(),
+      dailyBudget: this.getDailyBudget()
+    }
+  }
+
+  public clear(): void {
+    this.data = { days: {}, sessions: [] }
+    this.save()
+    console.log("Usage data cleared")
+  }
+}
+
+// Shared so every AI call is accounted in one place
+export const usageTracker = new UsageTracker()
@@ -1,21 +1,13 @@
-import { GoogleGenAI } from "@google/genai"
 import { BrowserWindow } from "electron"
-import Store from "electron-store"
-import {
-  DEFAULT_MODEL,
-  getFallbackChain,
-  isRateLimitError,
-  isNetworkError,
-  getErrorMessage,
-  RETRY_CONFIG,
-  GeminiModel
-} from "./config"
-import { getConversationContext, addToConversationHistory } from "./ProcessingHelper"
-
-const store = new Store()
+import { AIClient } from "./AIClient"
+import { conversationHistory, formatSolutionTurn } from "./ConversationHistory"
+import { renderPrompt } from "./promptTemplates"
+import { getResponseLanguage } from "./responseLanguage"
+import { sessionStore } from "./SessionStore"
 
 export interface IVoiceHelperDeps {
   getMainWindow: () => BrowserWindow | null
+  getAIClient: () => AIClient
   getProblemInfo: () => any
   getLanguage: () => Promise<string>
   setView: (view: "queue" | "solutions" | "debug") => void
@@ -24,7 +16,6 @@ export interface IVoiceHelperDeps {
 export class VoiceHelper {
   private deps: IVoiceHelperDeps
   private isRecording: boolean = false
-  private genAI: GoogleGenAI | null = null
 
   // Voice events
   private VOICE_EVENTS = {
@@ -37,14 +28,6 @@ export class VoiceHelper {
 
   constructor(deps: IVoiceHelperDeps) {
     this.deps = deps
-    this.initializeGenAI()
-  }
-
-  private initializeGenAI() {
-    const apiKey = store.get("GEMINI_API_KEY") as string
-    if (apiKey) {
-      this.genAI = new GoogleGenAI({ apiKey })
-    }
   }
 
   getIsRecording(): boolean {
@@ -107,13 +90,12 @@ export class VoiceHelper {
       this.deps.setView("queue")
       mainWindow.webContents.send("reset-view")
       
-      // Re-initialize GenAI if needed
-      if (!this.genAI) {
-        const apiKey = store.get("GEMINI_API_KEY") as string
-        if (!apiKey) {
-          return { success: false, error: "Please set your API Key in Settings." }
-        }
-        this.genAI = new GoogleGenAI({ apiKey })
+      // Resolve the configured provider (fails early if it is not set up)
+      const aiClient = this.deps.getAIClient()
+      try {
+        aiClient.getProvider()
+      } catch (error: any) {
+        return { success: false, error: error.message }
       }
 
       const problemInfo = this.deps.getProblemInfo()
@@ -125,67 +107,22 @@ export class VoiceHelper {
         contextPrompt = `\n\nCurrent coding problem context:\n${problemInfo.problem_statement}`
       }
 
-      // Add conversation history context
-      const conversationContext = getConversationContext()
-      if (conversationContext) {
-        contextPrompt += `\n\nPrevious conversation (for continuity):\n${conversationContext}`
-      }
-
-      // Get the selected model from store, default to configured default
-      const userModel = (store.get("GEMINI_MODEL") as string as GeminiModel) || DEFAULT_MODEL
-      const models = getFallbackChain(userModel)
-      
-      console.log("Using model for voice:", userModel, "with fallback chain:", models)
-
-      // First transcribe the audio using Gemini with fallback
-      let transcription = ""
-      let successfulModel = userModel
-      
-      for (const modelName of models) {
-        try {
-          console.log(`[Voice Transcription] Attempting with model: ${modelName}`)
-          
-          const transcriptionResponse = await this.genAI.models.generateContent({
-            model: modelName,
-            contents: [
-              {
-                role: "user",
-                parts: [
-                  { text: "Please transcribe this audio exactly as spoken. Only return the transcription, nothing else." },
-                  {
-                    inlineData: {
-                      data: audioBase64,
-                      mimeType: "audio/webm"
-                    }
-                  }
-                ]
-              }
-            ]
-          })
-
-          transcription = transcriptionResponse.text?.trim() || ""
-          successfulModel = modelName
-          console.log(`[Voice Transcription] Success with ${modelName}`)
-          break
-        } catch (error: any) {
-          console.warn(`[Voice Transcription] Model ${modelName} failed:`, error.message)
-          
-          if (isRateLimitError(error)) {
-            console.log(`[Voice Transcription] Rate limit hit, trying next model...`)
-            await new Promise(resolve => setTimeout(resolve, RETRY_CONFIG.BASE_DELAY_MS))
-            continue
+      // First transcribe the audio with fallback
+      const transcriptionPrompt = renderPrompt("transcription", {})
+      const transcription = (await aiClient.generate(
+        "Voice Transcription",
+        transcriptionPrompt.system || undefined,
+        [
+          { text: transcriptionPrompt.user },
+          {
+            inlineData: {
+              data: audioBase64,
+              mimeType: "audio/webm"
+            }
           }
-          
-          if (isNetworkError(error)) {
-            console.log(`[Voice Transcription] Network error, retrying...`)
-            await new Promise(resolve => setTimeout(resolve, RETRY_CONFIG.BASE_DELAY_MS))
-            continue
-          }
-          
-          // For other errors, try next model
-          continue
-        }
-      }
+        ],
+        { promptVersion: transcriptionPrompt.version }
+      )).trim()
 
       console.log("Transcription:", transcription)
 
@@ -193,9 +130,6 @@ export class VoiceHelper {
         return { success: false, error: "Could not transcribe audio. Please try again." }
       }
 
-      // Add voice question to conversation history
-      addToConversationHistory("user", `Voice question: ${transcription}`)
-
       // Send transcription to renderer
       mainWindow.webContents.send(this.VOICE_EVENTS.TRANSCRIPTION_COMPLETE, {
         transcription
@@ -209,66 +143,23 @@ export class VoiceHelper {
         problem_statement: `**Voice Question:** ${transcription}`
       })
 
-      const systemPrompt = `You are a helpful coding interview assistant. The user is asking a question via voice about coding problems or algorithms.
-Provide clear, concise answers. If they're asking about code, provide examples in ${language}.
-Be conversational but focused on helping them understand and solve coding problems.${contextPrompt}
-
-You MUST respond in JSON format with the following structure:
-{
-  "short_answer": "A brief, direct answer to the question (1-2 sentences). Set to null if not applicable.",
-  "code": "Code solution if applicable, otherwise empty string. Use ${language} language.",
-  "thoughts": ["Array of strings explaining your reasoning step by step"],
-  "time_complexity": "Time complexity if code is provided, otherwise 'N/A'",
-  "space_complexity": "Space complexity if code is provided, otherwise 'N/A'"
-}
+      const prompt = renderPrompt("voice", {
+        language,
+        responseLanguage: getResponseLanguage(),
+        context: contextPrompt,
+        question: transcription
+      })
 
-IMPORTANT: Return ONLY valid JSON, no markdown code fences or other text.`
+      // Earlier problems and answers go in as real turns, so the question can refer to them
+      const history = await conversationHistory.prepareContents(aiClient)
 
       // Now get AI response to the transcribed question with fallback
-      let rawResponse = ""
-      
-      for (const modelName of models) {
-        try {
-          console.log(`[Voice Response] Attempting with model: ${modelName}`)
-          
-          const responseResult = await this.genAI.models.generateContent({
-            model: modelName,
-            contents: [
-              {
-                role: "user",
-                parts: [
-                  { text: systemPrompt },
-                  { text: `\n\nUser's voice question: ${transcription}` }
-                ]
-              }
-            ]
-          })
-
-          rawResponse = responseResult.text || ""
-          successfulModel = modelName
-          console.log(`[Voice Response] Success with ${modelName}`)
-          
-          // Emit model used event
-          mainWindow.webContents.send("model-used", modelName)
-          break
-        } catch (error: any) {
-          console.warn(`[Voice Response] Model ${modelName} failed:`, error.message)
-          
-          if (isRateLimitError(error)) {
-            console.log(`[Voice Response] Rate limit hit, trying next model...`)
-            await new Promise(resolve => setTimeout(resolve, RETRY_CONFIG.BASE_DELAY_MS))
-            continue
-          }
-          
-          if (isNetworkError(error)) {
-            console.log(`[Voice Response] Network error, retrying...`)
-            await new Promise(resolve => setTimeout(resolve, RETRY_CONFIG.BASE_DELAY_MS))
-            continue
-          }
-          
-          continue
-        }
-      }
+      const rawResponse = await aiClient.generate(
+        "Voice Response",
+        prompt.system,
+        [{ text: prompt.user }],
+        { jsonMode: true, promptVersion: prompt.version, history }
+      )
 
       console.log("Raw voice AI response:", rawResponse)
 
@@ -327,17 +218,33 @@ IMPORTANT: Return ONLY valid JSON, no markdown code fences or other text.`
 
       console.log("Sending solution-success with data:", formattedData)
       
-      // Add voice response to conversation history
-      const responseSummary = formattedData.short_answer 
-        ? formattedData.short_answer 
-        : formattedData.thoughts.join(" ").substring(0, 300)
-      addToConversationHistory("assistant", `Voice response: ${responseSummary}`)
+      // Add the exchange to conversation history, leaving out the placeholder code
+      conversationHistory.addTurn("user", prompt.user)
+      conversationHistory.addTurn(
+        "model",
+        formatSolutionTurn(
+          { ...formattedData, code: formattedData.code.startsWith("// Voice Response") ? "" : formattedData.code },
+          language
+        )
+      )
+      sessionStore.addEntry(
+        {
+          type: "voice",
+          question: transcription,
+          answer: formattedData,
+          model: aiClient.getLastUsedModel()
+        },
+        { language }
+      )
       
       // Set the view to solutions
       this.deps.setView("solutions")
       
       // Send solution-success event with properly formatted data
-      mainWindow.webContents.send("solution-success", formattedData)
+      mainWindow.webContents.send("solution-success", {
+        ...formattedData,
+        checkpointId: conversationHistory.checkpoint()
+      })
 
       return {
         success: true,
@@ -0,0 +1,565 @@
+// aiProviders.ts
+// Provider abstraction for the AI backends. ProcessingHelper and VoiceHelper only
+// talk to the AIProvider interface, so the whole pipeline can run against Gemini,
+// a self-hosted OpenAI-compatible server or the mock provider.
+
+import {
+  GenerateContentConfig,
+  GenerateContentResponseUsageMetadata,
+  GoogleGenAI,
+  MediaModality
+} from "@google/genai"
+import Store from "electron-store"
+import {
+  AI_FIXTURES,
+  AI_PROVIDERS,
+  AIProviderId,
+  DEFAULT_MODEL,
+  DEFAULT_PROVIDER,
+  getFallbackChain,
+  MOCK_MODEL,
+  MODEL_LIST_TIMEOUT_MS,
+  OPENAI_COMPATIBLE_DEFAULTS,
+  REPLAY_MODEL
+} from "./config"
+import { RecordingProvider, ReplayProvider } from "./fixtureProviders"
+
+const store = new Store()
+
+/**
+ * A single piece of a message: either text or base64 inline data (image/audio)
+ */
+export interface AIPart {
+  text?: string
+  inlineData?: {
+    data: string
+    mimeType: string
+  }
+}
+
+export interface AIContent {
+  role: "user" | "model"
+  parts: AIPart[]
+}
+
+/**
+ * Token counts reported by the provider for one response
+ */
+export interface AIUsage {
+  promptTokens: number
+  outputTokens: number
+  /** Prompt tokens spent on audio input, when the provider breaks them out */
+  audioTokens?: number
+}
+
+export interface AIGenerateRequest {
+  model: string
+  systemInstruction?: string
+  contents: AIContent[]
+  jsonMode?: boolean
+  /** JSON Schema the response must follow (implies jsonMode) */
+  responseSchema?: Record<string, any>
+  signal?: AbortSignal
+  /** Called once per response when the provider reports token usage */
+  onUsage?: (usage: AIUsage) => void
+}
+
+/**
+ * What a model accepts and produces, as far as the provider lets us tell
+ */
+export interface AIModelCapabilities {
+  vision: boolean
+  audio: boolean
+  jsonMode: boolean
+}
+
+export interface AIModelInfo {
+  id: string
+  displayName: string
+  capabilities: AIModelCapabilities
+}
+
+export interface AIProvider {
+  readonly id: AIProviderId
+  /** Models to try in order, starting from the user's preferred one */
+  getModelChain(): string[]
+  /** Models the provider currently offers for text generation */
+  listModels(): Promise<AIModelInfo[]>
+  generateContent(request: AIGenerateRequest): Promise<string>
+  /** Yields text deltas as the model produces them */
+  generateContentStream(request: AIGenerateRequest): AsyncGenerator<string>
+}
+
+/**
+ * Provider settings persisted in electron-store
+ */
+export interface AIProviderSettings {
+  provider: AIProviderId
+  openaiBaseUrl: string
+  openaiModel: string
+  openaiApiKey: string
+}
+
+export function getProviderSettings(): AIProviderSettings {
+  return {
+    provider:
+      AI_FIXTURES.PROVIDER_OVERRIDE ||
+      (store.get("AI_PROVIDER") as AIProviderId) ||
+      DEFAULT_PROVIDER,
+    openaiBaseUrl:
+      (store.get("OPENAI_BASE_URL") as string) || OPENAI_COMPATIBLE_DEFAULTS.BASE_URL,
+    openaiModel:
+      (store.get("OPENAI_MODEL") as string) || OPENAI_COMPATIBLE_DEFAULTS.MODEL,
+    openaiApiKey: (store.get("OPENAI_API_KEY") as string) || ""
+  }
+}
+
+export function setProviderSettings(settings: Partial<AIProviderSettings>): void {
+  if (settings.provider !== undefined) {
+    if (!Object.values(AI_PROVIDERS).includes(settings.provider)) {
+      throw new Error(`Unknown AI provider: ${settings.provider}`)
+    }
+    store.set("AI_PROVIDER", settings.provider)
+  }
+  if (settings.openaiBaseUrl !== undefined) {
+    store.set("OPENAI_BASE_URL", settings.openaiBaseUrl.trim())
+  }
+  if (settings.openaiModel !== undefined) {
+    store.set("OPENAI_MODEL", settings.openaiModel.trim())
+  }
+  if (settings.openaiApiKey !== undefined) {
+    store.set("OPENAI_API_KEY", settings.openaiApiKey.trim())
+  }
+}
+
+/**
+ * The model the active provider should try first
+ */
+export function getPreferredModel(): string {
+  const settings = getProviderSettings()
+  switch (settings.provider) {
+    case AI_PROVIDERS.OPENAI_COMPATIBLE:
+      return settings.openaiModel
+    case AI_PROVIDERS.MOCK:
+      return MOCK_MODEL
+    case AI_PROVIDERS.REPLAY:
+      return REPLAY_MODEL
+    case AI_PROVIDERS.GEMINI:
+    default:
+      return (store.get("GEMINI_MODEL") as string) || DEFAULT_MODEL
+  }
+}
+
+export function setPreferredModel(model: string): void {
+  const settings = getProviderSettings()
+  if (settings.provider === AI_PROVIDERS.OPENAI_COMPATIBLE) {
+    store.set("OPENAI_MODEL", model)
+  } else if (settings.provider === AI_PROVIDERS.GEMINI) {
+    store.set("GEMINI_MODEL", model)
+  }
+
+  // Keep a custom chain in sync: the preferred model always leads it
+  const chain = getCustomModelChain(settings.provider)
+  if (chain.length > 0) {
+    store.set(`MODEL_CHAIN.${settings.provider}`, [model, ...chain.filter((m) => m !== model)])
+  }
+}
+
+/**
+ * User-defined fallback order for a provider (empty when the default chain is used)
+ */
+export function getCustomModelChain(provider: AIProviderId): string[] {
+  const chain = store.get(`MODEL_CHAIN.${provider}`)
+  return Array.isArray(chain) ? (chain as string[]) : []
+}
+
+export function setCustomModelChain(provider: AIProviderId, chain: string[]): void {
+  const models = Array.from(new Set(chain.map((model) => model.trim()).filter(Boolean)))
+  if (models.length === 0) {
+    store.delete(`MODEL_CHAIN.${provider}`)
+    return
+  }
+  store.set(`MODEL_CHAIN.${provider}`, models)
+
+  // The head of the chain becomes the preferred model
+  if (provider === AI_PROVIDERS.GEMINI) {
+    store.set("GEMINI_MODEL", models[0])
+  } else if (provider === AI_PROVIDERS.OPENAI_COMPATIBLE) {
+    store.set("OPENAI_MODEL", models[0])
+  }
+}
+
+// Order a custom chain so the preferred model leads, falling back to the default chain
+function resolveModelChain(provider: AIProviderId, preferred: string, defaults: string[]): string[] {
+  const custom = getCustomModelChain(provider)
+  if (custom.length === 0) return defaults
+  return [preferred, ...custom.filter((model) => model !== preferred)]
+}
+
+// ==================== Gemini ====================
+
+function toGeminiUsage(metadata: GenerateContentResponseUsageMetadata): AIUsage {
+  const audio = metadata.promptTokensDetails?.find(
+    (detail) => detail.modality === MediaModality.AUDIO
+  )
+  return {
+    promptTokens: metadata.promptTokenCount || 0,
+    // Thinking tokens are billed as output
+    outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+    audioTokens: audio?.tokenCount || 0
+  }
+}
+
+class GeminiProvider implements AIProvider {
+  readonly id = AI_PROVIDERS.GEMINI
+  private client: GoogleGenAI
+
+  constructor(apiKey: string) {
+    this.client = new GoogleGenAI({ apiKey })
+  }
+
+  getModelChain(): string[] {
+    const userModel = (store.get("GEMINI_MODEL") as string) || DEFAULT_MODEL
+    return resolveModelChain(this.id, userModel, getFallbackChain(userModel))
+  }
+
+  async listModels(): Promise<AIModelInfo[]> {
+    const models: AIModelInfo[] = []
+    const pager = await this.client.models.list({ config: { pageSize: 100 } })
+    for await (const model of pager) {
+      const id = (model.name || "").replace(/^models\//, "")
+      if (!id.startsWith("gemini")) continue
+      if (!model.supportedActions?.includes("generateContent")) continue
+      // Skip speech, image-generation and live-only variants; they cannot produce solutions
+      if (/tts|image|live|native-audio|embedding/.test(id)) continue
+
+      models.push({
+        id,
+        displayName: model.displayName || id,
+        // All current Gemini text models take images, audio and JSON output
+        capabilities: { vision: true, audio: true, jsonMode: true }
+      })
+    }
+    return models
+  }
+
+  private toConfig(request: AIGenerateRequest): GenerateContentConfig {
+    return {
+      systemInstruction: request.systemInstruction,
+      responseMimeType: request.jsonMode || request.responseSchema ? "application/json" : "text/plain",
+      responseJsonSchema: request.responseSchema,
+      abortSignal: request.signal
+    }
+  }
+
+  async generateContent(request: AIGenerateRequest): Promise<string> {
+    const response = await this.client.models.generateContent({
+      model: request.model,
+      config: this.toConfig(request),
+      contents: request.contents
+    })
+    if (response.usageMetadata) {
+      request.onUsage?.(toGeminiUsage(response.usageMetadata))
+    }
+    return response.text || ""
+  }
+
+  async *generateContentStream(request: AIGenerateRequest): AsyncGenerator<string> {
+    const stream = await this.client.models.generateContentStream({
+      model: request.model,
+      config: this.toConfig(request),
+      contents: request.contents
+    })
+    // Usage metadata is cumulative; the last chunk carries the totals
+    let usageMetadata: GenerateContentResponseUsageMetadata | undefined
+    for await (const chunk of stream) {
+      if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata
+      if (chunk.text) yield chunk.text
+    }
+    if (usageMetadata) {
+      request.onUsage?.(toGeminiUsage(usageMetadata))
+    }
+  }
+}
+
+// ==================== OpenAI-compatible ====================
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfterHeader(value: string | null): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+class OpenAICompatibleProvider implements AIProvider {
+  readonly id = AI_PROVIDERS.OPENAI_COMPATIBLE
+
+  constructor(private settings: AIProviderSettings) {}
+
+  getModelChain(): string[] {
+    return resolveModelChain(this.id, this.settings.openaiModel, [this.settings.openaiModel])
+  }
+
+  private get baseUrl(): string {
+    return this.settings.openaiBaseUrl.replace(/\/+$/, "")
+  }
+
+  private get authHeaders(): Record<string, string> {
+    return this.settings.openaiApiKey
+      ? { Authorization: `Bearer ${this.settings.openaiApiKey}` }
+      : {}
+  }
+
+  async listModels(): Promise<AIModelInfo[]> {
+    // An unreachable local server would otherwise leave the model picker loading
+    const response = await fetch(`${this.baseUrl}/models`, {
+      headers: this.authHeaders,
+      signal: AbortSignal.timeout(MODEL_LIST_TIMEOUT_MS)
+    })
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible model list failed (${response.status}): ${await response.text()}`)
+    }
+    const data = await response.json()
+
+    // The /models endpoint carries no capability metadata, so infer it from the name
+    return (data?.data || []).map((model: { id: string }) => ({
+      id: model.id,
+      displayName: model.id,
+      capabilities: {
+        vision: /vision|vl\b|-vl|llava|gpt-4o|gpt-4\.1|gpt-5|gemma3|pixtral|minicpm-v|moondream/i.test(model.id),
+        audio: /audio|omni/i.test(model.id),
+        jsonMode: true
+      }
+    }))
+  }
+
+  private toMessageContent(parts: AIPart[]): any[] {
+    return parts.map((part) => {
+      if (part.inlineData?.mimeType.startsWith("image/")) {
+        return {
+          type: "image_url",
+          image_url: {
+            url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`
+          }
+        }
+      }
+      if (part.inlineData?.mimeType.startsWith("audio/")) {
+        return {
+          type: "input_audio",
+          input_audio: {
+            data: part.inlineData.data,
+            format: part.inlineData.mimeType.split("/")[1].split(";")[0]
+          }
+        }
+      }
+      return { type: "text", text: part.text || "" }
+    })
+  }
+
+  private toResponseFormat(request: AIGenerateRequest): Record<string, any> {
+    if (request.responseSchema) {
+      return {
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: "response", schema: request.responseSchema }
+        }
+      }
+    }
+    return request.jsonMode ? { response_format: { type: "json_object" } } : {}
+  }
+
+  private async post(request: AIGenerateRequest, stream: boolean): Promise<Response> {
+    const messages: any[] = []
+    if (request.systemInstruction) {
+      messages.push({ role: "system", content: request.systemInstruction })
+    }
+    for (const content of request.contents) {
+      messages.push({
+        role: content.role === "model" ? "assistant" : "user",
+        content: this.toMessageContent(content.parts)
+      })
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.authHeaders },
+      signal: request.signal,
+      body: JSON.stringify({
+        model: request.model,
+        messages,
+        stream,
+        // Ask for a final usage event when streaming
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        ...this.toResponseFormat(request)
+      })
+    })
+
+    if (!response.ok) {
+      const body = await response.text()
+      const error: any = new Error(`OpenAI-compatible request failed (${response.status}): ${body}`)
+      error.retryAfterMs = parseRetryAfterHeader(response.headers.get("retry-after"))
+      throw error
+    }
+    return response
+  }
+
+  async generateContent(request: AIGenerateRequest): Promise<string> {
+    const response = await this.post(request, false)
+    const data = await response.json()
+    if (data?.usage) {
+      request.onUsage?.(this.toUsage(data.usage))
+    }
+    return data?.choices?.[0]?.message?.content || ""
+  }
+
+  private toUsage(usage: any): AIUsage {
+    return {
+      promptTokens: usage.prompt_tokens || 0,
+      outputTokens: usage.completion_tokens || 0,
+      audioTokens: usage.prompt_tokens_details?.audio_tokens || 0
+    }
+  }
+
+  async *generateContentStream(request: AIGenerateRequest): AsyncGenerator<string> {
+    const response = await this.post(request, true)
+    if (!response.body) return
+
+    // Server-sent events: one "data: {...}" line per delta, terminated by "data: [DONE]"
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ""
+
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      // A last event without a trailing newline is still complete once the stream ends
+      const lines = buffer.split("\n")
+      buffer = done ? "" : lines.pop() || ""
+      for (const line of lines) {
+        const trimmed = line.trim()
+        if (!trimmed.startsWith("data:")) continue
+        const payload = trimmed.slice(5).trim()
+        if (payload === "[DONE]") return
+        try {
+          const event = JSON.parse(payload)
+          if (event?.usage) request.onUsage?.(this.toUsage(event.usage))
+          const delta = event?.choices?.[0]?.delta?.content
+          if (delta) yield delta
+        } catch {
+          console.warn("Skipping malformed stream event:", payload)
+        }
+      }
+      if (done) break
+    }
+  }
+}
+
+// ==================== Mock ====================
+
+class MockProvider implements AIProvider {
+  readonly id = AI_PROVIDERS.MOCK
+
+  getModelChain(): string[] {
+    return [MOCK_MODEL]
+  }
+
+  async listModels(): Promise<AIModelInfo[]> {
+    return [
+      {
+        id: MOCK_MODEL,
+        displayName: "Mock Model",
+        capabilities: { vision: true, audio: true, jsonMode: true }
+      }
+    ]
+  }
+
+  async generateContent(request: AIGenerateRequest): Promise<string> {
+    if (request.signal?.aborted) {
+      throw new Error("CanceledError")
+    }
+
+    const lastText =
+      request.contents
+        .flatMap((content) => content.parts)
+        .filter((part) => part.text)
+        .pop()?.text || ""
+
+    // Follow-up chat asks for a reply object rather than a solution
+    if (request.responseSchema?.properties?.reply) {
+      return JSON.stringify({
+        reply: `Mock reply to: ${lastText.substring(0, 80)}`,
+        code: null,
+        time_complexity: null,
+        space_complexity: null
+      })
+    }
+
+    if (request.jsonMode || request.responseSchema) {
+      return JSON.stringify({
+        short_answer: "Mock answer",
+        code: "def solve():\n    # Mock solution\n    return 42",
+        thoughts: [
+          "This response was generated by the mock provider.",
+          `Prompt preview: ${lastText.substring(0, 80)}`
+        ],
+        time_complexity: "O(1)",
+        space_complexity: "O(1)"
+      })
+    }
+
+    return `Mock response for: ${lastText.substring(0, 200)}`
+  }
+
+  async *generateContentStream(request: AIGenerateRequest): AsyncGenerator<string> {
+    const text = await this.generateContent(request)
+    const CHUNK_SIZE = 24
+    for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+      if (request.signal?.aborted) {
+        throw new Error("CanceledError")
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20))
+      yield text.slice(i, i + CHUNK_SIZE)
+    }
+  }
+}
+
+/**
+ * Create the provider selected in settings.
+ * Throws a user-facing error when the provider is missing required configuration.
+ */
+export function createAIProvider(): AIProvider {
+  const settings = getProviderSettings()
+
+  switch (settings.provider) {
+    case AI_PROVIDERS.MOCK:
+      return new MockProvider()
+    case AI_PROVIDERS.REPLAY:
+      return new ReplayProvider()
+    default: {
+      // Live providers can be recorded for later replay
+      const provider = createLiveProvider(settings)
+      return AI_FIXTURES.RECORD ? new RecordingProvider(provider) : provider
+    }
+  }
+}
+
+function createLiveProvider(settings: AIProviderSettings): AIProvider {
+  switch (settings.provider) {
+    case AI_PROVIDERS.OPENAI_COMPATIBLE:
+      if (!settings.openaiBaseUrl || !settings.openaiModel) {
+        throw new Error("Please set the server URL and model in Settings.")
+      }
+      return new OpenAICompatibleProvider(settings)
+    case AI_PROVIDERS.GEMINI:
+    default: {
+      const apiKey = store.get("GEMINI_API_KEY") as string
+      if (!apiKey) {
+        throw new Error("Please set your API Key in Settings.")
+      }
+      return new GeminiProvider(apiKey)
+    }
+  }
+}
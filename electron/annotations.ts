@@ -0,0 +1,57 @@
+// annotations.ts
+// Screenshots edited in the annotation editor come back as a new image plus
+// the rectangles the user highlighted. The highlights are drawn into the image
+// and also described in the Extract prompt, so the model knows which part of
+// a busy screenshot the question is about.
+
+export interface FocusRegion {
+  /** Left edge as a fraction (0-1) of the image width */
+  x: number
+  /** Top edge as a fraction (0-1) of the image height */
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Keep regions that lie inside the image, clamped to its edges
+ */
+export function normalizeFocusRegions(regions: FocusRegion[]): FocusRegion[] {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value))
+  return regions
+    .filter((region) => [region.x, region.y, region.width, region.height].every(Number.isFinite))
+    .map((region) => {
+      const x = clamp(region.x)
+      const y = clamp(region.y)
+      return {
+        x,
+        y,
+        width: clamp(region.x + region.width) - x,
+        height: clamp(region.y + region.height) - y
+      }
+    })
+    .filter((region) => region.width > 0 && region.height > 0)
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`
+
+/**
+ * "Focus here" hints for the Extract prompt, or null when nothing is highlighted.
+ * regionsPerImage is in the order the images are attached.
+ */
+export function formatFocusPromptSection(regionsPerImage: FocusRegion[][]): string | null {
+  const lines: string[] = []
+  regionsPerImage.forEach((regions, index) => {
+    for (const region of regions) {
+      lines.push(
+        `- Screenshot ${index + 1}: from ${percent(region.x)} to ${percent(region.x + region.width)} across,` +
+          ` ${percent(region.y)} to ${percent(region.y + region.height)} down`
+      )
+    }
+  })
+  if (lines.length === 0) return null
+  return [
+    "The user highlighted these areas (yellow boxes) as the part that matters. Focus on them; use the rest of the screenshots only as context:",
+    ...lines
+  ].join("\n")
+}
@@ -2,7 +2,71 @@
 // This file centralizes all Gemini API configuration to ensure consistency across the app
 
 /**
- * Available Gemini models in priority order for fallback
+ * Supported AI provider backends
+ * - gemini: Google Gemini via @google/genai
+ * - openai-compatible: any server exposing /v1/chat/completions (OpenAI, llama.cpp, Ollama, vLLM...)
+ * - mock: canned responses, no network required
+ * - replay: serves responses previously recorded to fixture files
+ */
+export const AI_PROVIDERS = {
+  GEMINI: "gemini",
+  OPENAI_COMPATIBLE: "openai-compatible",
+  MOCK: "mock",
+  REPLAY: "replay"
+} as const
+
+export type AIProviderId = typeof AI_PROVIDERS[keyof typeof AI_PROVIDERS]
+
+/**
+ * Provider used when no preference is set
+ */
+export const DEFAULT_PROVIDER: AIProviderId = AI_PROVIDERS.GEMINI
+
+/**
+ * Defaults for OpenAI-compatible servers (points at a local Ollama instance)
+ */
+export const OPENAI_COMPATIBLE_DEFAULTS = {
+  BASE_URL: "http://localhost:11434/v1",
+  MODEL: "llama3.2-vision"
+} as const
+
+/**
+ * Model name reported by the mock provider
+ */
+export const MOCK_MODEL = "mock-model"
+
+/**
+ * Model name reported by the replay provider
+ */
+export const REPLAY_MODEL = "replay-model"
+
+// A typo in AI_PROVIDER would otherwise select no provider at all
+function readProviderOverride(): AIProviderId | "" {
+  const value = process.env.AI_PROVIDER || ""
+  if (value && !Object.values(AI_PROVIDERS).includes(value as AIProviderId)) {
+    console.warn(
+      `Ignoring unknown AI_PROVIDER "${value}", expected one of: ${Object.values(AI_PROVIDERS).join(", ")}`
+    )
+    return ""
+  }
+  return value as AIProviderId | ""
+}
+
+/**
+ * Record/replay fixtures for offline development
+ * - AI_PROVIDER: force a provider regardless of Settings (e.g. "replay" to work offline)
+ * - AI_RECORD_FIXTURES=1: save every request/response pair of the active provider
+ * - AI_FIXTURES_DIR: where fixtures are read and written (defaults to userData/ai-fixtures)
+ */
+export const AI_FIXTURES = {
+  PROVIDER_OVERRIDE: readProviderOverride(),
+  RECORD: process.env.AI_RECORD_FIXTURES === "1",
+  DIR: process.env.AI_FIXTURES_DIR || ""
+} as const
+
+/**
+ * Built-in Gemini models in priority order for fallback.
+ * Used as the default chain and whenever the live model list cannot be fetched.
  * Order: Latest/most capable → most stable
  */
 export const GEMINI_MODELS = {
@@ -34,16 +98,26 @@ export const MODEL_FALLBACK_ORDER: GeminiModel[] = [
  * Get the fallback chain starting from a specific model
  * This ensures we try models in order, skipping any that come before the current one
  */
-export function getFallbackChain(startModel: GeminiModel): GeminiModel[] {
-  const startIndex = MODEL_FALLBACK_ORDER.indexOf(startModel)
+export function getFallbackChain(startModel: string): string[] {
+  const startIndex = MODEL_FALLBACK_ORDER.indexOf(startModel as GeminiModel)
   if (startIndex === -1) {
-    // Unknown model, start from beginning
-    return MODEL_FALLBACK_ORDER
+    // Model outside the built-in list (e.g. discovered): try it first, then the defaults
+    return [startModel, ...MODEL_FALLBACK_ORDER]
   }
   // Return models from current position onwards
   return MODEL_FALLBACK_ORDER.slice(startIndex)
 }
 
+/**
+ * How long a fetched model list is reused before asking the provider again
+ */
+export const MODEL_CATALOG_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * How long to wait for a provider to list its models
+ */
+export const MODEL_LIST_TIMEOUT_MS = 15000
+
 /**
  * Retry configuration for API calls
  */
@@ -54,8 +128,18 @@ export const RETRY_CONFIG = {
   MAX_DELAY_MS: 30000,
   /** Maximum number of retry attempts per model */
   MAX_RETRIES_PER_MODEL: 1,
-  /** Timeout for API calls in milliseconds */
-  API_TIMEOUT_MS: 60000
+  /** Timeout for non-streamed API calls in milliseconds */
+  API_TIMEOUT_MS: 60000,
+  /** Streamed calls: how long to wait for the first chunk */
+  STREAM_FIRST_CHUNK_TIMEOUT_MS: 60000,
+  /** Streamed calls: longest gap between chunks before the stream counts as stalled */
+  STREAM_IDLE_TIMEOUT_MS: 30000,
+  /** How long a rate-limited model is skipped when the API gives no Retry-After hint */
+  RATE_LIMIT_COOLDOWN_MS: 60000,
+  /** Consecutive failures after which a model's circuit opens */
+  CIRCUIT_FAILURE_THRESHOLD: 3,
+  /** How long an open circuit keeps a model out of rotation */
+  CIRCUIT_COOLDOWN_MS: 120000
 } as const
 
 /**
@@ -93,7 +177,7 @@ export function isNetworkError(error: any): boolean {
  */
 export function getErrorMessage(error: any): string {
   if (isRateLimitError(error)) {
-    return "Rate limit reached. Trying with a different model..."
+    return "Rate limit reached on every available model. Please wait a moment and try again."
   }
   if (isNetworkError(error)) {
     return "Network error. Please check your connection."
@@ -122,6 +206,118 @@ export const VOICE_CONFIG = {
 } as const
 
 /**
- * Response language (can be customized)
+ * On-disk response cache configuration
+ */
+export const RESPONSE_CACHE_CONFIG = {
+  /** Total size of cached responses before least recently used entries are evicted */
+  MAX_SIZE_BYTES: 20 * 1024 * 1024,
+  /**
+   * Bump whenever the shape of cached values changes so old entries are not
+   * misread; prompt edits are covered by the template versions in the key
+   */
+  FORMAT_VERSION: 2
+} as const
+
+/**
+ * Session history
+ */
+export const HISTORY_CONFIG = {
+  /** Most recent sessions kept on disk */
+  MAX_SESSIONS: 200,
+  /** Width of the screenshot thumbnails stored with each entry */
+  THUMBNAIL_WIDTH: 320,
+  /** JPEG quality of the thumbnails (0-100) */
+  THUMBNAIL_QUALITY: 70
+} as const
+
+/**
+ * Token usage accounting
+ */
+export const USAGE_CONFIG = {
+  /** Gemini bills audio input at a fixed token rate, which lets us convert back to seconds */
+  AUDIO_TOKENS_PER_SECOND: 32,
+  /** Days of per-day totals kept on disk */
+  HISTORY_DAYS: 30,
+  /** Most recent sessions kept on disk */
+  MAX_SESSIONS: 50
+} as const
+
+/**
+ * Conversation history sent with follow-up requests
+ */
+export const CONVERSATION_CONFIG = {
+  /** Estimated size of the history before older turns are summarized */
+  MAX_HISTORY_TOKENS: 12000,
+  /** Most recent turns always sent verbatim, never summarized */
+  KEEP_RECENT_TURNS: 4,
+  /** Turns whose screenshots are re-sent; older screenshots are replaced by a note */
+  MAX_IMAGE_TURNS: 1,
+  /** Rough token estimate for text */
+  CHARS_PER_TOKEN: 4,
+  /** A full-screen screenshot is about four 768px tiles at 258 tokens each */
+  TOKENS_PER_IMAGE: 1032
+} as const
+
+/**
+ * Screenshot preprocessing before images are sent to the model
+ */
+export const IMAGE_PREPROCESS_CONFIG = {
+  /** Default longest edge in pixels; larger screenshots are downscaled (0 keeps the original size) */
+  DEFAULT_MAX_EDGE: 2048,
+  /** Longest-edge choices offered in Settings */
+  MAX_EDGE_OPTIONS: [0, 1024, 1568, 2048, 3072],
+  /** JPEG quality used when re-encoding (0-100) */
+  JPEG_QUALITY: 85,
+  /** Contrast multiplier around mid-grey applied by the text boost */
+  CONTRAST_FACTOR: 1.4
+} as const
+
+/**
+ * Local OCR with the tesseract command-line tool
  */
-export const RESPONSE_LANGUAGE = process.env.OPENAI_RESPONSE_LANGUAGE || "English"
+export const OCR_CONFIG = {
+  /** Binary to run; set TESSERACT_PATH when it is not on PATH */
+  COMMAND: process.env.TESSERACT_PATH || "tesseract",
+  /** Tesseract language packs, joined with "+" (e.g. "eng+deu") */
+  LANGUAGES: process.env.TESSERACT_LANGUAGES || "eng",
+  /** Per-image limit, so a stuck recognition cannot hold up processing */
+  TIMEOUT_MS: 30000,
+  /** Below this many recognized characters the OCR text is treated as unusable */
+  MIN_TEXT_LENGTH: 20,
+  /** Extractions sharing fewer of their words with the OCR text are logged as suspicious */
+  MIN_AGREEMENT: 0.5
+} as const
+
+/**
+ * Screenshot queue and scrolling-capture stitching
+ */
+export const SCREENSHOT_QUEUE_CONFIG = {
+  /** Screenshots kept in the queue before the oldest is dropped, unless changed in Settings */
+  DEFAULT_MAX_SCREENSHOTS: 2,
+  /** Queue sizes offered in Settings */
+  MAX_SCREENSHOTS_OPTIONS: [2, 3, 4, 6, 8],
+  /** Shortest run of matching rows accepted as the overlap between two captures */
+  MIN_OVERLAP_ROWS: 40,
+  /** Matching rows must include this many rows with visible content, so blank space alone never matches */
+  MIN_DETAILED_ROWS: 8,
+  /** Average per-column brightness difference (0-255) still treated as the same row */
+  ROW_TOLERANCE: 4,
+  /** Perceptual hashes (64 bits) this many bits apart or fewer are the same screen */
+  DUPLICATE_MAX_DISTANCE: 4,
+  /** Looser limit for finding earlier sessions with the same problem, which may be scrolled or zoomed a little */
+  SESSION_MATCH_MAX_DISTANCE: 8
+} as const
+
+/**
+ * Importing problems from files and the clipboard
+ */
+export const IMPORT_CONFIG = {
+  /** PDF renderer from poppler-utils; set PDFTOPPM_PATH when it is not on PATH */
+  PDF_COMMAND: process.env.PDFTOPPM_PATH || "pdftoppm",
+  /** Resolution PDF pages are rendered at */
+  PDF_DPI: 150,
+  /** Limit for rendering a whole document */
+  PDF_TIMEOUT_MS: 30000,
+  /** Text longer than this is not a problem statement (likely a pasted file or log) */
+  MAX_TEXT_LENGTH: 50000
+} as const
@@ -0,0 +1,147 @@
+// displayCapture.ts
+// Which display(s) a capture covers: the one under the cursor, a specific one,
+// or all of them stitched into a single image laid out like the desktop. The
+// choice is persisted in electron-store and resolved against the current
+// screen layout at capture time, so unplugging a monitor falls back cleanly.
+
+import { Display, Rectangle, nativeImage, screen } from "electron"
+import Store from "electron-store"
+
+const store = new Store()
+
+const STORE_KEY = "CAPTURE_DISPLAY"
+
+export interface CaptureDisplaySetting {
+  mode: "cursor" | "display" | "all"
+  /** Electron display id, for mode "display" */
+  displayId?: number
+}
+
+export interface CaptureDisplayInfo {
+  id: number
+  label: string
+  width: number
+  height: number
+  isPrimary: boolean
+}
+
+const DEFAULT_SETTING: CaptureDisplaySetting = { mode: "cursor" }
+
+export function getCaptureDisplaySetting(): CaptureDisplaySetting {
+  return (store.get(STORE_KEY) as CaptureDisplaySetting | undefined) || DEFAULT_SETTING
+}
+
+export function setCaptureDisplaySetting(setting: CaptureDisplaySetting): void {
+  if (!["cursor", "display", "all"].includes(setting.mode)) {
+    throw new Error(`Unknown capture display mode: ${setting.mode}`)
+  }
+  if (setting.mode === "display" && typeof setting.displayId !== "number") {
+    throw new Error("A display id is required to capture a specific display")
+  }
+  store.set(STORE_KEY, setting.mode === "display" ? setting : { mode: setting.mode })
+  console.log("Capture display set to", setting)
+}
+
+/**
+ * Connected displays, left to right then top to bottom, for the display picker
+ */
+export function listCaptureDisplays(): CaptureDisplayInfo[] {
+  const primaryId = screen.getPrimaryDisplay().id
+  return sortDisplays(screen.getAllDisplays()).map((display, index) => ({
+    id: display.id,
+    label: display.label || `Display ${index + 1}`,
+    width: display.size.width,
+    height: display.size.height,
+    isPrimary: display.id === primaryId
+  }))
+}
+
+function sortDisplays(displays: Display[]): Display[] {
+  return [...displays].sort((a, b) => a.bounds.x - b.bounds.x || a.bounds.y - b.bounds.y)
+}
+
+export function getCursorDisplay(): Display {
+  return screen.getDisplayNearestPoint(screen.getCursorScreenPoint())
+}
+
+/**
+ * Displays the next capture should cover, according to the saved setting
+ */
+export function resolveCaptureDisplays(): Display[] {
+  const setting = getCaptureDisplaySetting()
+  if (setting.mode === "all") {
+    return sortDisplays(screen.getAllDisplays())
+  }
+  if (setting.mode === "display") {
+    const display = screen.getAllDisplays().find((d) => d.id === setting.displayId)
+    if (display) return [display]
+    console.warn(`Display ${setting.displayId} is no longer connected, capturing the one under the cursor`)
+  }
+  return [getCursorDisplay()]
+}
+
+function getUnionBounds(displays: Display[]): Rectangle {
+  const left = Math.min(...displays.map((d) => d.bounds.x))
+  const top = Math.min(...displays.map((d) => d.bounds.y))
+  const right = Math.max(...displays.map((d) => d.bounds.x + d.bounds.width))
+  const bottom = Math.max(...displays.map((d) => d.bounds.y + d.bounds.height))
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+/**
+ * Cut one display out of a capture of the whole desktop (what the Linux tools produce)
+ */
+export function cropDesktopToDisplay(desktop: Buffer, display: Display): Buffer {
+  const image = nativeImage.createFromBuffer(desktop)
+  const { width, height } = image.getSize()
+  const union = getUnionBounds(screen.getAllDisplays())
+  const scaleX = width / union.width
+  const scaleY = height / union.height
+
+  const x = Math.round((display.bounds.x - union.x) * scaleX)
+  const y = Math.round((display.bounds.y - union.y) * scaleY)
+  return image
+    .crop({
+      x,
+      y,
+      width: Math.min(Math.round(display.bounds.width * scaleX), width - x),
+      height: Math.min(Math.round(display.bounds.height * scaleY), height - y)
+    })
+    .toPNG()
+}
+
+/**
+ * Place per-display captures on one image, positioned as the displays are arranged.
+ * Every display is scaled to the highest scale factor so text stays sharp; areas no
+ * display covers are left black.
+ */
+export function stitchDisplayCaptures(captures: { display: Display; image: Buffer }[]): Buffer {
+  if (captures.length === 1) return captures[0].image
+
+  const union = getUnionBounds(captures.map((c) => c.display))
+  const scale = Math.max(...captures.map((c) => c.display.scaleFactor))
+  const width = Math.round(union.width * scale)
+  const height = Math.round(union.height * scale)
+
+  const canvas = Buffer.alloc(width * height * 4)
+  for (let i = 3; i < canvas.length; i += 4) canvas[i] = 255
+
+  for (const { display, image } of captures) {
+    const resized = nativeImage.createFromBuffer(image).resize({
+      width: Math.round(display.bounds.width * scale),
+      height: Math.round(display.bounds.height * scale)
+    })
+    const size = resized.getSize()
+    const bitmap = resized.toBitmap()
+    const left = Math.round((display.bounds.x - union.x) * scale)
+    const top = Math.round((display.bounds.y - union.y) * scale)
+    const rowWidth = Math.min(size.width, width - left)
+
+    for (let row = 0; row < size.height && top + row < height; row++) {
+      const source = row * size.width * 4
+      bitmap.copy(canvas, ((top + row) * width + left) * 4, source, source + rowWidth * 4)
+    }
+  }
+
+  return nativeImage.createFromBitmap(canvas, { width, height }).toPNG()
+}
@@ -0,0 +1,207 @@
+// fixtureProviders.ts
+// Record/replay support for the AI layer. RecordingProvider wraps a live provider
+// and saves each request/response pair to a fixture file; ReplayProvider serves
+// those fixtures back deterministically, so the screenshot → solution → debug
+// flow runs offline and in CI.
+
+import path from "node:path"
+import fs from "node:fs"
+import crypto from "node:crypto"
+import { app } from "electron"
+import { AI_FIXTURES, AI_PROVIDERS, REPLAY_MODEL } from "./config"
+import type {
+  AIGenerateRequest,
+  AIModelInfo,
+  AIProvider,
+  AIUsage
+} from "./aiProviders"
+
+interface Fixture {
+  key: string
+  recordedAt: string
+  /** Provider and model that produced the response (informational only) */
+  provider: string
+  model: string
+  request: ReturnType<typeof normalizeRequest>
+  response: string
+  /** Stream deltas as received, so replayed streams look like the original */
+  chunks?: string[]
+  /** Token usage reported when the fixture was recorded */
+  usage?: AIUsage
+}
+
+export function getFixturesDir(): string {
+  const dir = AI_FIXTURES.DIR || path.join(app.getPath("userData"), "ai-fixtures")
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true })
+  }
+  return dir
+}
+
+// The parts of a request that determine the answer. Inline data is replaced by
+// its hash so fixtures stay small, and the model is left out so a recording
+// replays no matter which model in the chain produced it.
+function normalizeRequest(request: AIGenerateRequest) {
+  return {
+    systemInstruction: request.systemInstruction || "",
+    contents: request.contents.map((content) => ({
+      role: content.role,
+      parts: content.parts.map((part) =>
+        part.inlineData
+          ? {
+              mimeType: part.inlineData.mimeType,
+              sha256: crypto
+                .createHash("sha256")
+                .update(Buffer.from(part.inlineData.data, "base64"))
+                .digest("hex")
+            }
+          : { text: part.text || "" }
+      )
+    })),
+    jsonMode: Boolean(request.jsonMode || request.responseSchema)
+  }
+}
+
+export function getFixtureKey(request: AIGenerateRequest): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(normalizeRequest(request)))
+    .digest("hex")
+    .slice(0, 32)
+}
+
+function fixturePath(key: string): string {
+  return path.join(getFixturesDir(), `${key}.json`)
+}
+
+function writeFixture(
+  providerId: string,
+  request: AIGenerateRequest,
+  response: string,
+  usage: AIUsage | null,
+  chunks?: string[]
+): void {
+  const key = getFixtureKey(request)
+  const fixture: Fixture = {
+    key,
+    recordedAt: new Date().toISOString(),
+    provider: providerId,
+    model: request.model,
+    request: normalizeRequest(request),
+    response,
+    chunks,
+    usage: usage || undefined
+  }
+  try {
+    fs.writeFileSync(fixturePath(key), JSON.stringify(fixture, null, 2))
+    console.log(`[AI Fixtures] Recorded ${key}`)
+  } catch (error) {
+    console.error("[AI Fixtures] Failed to write fixture:", error)
+  }
+}
+
+/**
+ * Decorates a live provider and saves every successful exchange as a fixture
+ */
+export class RecordingProvider implements AIProvider {
+  constructor(private inner: AIProvider) {}
+
+  get id() {
+    return this.inner.id
+  }
+
+  getModelChain(): string[] {
+    return this.inner.getModelChain()
+  }
+
+  listModels(): Promise<AIModelInfo[]> {
+    return this.inner.listModels()
+  }
+
+  // Capture usage for the fixture while still passing it on to the caller
+  private withUsageCapture(request: AIGenerateRequest) {
+    let usage: AIUsage | null = null
+    const captured: AIGenerateRequest = {
+      ...request,
+      onUsage: (reported) => {
+        usage = reported
+        request.onUsage?.(reported)
+      }
+    }
+    return { captured, getUsage: () => usage }
+  }
+
+  async generateContent(request: AIGenerateRequest): Promise<string> {
+    const { captured, getUsage } = this.withUsageCapture(request)
+    const response = await this.inner.generateContent(captured)
+    writeFixture(this.inner.id, request, response, getUsage())
+    return response
+  }
+
+  async *generateContentStream(request: AIGenerateRequest): AsyncGenerator<string> {
+    const { captured, getUsage } = this.withUsageCapture(request)
+    const chunks: string[] = []
+    for await (const chunk of this.inner.generateContentStream(captured)) {
+      chunks.push(chunk)
+      yield chunk
+    }
+    // Only complete streams are recorded; a failed attempt falls back and records later
+    writeFixture(this.inner.id, request, chunks.join(""), getUsage(), chunks)
+  }
+}
+
+/**
+ * Serves recorded fixtures. A request without a fixture fails loudly instead of
+ * guessing, so missing recordings show up in CI.
+ */
+export class ReplayProvider implements AIProvider {
+  readonly id = AI_PROVIDERS.REPLAY
+
+  getModelChain(): string[] {
+    return [REPLAY_MODEL]
+  }
+
+  async listModels(): Promise<AIModelInfo[]> {
+    return [
+      {
+        id: REPLAY_MODEL,
+        displayName: "Replay (recorded fixtures)",
+        capabilities: { vision: true, audio: true, jsonMode: true }
+      }
+    ]
+  }
+
+  private readFixture(request: AIGenerateRequest): Fixture {
+    if (request.signal?.aborted) {
+      throw new Error("CanceledError")
+    }
+
+    const key = getFixtureKey(request)
+    const filePath = fixturePath(key)
+    if (!fs.existsSync(filePath)) {
+      throw new Error(
+        `No recorded fixture for this request (${key}). Record one with AI_RECORD_FIXTURES=1.`
+      )
+    }
+    console.log(`[AI Fixtures] Replaying ${key}`)
+    const fixture = JSON.parse(fs.readFileSync(filePath, "utf8")) as Fixture
+    if (fixture.usage) {
+      request.onUsage?.(fixture.usage)
+    }
+    return fixture
+  }
+
+  async generateContent(request: AIGenerateRequest): Promise<string> {
+    return this.readFixture(request).response
+  }
+
+  async *generateContentStream(request: AIGenerateRequest): AsyncGenerator<string> {
+    const fixture = this.readFixture(request)
+    for (const chunk of fixture.chunks || [fixture.response]) {
+      if (request.signal?.aborted) {
+        throw new Error("CanceledError")
+      }
+      yield chunk
+    }
+  }
+}
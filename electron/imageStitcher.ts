@@ -0,0 +1,185 @@
+// imageStitcher.ts
+// Scrolling capture: consecutive screenshots of a page scrolled down between
+// captures are merged into one tall image. Each row is reduced to a coarse
+// brightness signature; sticky headers and footers show up as rows that match
+// at the same position in both captures and are kept only once, and the
+// overlap is the longest run where the end of one capture's scrolling content
+// matches the start of the next one's.
+
+import { NativeImage, nativeImage } from "electron"
+import Store from "electron-store"
+import { SCREENSHOT_QUEUE_CONFIG } from "./config"
+
+const store = new Store()
+
+const STORE_KEY = "STITCH_SCREENSHOTS"
+
+// Columns per row signature
+const SIGNATURE_BUCKETS = 48
+
+// Rows whose buckets vary less than this are blank space, which matches anything
+const DETAIL_THRESHOLD = 12
+
+export function getStitchingEnabled(): boolean {
+  return (store.get(STORE_KEY) as boolean | undefined) ?? true
+}
+
+export function setStitchingEnabled(enabled: boolean): void {
+  store.set(STORE_KEY, enabled)
+  console.log(`Screenshot stitching ${enabled ? "enabled" : "disabled"}`)
+}
+
+interface RowSignatures {
+  width: number
+  height: number
+  bitmap: Buffer
+  /** SIGNATURE_BUCKETS average brightness values per row */
+  buckets: Float32Array
+  detailed: Uint8Array
+}
+
+function computeSignatures(image: NativeImage): RowSignatures {
+  const { width, height } = image.getSize()
+  const bitmap = image.toBitmap()
+  const buckets = new Float32Array(height * SIGNATURE_BUCKETS)
+  const detailed = new Uint8Array(height)
+
+  // Skip the outer columns, where scrollbars move between captures
+  const margin = Math.round(width * 0.02)
+  const usable = Math.max(1, width - margin * 2)
+
+  for (let y = 0; y < height; y++) {
+    let min = 255
+    let max = 0
+    for (let b = 0; b < SIGNATURE_BUCKETS; b++) {
+      const start = margin + Math.floor((b * usable) / SIGNATURE_BUCKETS)
+      const end = Math.max(start + 1, margin + Math.floor(((b + 1) * usable) / SIGNATURE_BUCKETS))
+      let sum = 0
+      for (let x = start; x < end; x++) {
+        const offset = (y * width + x) * 4
+        sum += 0.114 * bitmap[offset] + 0.587 * bitmap[offset + 1] + 0.299 * bitmap[offset + 2]
+      }
+      const value = sum / (end - start)
+      buckets[y * SIGNATURE_BUCKETS + b] = value
+      min = Math.min(min, value)
+      max = Math.max(max, value)
+    }
+    detailed[y] = max - min >= DETAIL_THRESHOLD ? 1 : 0
+  }
+
+  return { width, height, bitmap, buckets, detailed }
+}
+
+function rowsMatch(a: RowSignatures, rowA: number, b: RowSignatures, rowB: number): boolean {
+  let difference = 0
+  for (let i = 0; i < SIGNATURE_BUCKETS; i++) {
+    difference += Math.abs(
+      a.buckets[rowA * SIGNATURE_BUCKETS + i] - b.buckets[rowB * SIGNATURE_BUCKETS + i]
+    )
+  }
+  return difference / SIGNATURE_BUCKETS <= SCREENSHOT_QUEUE_CONFIG.ROW_TOLERANCE
+}
+
+interface StitchPlan {
+  /** Rows of the upper capture kept, from the top (drops its sticky footer) */
+  keepTop: number
+  /** First row of the lower capture appended below them */
+  lowerStart: number
+}
+
+/**
+ * How to join two captures of a page scrolled down between them, or null if they do not overlap
+ */
+function planStitch(upper: RowSignatures, lower: RowSignatures): StitchPlan | null {
+  if (upper.width !== lower.width) return null
+  const shortest = Math.min(upper.height, lower.height)
+
+  let header = 0
+  while (header < shortest && rowsMatch(upper, header, lower, header)) header++
+  let footer = 0
+  while (
+    footer < shortest - header &&
+    rowsMatch(upper, upper.height - 1 - footer, lower, lower.height - 1 - footer)
+  ) {
+    footer++
+  }
+  // Nothing scrolled: the captures are the same
+  if (header + footer >= shortest) return null
+
+  const upperEnd = upper.height - footer
+  const upperContent = upperEnd - header
+  const lowerContent = lower.height - footer - header
+  const maxOverlap = Math.min(upperContent, lowerContent) - 1
+
+  for (let overlap = maxOverlap; overlap >= SCREENSHOT_QUEUE_CONFIG.MIN_OVERLAP_ROWS; overlap--) {
+    let detailedRows = 0
+    let matches = true
+    for (let i = 0; i < overlap; i++) {
+      const upperRow = upperEnd - overlap + i
+      const lowerRow = header + i
+      if (!rowsMatch(upper, upperRow, lower, lowerRow)) {
+        matches = false
+        break
+      }
+      detailedRows += lower.detailed[lowerRow]
+    }
+    if (matches && detailedRows >= SCREENSHOT_QUEUE_CONFIG.MIN_DETAILED_ROWS) {
+      return { keepTop: upperEnd, lowerStart: header + overlap }
+    }
+  }
+  return null
+}
+
+function joinRows(upper: RowSignatures, lower: RowSignatures, plan: StitchPlan): NativeImage {
+  const rowBytes = upper.width * 4
+  const height = plan.keepTop + (lower.height - plan.lowerStart)
+  const bitmap = Buffer.alloc(height * rowBytes)
+  upper.bitmap.copy(bitmap, 0, 0, plan.keepTop * rowBytes)
+  lower.bitmap.copy(bitmap, plan.keepTop * rowBytes, plan.lowerStart * rowBytes)
+  return nativeImage.createFromBitmap(bitmap, { width: upper.width, height })
+}
+
+export interface StitchedImage {
+  /** PNG data */
+  image: Buffer
+  /** Indexes of the input images merged into this one, in order */
+  sources: number[]
+}
+
+/**
+ * Merge runs of consecutive overlapping captures into tall images. Captures
+ * that do not continue the previous one are passed through unchanged.
+ */
+export function stitchScreenshots(images: Buffer[]): StitchedImage[] {
+  const results: StitchedImage[] = []
+  let current: { image: NativeImage; signatures: RowSignatures; sources: number[] } | null = null
+
+  const flush = () => {
+    if (!current) return
+    results.push({
+      image: current.sources.length > 1 ? current.image.toPNG() : images[current.sources[0]],
+      sources: current.sources
+    })
+  }
+
+  images.forEach((buffer, index) => {
+    const image = nativeImage.createFromBuffer(buffer)
+    const signatures = computeSignatures(image)
+    const plan = current && !image.isEmpty() ? planStitch(current.signatures, signatures) : null
+
+    if (current && plan) {
+      const merged = joinRows(current.signatures, signatures, plan)
+      console.log(
+        `Stitched screenshot ${index + 1} below ${current.sources.map((i) => i + 1).join("+")}` +
+          ` (${signatures.height - plan.lowerStart} new rows)`
+      )
+      current = { image: merged, signatures: computeSignatures(merged), sources: [...current.sources, index] }
+    } else {
+      flush()
+      current = { image, signatures, sources: [index] }
+    }
+  })
+  flush()
+
+  return results
+}
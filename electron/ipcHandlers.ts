@@ -1,12 +1,61 @@
 // ipcHandlers.ts
 
-import { ipcMain, shell, app } from "electron"
+import { ipcMain, shell, app, dialog } from "electron"
 import { randomBytes } from "crypto"
+import fs from "node:fs"
 import {
   IIpcHandlerDeps
 } from "./main"
 import Store from "electron-store"
-import { clearConversationHistory } from "./ProcessingHelper"
+import { conversationHistory } from "./ConversationHistory"
+import {
+  CaptureDisplaySetting,
+  getCaptureDisplaySetting,
+  listCaptureDisplays,
+  setCaptureDisplaySetting
+} from "./displayCapture"
+import {
+  AIProviderSettings,
+  getCustomModelChain,
+  getPreferredModel,
+  getProviderSettings,
+  setCustomModelChain,
+  setPreferredModel,
+  setProviderSettings
+} from "./aiProviders"
+import { getModelCatalog } from "./modelCatalog"
+import {
+  getImagePreprocessSettings,
+  ImagePreprocessSettings,
+  setImagePreprocessSettings
+} from "./ImagePreprocessor"
+import { IMAGE_PREPROCESS_CONFIG, SCREENSHOT_QUEUE_CONFIG } from "./config"
+import { getOcrMode, getTesseractVersion, OcrMode, setOcrMode } from "./ocr"
+import { getStitchingEnabled, setStitchingEnabled } from "./imageStitcher"
+import { FocusRegion } from "./annotations"
+import {
+  IMAGE_EXTENSIONS,
+  ImportedProblem,
+  readClipboardProblem,
+  readProblemFiles,
+  TEXT_EXTENSIONS
+} from "./problemImport"
+import { usageTracker } from "./UsageTracker"
+import { sessionStore } from "./SessionStore"
+import { saveSessionExport, SessionExportFormat } from "./sessionExport"
+import {
+  exportPromptTemplates,
+  getPromptTemplates,
+  importPromptTemplates,
+  PromptTemplateId,
+  resetPromptTemplate,
+  savePromptTemplate
+} from "./promptTemplates"
+import {
+  getResponseLanguage,
+  RESPONSE_LANGUAGES,
+  setResponseLanguage
+} from "./responseLanguage"
 
 const store = new Store()
 
@@ -54,6 +103,92 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
     return deps.getImagePreview(path)
   })
 
+  ipcMain.handle("reorder-screenshots", async (_event, paths: string[]) => {
+    try {
+      const screenshotHelper = deps.getScreenshotHelper()
+      if (!screenshotHelper) {
+        return { success: false, error: "Screenshot helper not initialized" }
+      }
+      screenshotHelper.reorderScreenshots(paths)
+      return { success: true }
+    } catch (error) {
+      console.error("Error reordering screenshots:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle(
+    "save-annotated-screenshot",
+    async (_event, screenshotPath: string, imageDataUrl: string, focusRegions: FocusRegion[]) => {
+      try {
+        const screenshotHelper = deps.getScreenshotHelper()
+        if (!screenshotHelper) {
+          return { success: false, error: "Screenshot helper not initialized" }
+        }
+        const match = /^data:image\/png;base64,(.+)$/.exec(imageDataUrl)
+        if (!match) return { success: false, error: "Annotated image must be a PNG data URL" }
+        await screenshotHelper.replaceWithAnnotated(screenshotPath, Buffer.from(match[1], "base64"), focusRegions)
+        return { success: true }
+      } catch (error) {
+        console.error("Error saving annotated screenshot:", error)
+        return { success: false, error: String(error) }
+      }
+    }
+  )
+
+  ipcMain.handle("resolve-duplicate-screenshot", async (_event, action: "replace" | "keep-both") => {
+    try {
+      const screenshotHelper = deps.getScreenshotHelper()
+      if (!screenshotHelper) {
+        return { success: false, error: "Screenshot helper not initialized" }
+      }
+      return { success: true, path: screenshotHelper.resolveDuplicate(action) }
+    } catch (error) {
+      console.error("Error resolving duplicate screenshot:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle("get-screenshot-queue-settings", async () => {
+    try {
+      return {
+        success: true,
+        settings: {
+          maxScreenshots:
+            deps.getScreenshotHelper()?.getMaxScreenshots() ??
+            SCREENSHOT_QUEUE_CONFIG.DEFAULT_MAX_SCREENSHOTS,
+          stitch: getStitchingEnabled()
+        },
+        maxScreenshotsOptions: [...SCREENSHOT_QUEUE_CONFIG.MAX_SCREENSHOTS_OPTIONS]
+      }
+    } catch (error) {
+      console.error("Error getting screenshot queue settings:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle(
+    "set-screenshot-queue-settings",
+    async (_event, settings: { maxScreenshots?: number; stitch?: boolean }) => {
+      try {
+        if (settings.maxScreenshots !== undefined) {
+          const screenshotHelper = deps.getScreenshotHelper()
+          if (!screenshotHelper) {
+            return { success: false, error: "Screenshot helper not initialized" }
+          }
+          screenshotHelper.setMaxScreenshots(settings.maxScreenshots)
+        }
+        if (settings.stitch !== undefined) {
+          setStitchingEnabled(settings.stitch)
+        }
+        return { success: true }
+      } catch (error) {
+        console.error("Error setting screenshot queue settings:", error)
+        return { success: false, error: String(error) }
+      }
+    }
+  )
+
   // Screenshot processing handlers
   ipcMain.handle("process-screenshots", async () => {
     await deps.processingHelper?.processScreenshots()
@@ -137,6 +272,91 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
     }
   })
 
+  // Import handlers: images and PDF pages join the queue, text is solved directly
+  const applyImport = async (imported: ImportedProblem) => {
+    if (imported.kind === "text") {
+      // Runs in the background; progress and errors arrive as processing events
+      deps.processingHelper?.processTextProblem(imported.text)
+      return { success: true, kind: imported.kind, count: 1 }
+    }
+
+    const screenshotHelper = deps.getScreenshotHelper()
+    if (!screenshotHelper) throw new Error("Screenshot helper not initialized")
+    // Earlier queued screenshots may have been pushed out; only report what is still queued
+    const importedPaths = await screenshotHelper.importImages(imported.images)
+    const queue = screenshotHelper.getScreenshotQueue()
+    const screenshotPaths = importedPaths.filter((screenshotPath) => queue.includes(screenshotPath))
+    deps.setView("queue")
+    const mainWindow = deps.getMainWindow()
+    for (const screenshotPath of screenshotPaths) {
+      mainWindow?.webContents.send("screenshot-taken", {
+        path: screenshotPath,
+        preview: await deps.getImagePreview(screenshotPath)
+      })
+    }
+    return { success: true, kind: imported.kind, count: screenshotPaths.length }
+  }
+
+  ipcMain.handle("import-problem-files", async (_event, filePaths?: string[]) => {
+    try {
+      if (!filePaths) {
+        const mainWindow = deps.getMainWindow()
+        const options: Electron.OpenDialogOptions = {
+          title: "Import Problem",
+          properties: ["openFile", "multiSelections"],
+          filters: [
+            { name: "Images, PDFs and text", extensions: [...IMAGE_EXTENSIONS, "pdf", ...TEXT_EXTENSIONS] }
+          ]
+        }
+        const result = mainWindow
+          ? await dialog.showOpenDialog(mainWindow, options)
+          : await dialog.showOpenDialog(options)
+        if (result.canceled || result.filePaths.length === 0) return { success: false, canceled: true }
+        filePaths = result.filePaths
+      }
+
+      const maxImages =
+        deps.getScreenshotHelper()?.getMaxScreenshots() ?? SCREENSHOT_QUEUE_CONFIG.DEFAULT_MAX_SCREENSHOTS
+      return await applyImport(await readProblemFiles(filePaths, maxImages))
+    } catch (error: any) {
+      console.error("Error importing problem files:", error)
+      return { success: false, error: error.message || String(error) }
+    }
+  })
+
+  ipcMain.handle("import-clipboard", async () => {
+    try {
+      return await applyImport(readClipboardProblem())
+    } catch (error: any) {
+      console.error("Error importing from clipboard:", error)
+      return { success: false, error: error.message || String(error) }
+    }
+  })
+
+  // Capture display handlers
+  ipcMain.handle("get-capture-displays", async () => {
+    try {
+      return {
+        success: true,
+        displays: listCaptureDisplays(),
+        setting: getCaptureDisplaySetting()
+      }
+    } catch (error) {
+      console.error("Error listing capture displays:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle("set-capture-display", async (_event, setting: CaptureDisplaySetting) => {
+    try {
+      setCaptureDisplaySetting(setting)
+      return { success: true }
+    } catch (error) {
+      console.error("Error setting capture display:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
   // Cancel processing handler
   ipcMain.handle("cancel-processing", () => {
     deps.processingHelper?.cancelProcessing()
@@ -167,9 +387,9 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
 
 
   // Process screenshot handlers
-  ipcMain.handle("trigger-process-screenshots", async () => {
+  ipcMain.handle("trigger-process-screenshots", async (_event, options?: { bypassCache?: boolean }) => {
     try {
-      await deps.processingHelper?.processScreenshots()
+      await deps.processingHelper?.processScreenshots(options)
       return { success: true }
     } catch (error) {
       console.error("Error processing screenshots:", error)
@@ -186,8 +406,10 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
       // Clear all queues immediately
       deps.clearQueues()
       
-      // Clear conversation history
-      clearConversationHistory()
+      // Clear conversation history and start new usage and history sessions
+      conversationHistory.clear()
+      usageTracker.startSession()
+      sessionStore.startSession()
 
       // Reset view to queue
       deps.setView("queue")
@@ -263,6 +485,7 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
   ipcMain.handle("set-api-key", async (event, apiKey: string) => {
     try {
       store.set("GEMINI_API_KEY", apiKey)
+      deps.aiClient?.reload()
       return { success: true }
     } catch (error) {
       console.error("Error setting API key:", error)
@@ -282,7 +505,7 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
 
   ipcMain.handle("get-model", async () => {
     try {
-      const model = store.get("GEMINI_MODEL")
+      const model = getPreferredModel()
       return { success: true, model }
     } catch (error) {
       console.error("Error getting model:", error)
@@ -292,7 +515,8 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
 
   ipcMain.handle("set-model", async (event, model: string) => {
     try {
-      store.set("GEMINI_MODEL", model)
+      setPreferredModel(model)
+      deps.aiClient?.reload()
       return { success: true }
     } catch (error) {
       console.error("Error setting model:", error)
@@ -300,6 +524,325 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
     }
   })
 
+  // Model discovery and fallback chain handlers
+  ipcMain.handle("get-model-catalog", async (_event, forceRefresh?: boolean) => {
+    try {
+      const catalog = await getModelCatalog(forceRefresh)
+      return { success: true, catalog }
+    } catch (error) {
+      console.error("Error getting model catalog:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle("get-model-chain", async () => {
+    try {
+      const { provider } = getProviderSettings()
+      const isCustom = getCustomModelChain(provider).length > 0
+      let chain: string[]
+      try {
+        chain = deps.aiClient!.getModelChain()
+      } catch {
+        // Provider not configured yet; show whatever the user saved
+        chain = getCustomModelChain(provider)
+      }
+      return { success: true, chain, isCustom }
+    } catch (error) {
+      console.error("Error getting model chain:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle("set-model-chain", async (_event, chain: string[]) => {
+    try {
+      setCustomModelChain(getProviderSettings().provider, chain)
+      deps.aiClient?.reload()
+      return { success: true }
+    } catch (error) {
+      console.error("Error setting model chain:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  // Usage handlers
+  ipcMain.handle("get-usage-summary", async () => {
+    try {
+      return { success: true, summary: usageTracker.getSummary() }
+    } catch (error) {
+      console.error("Error getting usage summary:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle("set-daily-token-budget", async (_event, tokens: number) => {
+    try {
+      usageTracker.setDailyBudget(tokens)
+      return { success: true }
+    } catch (error) {
+      console.error("Error setting daily token budget:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle("clear-usage", async () => {
+    try {
+      usageTracker.clear()
+      return { success: true }
+    } catch (error) {
+      console.error("Error clearing usage data:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle("clear-response-cache", async () => {
+    try {
+      deps.processingHelper?.clearResponseCache()
+      return { success: true }
+    } catch (error) {
+      console.error("Error clearing response cache:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  // Session history handlers
+  ipcMain.handle("get-sessions", async () => {
+    try {
+      return {
+        success: true,
+        sessions: sessionStore.listSessions(),
+        currentSessionId: sessionStore.getCurrentSessionId(),
+        saveThumbnails: sessionStore.getSaveThumbnails()
+      }
+    } catch (error) {
+      console.error("Error listing sessions:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle("get-session", async (_event, id: string) => {
+    try {
+      const session = sessionStore.getSession(id)
+      if (!session) return { success: false, error: "Session not found" }
+      return { success: true, session }
+    } catch (error) {
+      console.error("Error loading session:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle("delete-session", async (_event, id: string) => {
+    try {
+      sessionStore.deleteSession(id)
+      return { success: true }
+    } catch (error) {
+      console.error("Error deleting session:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle("clear-sessions", async () => {
+    try {
+      sessionStore.clear()
+      return { success: true }
+    } catch (error) {
+      console.error("Error clearing sessions:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle(
+    "export-session",
+    async (_event, format: SessionExportFormat, content: string, fileName: string) => {
+      try {
+        const filePath = await saveSessionExport(deps.getMainWindow(), format, content, fileName)
+        if (!filePath) return { success: false, canceled: true }
+        return { success: true, filePath }
+      } catch (error: any) {
+        console.error("Error exporting session:", error)
+        return { success: false, error: error.message || String(error) }
+      }
+    }
+  )
+
+  ipcMain.handle("set-history-thumbnails", async (_event, enabled: boolean) => {
+    try {
+      sessionStore.setSaveThumbnails(enabled)
+      return { success: true }
+    } catch (error) {
+      console.error("Error updating thumbnail setting:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  // Response language handlers
+  ipcMain.handle("get-response-language", async () => {
+    try {
+      return {
+        success: true,
+        language: getResponseLanguage(),
+        languages: [...RESPONSE_LANGUAGES]
+      }
+    } catch (error) {
+      console.error("Error getting response language:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle("set-response-language", async (_event, language: string) => {
+    try {
+      setResponseLanguage(language)
+      return { success: true }
+    } catch (error) {
+      console.error("Error setting response language:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  // Image preprocessing handlers
+  ipcMain.handle("get-image-preprocessing", async () => {
+    try {
+      return {
+        success: true,
+        settings: getImagePreprocessSettings(),
+        maxEdgeOptions: [...IMAGE_PREPROCESS_CONFIG.MAX_EDGE_OPTIONS]
+      }
+    } catch (error) {
+      console.error("Error getting image preprocessing settings:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle(
+    "set-image-preprocessing",
+    async (_event, settings: Partial<ImagePreprocessSettings>) => {
+      try {
+        setImagePreprocessSettings(settings)
+        return { success: true }
+      } catch (error) {
+        console.error("Error setting image preprocessing:", error)
+        return { success: false, error: String(error) }
+      }
+    }
+  )
+
+  // OCR handlers
+  ipcMain.handle("get-ocr-settings", async () => {
+    try {
+      return { success: true, mode: getOcrMode(), tesseractVersion: await getTesseractVersion() }
+    } catch (error) {
+      console.error("Error getting OCR settings:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle("set-ocr-mode", async (_event, mode: OcrMode) => {
+    try {
+      setOcrMode(mode)
+      return { success: true }
+    } catch (error) {
+      console.error("Error setting OCR mode:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  // Prompt template handlers
+  ipcMain.handle("get-prompt-templates", async () => {
+    try {
+      return { success: true, templates: getPromptTemplates() }
+    } catch (error) {
+      console.error("Error getting prompt templates:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle(
+    "save-prompt-template",
+    async (_event, id: PromptTemplateId, text: { system: string; user: string }) => {
+      try {
+        return { success: true, template: savePromptTemplate(id, text) }
+      } catch (error) {
+        console.error("Error saving prompt template:", error)
+        return { success: false, error: String(error) }
+      }
+    }
+  )
+
+  ipcMain.handle("reset-prompt-template", async (_event, id: PromptTemplateId) => {
+    try {
+      resetPromptTemplate(id)
+      return { success: true }
+    } catch (error) {
+      console.error("Error resetting prompt template:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle("export-prompt-templates", async () => {
+    try {
+      const mainWindow = deps.getMainWindow()
+      const options = {
+        title: "Export Prompt Templates",
+        defaultPath: "interview-coder-prompts.json",
+        filters: [{ name: "JSON", extensions: ["json"] }]
+      }
+      const { canceled, filePath } = mainWindow
+        ? await dialog.showSaveDialog(mainWindow, options)
+        : await dialog.showSaveDialog(options)
+      if (canceled || !filePath) return { success: false, canceled: true }
+
+      fs.writeFileSync(filePath, JSON.stringify(exportPromptTemplates(), null, 2))
+      return { success: true, filePath }
+    } catch (error) {
+      console.error("Error exporting prompt templates:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle("import-prompt-templates", async () => {
+    try {
+      const mainWindow = deps.getMainWindow()
+      const options: Electron.OpenDialogOptions = {
+        title: "Import Prompt Templates",
+        properties: ["openFile"],
+        filters: [{ name: "JSON", extensions: ["json"] }]
+      }
+      const { canceled, filePaths } = mainWindow
+        ? await dialog.showOpenDialog(mainWindow, options)
+        : await dialog.showOpenDialog(options)
+      if (canceled || filePaths.length === 0) return { success: false, canceled: true }
+
+      const imported = importPromptTemplates(JSON.parse(fs.readFileSync(filePaths[0], "utf8")))
+      return { success: true, imported }
+    } catch (error: any) {
+      console.error("Error importing prompt templates:", error)
+      return { success: false, error: error.message || String(error) }
+    }
+  })
+
+  // AI provider handlers
+  ipcMain.handle("get-ai-provider-settings", async () => {
+    try {
+      return { success: true, settings: getProviderSettings() }
+    } catch (error) {
+      console.error("Error getting AI provider settings:", error)
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle(
+    "set-ai-provider-settings",
+    async (event, settings: Partial<AIProviderSettings>) => {
+      try {
+        setProviderSettings(settings)
+        deps.aiClient?.reload()
+        return { success: true }
+      } catch (error) {
+        console.error("Error setting AI provider settings:", error)
+        return { success: false, error: String(error) }
+      }
+    }
+  )
+
   ipcMain.handle("set-window-focusable", (event, focusable: boolean) => {
     try {
       deps.setWindowFocusable(focusable)
@@ -362,4 +905,21 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
       isRecording: deps.voiceHelper?.getIsRecording() || false 
     }
   })
+
+  // ==================== Follow-up Chat ====================
+
+  ipcMain.handle(
+    "send-chat-message",
+    async (_event, message: string, code: string, checkpointId?: string) => {
+      try {
+        if (!deps.processingHelper) {
+          return { success: false, error: "Processing helper not initialized" }
+        }
+        return await deps.processingHelper.processChatMessage(message, code, checkpointId)
+      } catch (error) {
+        console.error("Error sending chat message:", error)
+        return { success: false, error: String(error) }
+      }
+    }
+  )
 }
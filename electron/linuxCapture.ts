@@ -0,0 +1,227 @@
+// linuxCapture.ts
+// Full-screen capture on Linux. There is no single system tool, so we look for
+// the common ones for the current display server (grim on wlroots Wayland,
+// maim/scrot/ImageMagick/xwd on X11, plus the GNOME and KDE tools on either),
+// try them in order and fall back to Electron's desktopCapturer. When nothing
+// works the error says what to install.
+
+import path from "node:path"
+import fs from "node:fs"
+import { app, desktopCapturer, Display, nativeImage, screen } from "electron"
+import { v4 as uuidv4 } from "uuid"
+import { execFile } from "child_process"
+import { promisify } from "util"
+import { cropDesktopToDisplay, stitchDisplayCaptures } from "./displayCapture"
+
+const execFileAsync = promisify(execFile)
+
+// A capture tool that hangs (e.g. waiting on a portal dialog) must not block Ctrl+H forever
+const TOOL_TIMEOUT_MS = 10000
+
+type DisplayServer = "wayland" | "x11"
+
+interface CaptureTool {
+  command: string
+  /** Display server the tool works on; "any" for desktop tools that handle both */
+  displayServer: DisplayServer | "any"
+  args: (outputPath: string) => string[]
+  /** xwd writes its own format, which we convert to PNG */
+  format: "png" | "xwd"
+}
+
+// In order of preference within each display server
+const CAPTURE_TOOLS: CaptureTool[] = [
+  { command: "grim", displayServer: "wayland", args: (out) => [out], format: "png" },
+  { command: "maim", displayServer: "x11", args: (out) => [out], format: "png" },
+  { command: "scrot", displayServer: "x11", args: (out) => [out], format: "png" },
+  { command: "import", displayServer: "x11", args: (out) => ["-window", "root", out], format: "png" },
+  {
+    command: "xwd",
+    displayServer: "x11",
+    args: (out) => ["-root", "-silent", "-out", out],
+    format: "xwd"
+  },
+  { command: "gnome-screenshot", displayServer: "any", args: (out) => ["-f", out], format: "png" },
+  {
+    command: "spectacle",
+    displayServer: "any",
+    args: (out) => ["--background", "--nonotify", "--fullscreen", "--output", out],
+    format: "png"
+  }
+]
+
+const INSTALL_HINTS: Record<DisplayServer, string> = {
+  wayland:
+    "Install grim (Sway, Hyprland and other wlroots compositors), gnome-screenshot (GNOME) or spectacle (KDE Plasma).",
+  x11: "Install one of maim, scrot, ImageMagick (provides import) or xwd (x11-apps / xorg-xwd)."
+}
+
+export function getDisplayServer(): DisplayServer {
+  return process.env.WAYLAND_DISPLAY || process.env.XDG_SESSION_TYPE === "wayland"
+    ? "wayland"
+    : "x11"
+}
+
+function isExecutableOnPath(command: string): boolean {
+  const dirs = (process.env.PATH || "").split(path.delimiter).filter(Boolean)
+  return dirs.some((dir) => {
+    try {
+      fs.accessSync(path.join(dir, command), fs.constants.X_OK)
+      return true
+    } catch {
+      return false
+    }
+  })
+}
+
+/**
+ * Installed capture tools that work on the current display server, in the order they are tried
+ */
+export function getAvailableCaptureTools(): string[] {
+  const displayServer = getDisplayServer()
+  return CAPTURE_TOOLS.filter(
+    (tool) =>
+      (tool.displayServer === displayServer || tool.displayServer === "any") &&
+      isExecutableOnPath(tool.command)
+  ).map((tool) => tool.command)
+}
+
+// Channel value for an X11 colour mask, scaled to 0-255
+function readChannel(pixel: number, mask: number): number {
+  if (mask === 0) return 0
+  let shift = 0
+  while (((mask >>> shift) & 1) === 0) shift++
+  const max = mask >>> shift
+  return Math.round((((pixel & mask) >>> shift) / max) * 255)
+}
+
+/**
+ * Convert an X Window Dump (TrueColor, 24 or 32 bits per pixel) to PNG.
+ * The header is always big-endian; the pixels use the byte order it declares.
+ */
+function xwdToPng(data: Buffer): Buffer {
+  const field = (index: number) => data.readUInt32BE(index * 4)
+  const headerSize = field(0)
+  const pixmapFormat = field(2)
+  const width = field(4)
+  const height = field(5)
+  const byteOrder = field(7)
+  const bitsPerPixel = field(11)
+  const bytesPerLine = field(12)
+  const visualClass = field(13)
+  const [redMask, greenMask, blueMask] = [field(14), field(15), field(16)]
+  const colorCount = field(19)
+
+  // ZPixmap with a TrueColor (4) or DirectColor (5) visual
+  if (pixmapFormat !== 2 || (visualClass !== 4 && visualClass !== 5)) {
+    throw new Error(`unsupported xwd image (format ${pixmapFormat}, visual class ${visualClass})`)
+  }
+  if (bitsPerPixel !== 24 && bitsPerPixel !== 32) {
+    throw new Error(`unsupported xwd depth (${bitsPerPixel} bits per pixel)`)
+  }
+
+  const pixelsOffset = headerSize + colorCount * 12
+  const bytesPerPixel = bitsPerPixel / 8
+  const bgra = Buffer.alloc(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = pixelsOffset + y * bytesPerLine + x * bytesPerPixel
+      const pixel =
+        bytesPerPixel === 4
+          ? byteOrder === 0
+            ? data.readUInt32LE(offset)
+            : data.readUInt32BE(offset)
+          : byteOrder === 0
+            ? data.readUIntLE(offset, 3)
+            : data.readUIntBE(offset, 3)
+      const out = (y * width + x) * 4
+      bgra[out] = readChannel(pixel, blueMask)
+      bgra[out + 1] = readChannel(pixel, greenMask)
+      bgra[out + 2] = readChannel(pixel, redMask)
+      bgra[out + 3] = 255
+    }
+  }
+  return nativeImage.createFromBitmap(bgra, { width, height }).toPNG()
+}
+
+async function captureWithTool(tool: CaptureTool): Promise<Buffer> {
+  const tmpPath = path.join(app.getPath("temp"), `${uuidv4()}.${tool.format}`)
+  try {
+    await execFileAsync(tool.command, tool.args(tmpPath), { timeout: TOOL_TIMEOUT_MS })
+    const buffer = await fs.promises.readFile(tmpPath)
+    if (buffer.length === 0) {
+      throw new Error("produced an empty file")
+    }
+    return tool.format === "xwd" ? xwdToPng(buffer) : buffer
+  } finally {
+    await fs.promises.rm(tmpPath, { force: true })
+  }
+}
+
+// Last resort: Electron's own capture (goes through the PipeWire portal on Wayland)
+async function captureWithDesktopCapturer(displays: Display[]): Promise<Buffer> {
+  const largest = displays.reduce((a, b) =>
+    a.size.width * a.scaleFactor >= b.size.width * b.scaleFactor ? a : b
+  )
+  const sources = await desktopCapturer.getSources({
+    types: ["screen"],
+    thumbnailSize: {
+      width: Math.round(largest.size.width * largest.scaleFactor),
+      height: Math.round(largest.size.height * largest.scaleFactor)
+    }
+  })
+  // display_id is often empty on Linux; then sources follow the order of getAllDisplays()
+  const allDisplays = screen.getAllDisplays()
+  const captures = displays.map((display) => {
+    const source =
+      sources.find((s) => s.display_id === String(display.id)) ||
+      sources[allDisplays.findIndex((d) => d.id === display.id)] ||
+      sources[0]
+    if (!source || source.thumbnail.isEmpty()) {
+      throw new Error("no screen available to capture")
+    }
+    return { display, image: source.thumbnail.toPNG() }
+  })
+  return stitchDisplayCaptures(captures)
+}
+
+/**
+ * Capture the given displays as PNG with the first tool that works. The tools
+ * grab the whole desktop, so single displays are cut out of it afterwards.
+ */
+export async function captureScreenshotLinux(displays: Display[]): Promise<Buffer> {
+  const displayServer = getDisplayServer()
+  const available = getAvailableCaptureTools()
+  const tools = CAPTURE_TOOLS.filter((tool) => available.includes(tool.command))
+  const failures: string[] = []
+
+  for (const tool of tools) {
+    try {
+      const desktop = await captureWithTool(tool)
+      console.log(`Captured screenshot with ${tool.command} (${displayServer})`)
+      return displays.length === screen.getAllDisplays().length
+        ? desktop
+        : stitchDisplayCaptures(
+            displays.map((display) => ({ display, image: cropDesktopToDisplay(desktop, display) }))
+          )
+    } catch (error: any) {
+      console.warn(`Screenshot with ${tool.command} failed:`, error.message)
+      failures.push(`${tool.command}: ${error.message}`)
+    }
+  }
+
+  try {
+    const buffer = await captureWithDesktopCapturer(displays)
+    console.log(`Captured screenshot with desktopCapturer (${displayServer})`)
+    return buffer
+  } catch (error: any) {
+    console.warn("Screenshot with desktopCapturer failed:", error.message)
+    failures.push(`desktopCapturer: ${error.message}`)
+  }
+
+  const found =
+    tools.length === 0
+      ? `No screenshot tool found for ${displayServer === "wayland" ? "Wayland" : "X11"} and ${failures[0]}.`
+      : `Every screenshot tool failed (${failures.join("; ")}).`
+  throw new Error(`${found} ${INSTALL_HINTS[displayServer]}`)
+}
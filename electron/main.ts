@@ -5,6 +5,8 @@ import { ProcessingHelper } from "./ProcessingHelper"
 import { ScreenshotHelper } from "./ScreenshotHelper"
 import { ShortcutsHelper } from "./shortcuts"
 import { VoiceHelper } from "./VoiceHelper"
+import { AIClient } from "./AIClient"
+import { sessionStore } from "./SessionStore"
 import { initAutoUpdater } from "./autoUpdater"
 import * as dotenv from "dotenv"
 
@@ -33,6 +35,7 @@ const state = {
   resizeTimeout: null as NodeJS.Timeout | null,
 
   // Application helpers
+  aiClient: null as AIClient | null,
   screenshotHelper: null as ScreenshotHelper | null,
   shortcutsHelper: null as ShortcutsHelper | null,
   processingHelper: null as ProcessingHelper | null,
@@ -51,6 +54,7 @@ const state = {
     API_KEY_INVALID: "processing-api-key-invalid",
     INITIAL_START: "initial-start",
     PROBLEM_EXTRACTED: "problem-extracted",
+    SOLUTION_CHUNK: "solution-chunk",
     SOLUTION_SUCCESS: "solution-success",
     INITIAL_SOLUTION_ERROR: "solution-error",
     DEBUG_START: "debug-start",
@@ -62,6 +66,7 @@ const state = {
 // Add interfaces for helper classes
 export interface IProcessingHelperDeps {
   getScreenshotHelper: () => ScreenshotHelper | null
+  getAIClient: () => AIClient
   getMainWindow: () => BrowserWindow | null
   getView: () => "queue" | "solutions" | "debug"
   setView: (view: "queue" | "solutions" | "debug") => void
@@ -83,6 +88,7 @@ export interface IProcessingHelperDeps {
 export interface IShortcutsHelperDeps {
   getMainWindow: () => BrowserWindow | null
   takeScreenshot: () => Promise<string>
+  takeRegionScreenshot: (reuseLastRegion: boolean) => Promise<string | null>
   getImagePreview: (filepath: string) => Promise<string>
   processingHelper: ProcessingHelper | null
   clearQueues: () => void
@@ -105,8 +111,10 @@ export interface IIpcHandlerDeps {
     path: string
   ) => Promise<{ success: boolean; error?: string }>
   getImagePreview: (filepath: string) => Promise<string>
+  getScreenshotHelper: () => ScreenshotHelper | null
   processingHelper: ProcessingHelper | null
   voiceHelper: VoiceHelper | null
+  aiClient: AIClient | null
   PROCESSING_EVENTS: typeof state.PROCESSING_EVENTS
   takeScreenshot: () => Promise<string>
   getView: () => "queue" | "solutions" | "debug"
@@ -140,6 +148,10 @@ function getScreenshotHelper(): ScreenshotHelper | null {
   return state.screenshotHelper
 }
 
+function getAIClient(): AIClient {
+  return state.aiClient!
+}
+
 function getProblemInfo(): any {
   return state.problemInfo
 }
@@ -165,19 +177,78 @@ function clearQueues(): void {
 async function takeScreenshot(): Promise<string> {
   if (!state.mainWindow) throw new Error("No main window available")
   
-  const screenshotPath = await state.screenshotHelper?.takeScreenshot(
-    () => hideMainWindow(),
-    () => showMainWindow()
-  ) || ""
+  let screenshotPath = ""
+  try {
+    screenshotPath = await state.screenshotHelper?.takeScreenshot(
+      () => hideMainWindow(),
+      () => showMainWindow()
+    ) || ""
+  } catch (error: any) {
+    // Shortcut-triggered captures have no caller to show the error, so tell the renderer
+    state.mainWindow?.webContents.send("screenshot-error", error.message || String(error))
+    throw error
+  }
   
   // IMPORTANT: Sync main state view with ScreenshotHelper's view
   // ScreenshotHelper resets to "queue" when taking a new screenshot
   // We must also update main state so ProcessingHelper uses correct view
   state.view = "queue"
+
+  await reportScreenshotMatches(screenshotPath)
   
   return screenshotPath
 }
 
+// Tell the renderer when a capture repeats a queued screenshot, or shows a
+// problem from an earlier session
+async function reportScreenshotMatches(screenshotPath: string): Promise<void> {
+  const screenshotHelper = state.screenshotHelper
+  const mainWindow = state.mainWindow
+  if (!screenshotHelper || !mainWindow || !screenshotPath) return
+
+  const duplicate = screenshotHelper.getPendingDuplicate()
+  if (duplicate?.path === screenshotPath) {
+    mainWindow.webContents.send("screenshot-duplicate", {
+      path: screenshotPath,
+      preview: await screenshotHelper.getImagePreview(screenshotPath),
+      duplicateIndex: screenshotHelper.getScreenshotQueue().indexOf(duplicate.duplicateOf)
+    })
+  }
+
+  const hash = screenshotHelper.getScreenshotHash(screenshotPath)
+  const sessions = hash ? sessionStore.findSessionsByScreenshotHash(hash) : []
+  if (sessions.length > 0) {
+    mainWindow.webContents.send(
+      "screenshot-seen-before",
+      sessions.slice(0, 3).map(({ id, title, updatedAt }) => ({ id, title, updatedAt }))
+    )
+  }
+}
+
+async function takeRegionScreenshot(reuseLastRegion: boolean): Promise<string | null> {
+  if (!state.mainWindow) throw new Error("No main window available")
+
+  let screenshotPath: string | null = null
+  try {
+    screenshotPath = await state.screenshotHelper?.takeRegionScreenshot(
+      () => hideMainWindow(),
+      () => showMainWindow(),
+      reuseLastRegion
+    ) ?? null
+  } catch (error: any) {
+    state.mainWindow?.webContents.send("screenshot-error", error.message || String(error))
+    throw error
+  }
+
+  // Keep main state in sync with ScreenshotHelper, as in takeScreenshot
+  if (screenshotPath) {
+    state.view = "queue"
+    await reportScreenshotMatches(screenshotPath)
+  }
+
+  return screenshotPath
+}
+
 async function getImagePreview(filepath: string): Promise<string> {
   return state.screenshotHelper?.getImagePreview(filepath) || ""
 }
@@ -203,9 +274,11 @@ function getHasDebugged(): boolean {
 
 // Initialize helpers
 function initializeHelpers() {
+  state.aiClient = new AIClient({ getMainWindow })
   state.screenshotHelper = new ScreenshotHelper(state.view)
   state.processingHelper = new ProcessingHelper({
     getScreenshotHelper,
+    getAIClient,
     getMainWindow,
     getView,
     setView,
@@ -225,6 +298,7 @@ function initializeHelpers() {
   // Initialize voice helper
   state.voiceHelper = new VoiceHelper({
     getMainWindow,
+    getAIClient,
     getProblemInfo,
     setView,
     getLanguage: async () => {
@@ -244,6 +318,7 @@ function initializeHelpers() {
   state.shortcutsHelper = new ShortcutsHelper({
     getMainWindow,
     takeScreenshot,
+    takeRegionScreenshot,
     getImagePreview,
     processingHelper: state.processingHelper,
     clearQueues,
@@ -644,8 +719,10 @@ async function initializeApp() {
       getExtraScreenshotQueue,
       deleteScreenshot,
       getImagePreview,
+      getScreenshotHelper,
       processingHelper: state.processingHelper,
       voiceHelper: state.voiceHelper,
+      aiClient: state.aiClient,
       PROCESSING_EVENTS: state.PROCESSING_EVENTS,
       takeScreenshot,
       getView,
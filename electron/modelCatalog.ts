@@ -0,0 +1,73 @@
+// modelCatalog.ts
+// Discovers the models offered by the configured provider and caches the list in
+// electron-store, so new models show up in Settings without a code change.
+
+import Store from "electron-store"
+import {
+  AI_PROVIDERS,
+  AIProviderId,
+  GEMINI_MODELS,
+  MODEL_CATALOG_TTL_MS,
+  MODEL_DISPLAY_NAMES
+} from "./config"
+import { AIModelInfo, createAIProvider, getProviderSettings } from "./aiProviders"
+
+const store = new Store()
+
+export interface ModelCatalog {
+  provider: AIProviderId
+  models: AIModelInfo[]
+  fetchedAt: number
+  /** Set when the live list could not be fetched and a fallback is shown */
+  error?: string
+}
+
+// Built-in Gemini models, shown when the live list is unavailable
+function getBuiltInModels(provider: AIProviderId): AIModelInfo[] {
+  if (provider !== AI_PROVIDERS.GEMINI) return []
+  return Object.values(GEMINI_MODELS).map((id) => ({
+    id,
+    displayName: MODEL_DISPLAY_NAMES[id],
+    capabilities: { vision: true, audio: true, jsonMode: true }
+  }))
+}
+
+// Catalogs are cached per provider endpoint so switching servers refetches
+function getCacheId(): string {
+  const settings = getProviderSettings()
+  return settings.provider === AI_PROVIDERS.OPENAI_COMPATIBLE
+    ? `${settings.provider}|${settings.openaiBaseUrl}`
+    : settings.provider
+}
+
+/**
+ * Get the model list for the active provider, fetching it when the cached copy
+ * is missing, stale or a refresh is requested.
+ */
+export async function getModelCatalog(forceRefresh = false): Promise<ModelCatalog> {
+  const { provider } = getProviderSettings()
+  const cacheId = getCacheId()
+  const cache = (store.get("MODEL_CATALOG_CACHE") as Record<string, ModelCatalog>) || {}
+  const cached = cache[cacheId]
+
+  if (!forceRefresh && cached && Date.now() - cached.fetchedAt < MODEL_CATALOG_TTL_MS) {
+    return cached
+  }
+
+  try {
+    const models = await createAIProvider().listModels()
+    const catalog: ModelCatalog = { provider, models, fetchedAt: Date.now() }
+    store.set("MODEL_CATALOG_CACHE", { ...cache, [cacheId]: catalog })
+    console.log(`Fetched ${models.length} models from ${provider}`)
+    return catalog
+  } catch (error: any) {
+    console.warn("Failed to fetch model list:", error.message)
+    // Prefer a stale list over the built-in one
+    return {
+      provider,
+      models: cached?.models || getBuiltInModels(provider),
+      fetchedAt: cached?.fetchedAt || 0,
+      error: error.message
+    }
+  }
+}
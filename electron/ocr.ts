@@ -0,0 +1,130 @@
+// ocr.ts
+// Local text recognition with the tesseract binary. Depending on the OCR mode
+// the Extract stage gets the recognized text alongside the screenshots, or
+// instead of them, so reading a problem does not require a vision model (or,
+// with a local model configured, a network). The text is also kept to check
+// the model's extraction against.
+
+import { execFile } from "child_process"
+import { promisify } from "util"
+import Store from "electron-store"
+import { OCR_CONFIG } from "./config"
+
+const execFileAsync = promisify(execFile)
+
+const store = new Store()
+
+const STORE_KEY = "OCR_MODE"
+
+/**
+ * - image: screenshots only (no OCR)
+ * - ocr+image: recognized text plus the screenshots
+ * - ocr: recognized text only; screenshots are not sent
+ */
+export type OcrMode = "image" | "ocr+image" | "ocr"
+
+export const OCR_MODES: OcrMode[] = ["image", "ocr+image", "ocr"]
+
+export function getOcrMode(): OcrMode {
+  return (store.get(STORE_KEY) as OcrMode | undefined) || "image"
+}
+
+export function setOcrMode(mode: OcrMode): void {
+  if (!OCR_MODES.includes(mode)) {
+    throw new Error(`Unknown OCR mode: ${mode}`)
+  }
+  store.set(STORE_KEY, mode)
+  console.log(`OCR mode set to ${mode}`)
+}
+
+let tesseractVersion: Promise<string | null> | null = null
+
+/**
+ * Installed tesseract version, or null if the binary cannot be run. Checked once per launch.
+ */
+export function getTesseractVersion(): Promise<string | null> {
+  if (!tesseractVersion) {
+    tesseractVersion = execFileAsync(OCR_CONFIG.COMMAND, ["--version"], { timeout: 5000 })
+      .then(({ stdout, stderr }) => {
+        // Older releases print the version to stderr
+        const firstLine = (stdout || stderr).split("\n")[0].trim()
+        console.log(`Found ${firstLine}`)
+        return firstLine.replace(/^tesseract\s+/i, "") || "unknown"
+      })
+      .catch((error) => {
+        console.warn(`tesseract is not available (${error.message})`)
+        return null
+      })
+  }
+  return tesseractVersion
+}
+
+/**
+ * Text in one image. Inter-word spacing is preserved so code keeps its indentation.
+ */
+export async function recognizeText(imagePath: string, signal?: AbortSignal): Promise<string> {
+  const { stdout } = await execFileAsync(
+    OCR_CONFIG.COMMAND,
+    [imagePath, "stdout", "-l", OCR_CONFIG.LANGUAGES, "-c", "preserve_interword_spaces=1"],
+    { timeout: OCR_CONFIG.TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024, signal }
+  )
+  return stdout.replace(/\f/g, "").trim()
+}
+
+/**
+ * Recognized text of several screenshots, one section per image. Resolves to
+ * null when tesseract is missing or finds too little text to be useful.
+ */
+export async function recognizeScreenshots(
+  imagePaths: string[],
+  signal?: AbortSignal
+): Promise<string | null> {
+  if (!(await getTesseractVersion())) return null
+
+  const started = Date.now()
+  const sections: string[] = []
+  for (const [index, imagePath] of imagePaths.entries()) {
+    try {
+      const text = await recognizeText(imagePath, signal)
+      if (text) {
+        sections.push(imagePaths.length > 1 ? `[Screenshot ${index + 1}]\n${text}` : text)
+      }
+    } catch (error: any) {
+      if (signal?.aborted) throw error
+      console.warn(`OCR failed for ${imagePath}:`, error.message)
+    }
+  }
+
+  const text = sections.join("\n\n")
+  console.log(`OCR read ${text.length} characters from ${imagePaths.length} screenshot(s) in ${Date.now() - started}ms`)
+  return text.length >= OCR_CONFIG.MIN_TEXT_LENGTH ? text : null
+}
+
+/**
+ * OCR text as an addition to the Extract prompt
+ */
+export function formatOcrPromptSection(ocrText: string, withImages: boolean): string {
+  return [
+    "Text recognized from the screenshots by local OCR (it may contain recognition errors):",
+    "<ocr>",
+    ocrText,
+    "</ocr>",
+    withImages
+      ? "Use the screenshots to correct any OCR mistakes."
+      : "The screenshots are not attached; work from this text alone."
+  ].join("\n")
+}
+
+const significantWords = (text: string): string[] =>
+  text.toLowerCase().match(/[a-z0-9_]{4,}/g) || []
+
+/**
+ * Share of the extraction's words that also appear in the OCR text. A low value
+ * suggests the model misread the screenshots or invented details.
+ */
+export function measureOcrAgreement(extracted: string, ocrText: string): number {
+  const words = significantWords(extracted)
+  if (words.length === 0) return 1
+  const ocrWords = new Set(significantWords(ocrText))
+  return words.filter((word) => ocrWords.has(word)).length / words.length
+}
@@ -0,0 +1,81 @@
+// partialJson.ts
+// Best-effort parser for JSON that is still being streamed. Used to surface
+// solution fields to the renderer before the model has finished responding.
+
+// Upper bound on characters trimmed while looking for a parseable prefix
+const MAX_TRIM_CHARS = 256
+
+/**
+ * Close any open strings, arrays and objects in a truncated JSON document.
+ * Returns null when the text does not start a JSON object or array.
+ */
+function closeJson(text: string): string | null {
+  const stack: string[] = []
+  let inString = false
+  let escaped = false
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) {
+        escaped = false
+      } else if (char === "\\") {
+        escaped = true
+      } else if (char === '"') {
+        inString = false
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inString = true
+    } else if (char === "{") {
+      stack.push("}")
+    } else if (char === "[") {
+      stack.push("]")
+    } else if (char === "}" || char === "]") {
+      if (stack.pop() !== char) return null
+    }
+  }
+
+  let closed = text
+  if (inString) {
+    // A dangling escape (or partial \uXXXX sequence) cannot be closed as-is
+    closed = closed.replace(/\\u[0-9a-fA-F]{0,3}$/, "")
+    if (escaped) closed = closed.slice(0, -1)
+    closed += '"'
+  }
+  return closed + stack.reverse().join("")
+}
+
+/**
+ * Parse a possibly incomplete JSON object.
+ * Incomplete trailing tokens (half-written keys, literals, numbers) are dropped
+ * so the fields received so far can still be read.
+ */
+export function parsePartialJson(input: string): any | null {
+  let text = input.trimStart()
+
+  // Models sometimes wrap JSON in markdown code fences even in JSON mode
+  if (text.startsWith("```")) {
+    text = text.replace(/^```(?:json)?\s*/, "")
+  }
+
+  const start = text.search(/[{[]/)
+  if (start === -1) return null
+  text = text.slice(start).replace(/\s*```\s*$/, "")
+
+  // Trim from the end until the remaining prefix closes into valid JSON.
+  // Only the last incomplete token needs removing, so the search is bounded.
+  const minEnd = Math.max(0, text.length - MAX_TRIM_CHARS)
+  for (let end = text.length; end > minEnd; end--) {
+    const candidate = closeJson(text.slice(0, end).replace(/[\s,:]+$/, ""))
+    if (candidate === null) return null
+    try {
+      return JSON.parse(candidate)
+    } catch {
+      continue
+    }
+  }
+
+  return null
+}
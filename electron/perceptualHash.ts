@@ -0,0 +1,51 @@
+// perceptualHash.ts
+// Difference hash ("dHash") of an image: shrink it to 9x8 grey pixels and
+// record whether each pixel is brighter than its right neighbour. Captures of
+// the same screen get hashes a few bits apart even after re-encoding or small
+// changes like a blinking cursor, while different screens differ in many bits.
+
+import { NativeImage, nativeImage } from "electron"
+
+const HASH_WIDTH = 8
+const HASH_HEIGHT = 8
+
+/**
+ * 64-bit hash as 16 hex characters, or null for images Electron cannot decode
+ */
+export function computePerceptualHash(input: Buffer | NativeImage): string | null {
+  const image = Buffer.isBuffer(input) ? nativeImage.createFromBuffer(input) : input
+  if (image.isEmpty()) return null
+
+  const small = image.resize({ width: HASH_WIDTH + 1, height: HASH_HEIGHT, quality: "good" })
+  const bitmap = small.toBitmap()
+  const { width } = small.getSize()
+  const luma = (x: number, y: number) => {
+    const offset = (y * width + x) * 4
+    return 0.114 * bitmap[offset] + 0.587 * bitmap[offset + 1] + 0.299 * bitmap[offset + 2]
+  }
+
+  let hash = ""
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0
+    for (let x = 0; x < HASH_WIDTH; x++) {
+      byte = (byte << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0)
+    }
+    hash += byte.toString(16).padStart(2, "0")
+  }
+  return hash
+}
+
+/**
+ * Number of differing bits between two hashes
+ */
+export function hashDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
@@ -1,8 +1,179 @@
 console.log("Preload script starting...")
-import { contextBridge, ipcRenderer } from "electron"
+import { contextBridge, ipcRenderer, webUtils } from "electron"
 const { shell } = require("electron")
 
 // Types for the exposed Electron API
+interface AIProviderSettings {
+  provider: "gemini" | "openai-compatible" | "mock" | "replay"
+  openaiBaseUrl: string
+  openaiModel: string
+  openaiApiKey: string
+}
+
+interface AIModelInfo {
+  id: string
+  displayName: string
+  capabilities: { vision: boolean; audio: boolean; jsonMode: boolean }
+}
+
+interface ModelCatalog {
+  provider: AIProviderSettings["provider"]
+  models: AIModelInfo[]
+  fetchedAt: number
+  error?: string
+}
+
+interface UsageTotals {
+  requests: number
+  promptTokens: number
+  outputTokens: number
+  images: number
+  audioSeconds: number
+}
+
+interface DayUsage {
+  date: string
+  total: UsageTotals
+  byModel: Record<string, UsageTotals>
+  byStage: Record<string, UsageTotals>
+}
+
+interface UsageSummary {
+  today: DayUsage
+  recentDays: DayUsage[]
+  currentSession: {
+    id: string
+    startedAt: number
+    total: UsageTotals
+    byModel: Record<string, UsageTotals>
+  }
+  dailyBudget: number
+}
+
+interface PromptTemplate {
+  id: string
+  label: string
+  description: string
+  variables: string[]
+  system: string
+  user: string
+  version: number
+  isCustom: boolean
+  updatedAt: number | null
+}
+
+interface SolutionData {
+  short_answer: string | null
+  thoughts: string[]
+  code: string
+  time_complexity: string
+  space_complexity: string
+}
+
+type SessionEntry = { timestamp: number; model: string; thumbnails: string[] } & (
+  | { type: "solution"; problemStatement: string; solution: SolutionData; cached: boolean }
+  | { type: "debug"; response: string }
+  | { type: "voice"; question: string; answer: SolutionData }
+  | { type: "chat"; message: string; reply: string; code: string | null }
+)
+
+interface SessionSummary {
+  id: string
+  title: string
+  language: string
+  startedAt: number
+  updatedAt: number
+  entryCount: number
+  thumbnail: string | null
+}
+
+interface StoredSession {
+  id: string
+  title: string
+  language: string
+  startedAt: number
+  updatedAt: number
+  entries: SessionEntry[]
+}
+
+// Answer to a typed follow-up; code is the full updated code, or null if unchanged
+interface ChatReply {
+  reply: string
+  code: string | null
+  time_complexity: string | null
+  space_complexity: string | null
+}
+
+// Display a capture covers: the one under the cursor, a specific one, or all stitched together
+interface CaptureDisplaySetting {
+  mode: "cursor" | "display" | "all"
+  displayId?: number
+}
+
+interface CaptureDisplayInfo {
+  id: number
+  label: string
+  width: number
+  height: number
+  isPrimary: boolean
+}
+
+// How screenshots are prepared before they are sent to the model
+interface ImagePreprocessSettings {
+  maxEdge: number
+  grayscale: boolean
+  contrastBoost: boolean
+  encoding: "auto" | "png" | "jpeg"
+}
+
+// Whether screenshots, local OCR text or both are sent to extract the problem
+type OcrMode = "image" | "ocr+image" | "ocr"
+
+// Screenshot queue size and whether overlapping captures are stitched
+interface ScreenshotQueueSettings {
+  maxScreenshots: number
+  stitch: boolean
+}
+
+// Outcome of importing files or the clipboard; text problems are solved straight away
+interface ImportResult {
+  success: boolean
+  kind?: "images" | "text"
+  count?: number
+  canceled?: boolean
+  error?: string
+}
+
+// A capture that looks the same as a queued screenshot and waits for "replace" or "keep both"
+interface DuplicateScreenshotInfo {
+  path: string
+  preview: string
+  /** Position of the matching screenshot in the queue */
+  duplicateIndex: number
+}
+
+// Earlier session whose screenshots match a new capture
+interface MatchingSession {
+  id: string
+  title: string
+  updatedAt: number
+}
+
+// Highlighted area of an annotated screenshot, as fractions (0-1) of its size
+interface FocusRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Partial solution streamed while the model is still generating
+interface SolutionChunk {
+  short_answer: string | null
+  thoughts: string[]
+  code: string
+}
+
 interface ElectronAPI {
   updateContentDimensions: (dimensions: {
     width: number
@@ -17,9 +188,40 @@ interface ElectronAPI {
   deleteScreenshot: (
     path: string
   ) => Promise<{ success: boolean; error?: string }>
+  reorderScreenshots: (paths: string[]) => Promise<{ success: boolean; error?: string }>
+  saveAnnotatedScreenshot: (
+    path: string,
+    imageDataUrl: string,
+    focusRegions: FocusRegion[]
+  ) => Promise<{ success: boolean; error?: string }>
+  getScreenshotQueueSettings: () => Promise<{
+    success: boolean
+    settings?: ScreenshotQueueSettings
+    maxScreenshotsOptions?: number[]
+    error?: string
+  }>
+  setScreenshotQueueSettings: (
+    settings: Partial<ScreenshotQueueSettings>
+  ) => Promise<{ success: boolean; error?: string }>
   onScreenshotTaken: (
     callback: (data: { path: string; preview: string }) => void
   ) => () => void
+  onScreenshotError: (callback: (error: string) => void) => () => void
+  onScreenshotDuplicate: (callback: (data: DuplicateScreenshotInfo) => void) => () => void
+  onScreenshotSeenBefore: (callback: (sessions: MatchingSession[]) => void) => () => void
+  resolveDuplicateScreenshot: (
+    action: "replace" | "keep-both"
+  ) => Promise<{ success: boolean; path?: string; error?: string }>
+  getCaptureDisplays: () => Promise<{
+    success: boolean
+    displays?: CaptureDisplayInfo[]
+    setting?: CaptureDisplaySetting
+    error?: string
+  }>
+  setCaptureDisplay: (setting: CaptureDisplaySetting) => Promise<{ success: boolean; error?: string }>
+  importProblemFiles: (filePaths?: string[]) => Promise<ImportResult>
+  importClipboard: () => Promise<ImportResult>
+  getPathForFile: (file: File) => string
   onResetView: (callback: () => void) => () => void
   onSolutionStart: (callback: () => void) => () => void
   onDebugStart: (callback: () => void) => () => void
@@ -27,13 +229,14 @@ interface ElectronAPI {
   onSolutionError: (callback: (error: string) => void) => () => void
   onProcessingNoScreenshots: (callback: () => void) => () => void
   onProblemExtracted: (callback: (data: any) => void) => () => void
+  onSolutionChunk: (callback: (data: SolutionChunk) => void) => () => void
   onSolutionSuccess: (callback: (data: any) => void) => () => void
   onUnauthorized: (callback: () => void) => () => void
   onDebugError: (callback: (error: string) => void) => () => void
   openExternal: (url: string) => void
   toggleMainWindow: () => Promise<{ success: boolean; error?: string }>
   triggerScreenshot: () => Promise<{ success: boolean; error?: string }>
-  triggerProcessScreenshots: () => Promise<{ success: boolean; error?: string }>
+  triggerProcessScreenshots: (options?: { bypassCache?: boolean }) => Promise<{ success: boolean; error?: string }>
   triggerReset: () => Promise<{ success: boolean; error?: string }>
   triggerMoveLeft: () => Promise<{ success: boolean; error?: string }>
   triggerMoveRight: () => Promise<{ success: boolean; error?: string }>
@@ -52,6 +255,55 @@ interface ElectronAPI {
   getApiKey: () => Promise<{ success: boolean; apiKey?: string; error?: string }>
   getModel: () => Promise<{ success: boolean; model?: string; error?: string }>
   setModel: (model: string) => Promise<{ success: boolean; error?: string }>
+  getModelCatalog: (forceRefresh?: boolean) => Promise<{ success: boolean; catalog?: ModelCatalog; error?: string }>
+  getModelChain: () => Promise<{ success: boolean; chain?: string[]; isCustom?: boolean; error?: string }>
+  setModelChain: (chain: string[]) => Promise<{ success: boolean; error?: string }>
+  getResponseLanguage: () => Promise<{ success: boolean; language?: string; languages?: string[]; error?: string }>
+  setResponseLanguage: (language: string) => Promise<{ success: boolean; error?: string }>
+  getImagePreprocessing: () => Promise<{
+    success: boolean
+    settings?: ImagePreprocessSettings
+    maxEdgeOptions?: number[]
+    error?: string
+  }>
+  setImagePreprocessing: (settings: Partial<ImagePreprocessSettings>) => Promise<{ success: boolean; error?: string }>
+  getOcrSettings: () => Promise<{
+    success: boolean
+    mode?: OcrMode
+    tesseractVersion?: string | null
+    error?: string
+  }>
+  setOcrMode: (mode: OcrMode) => Promise<{ success: boolean; error?: string }>
+  getUsageSummary: () => Promise<{ success: boolean; summary?: UsageSummary; error?: string }>
+  setDailyTokenBudget: (tokens: number) => Promise<{ success: boolean; error?: string }>
+  clearUsage: () => Promise<{ success: boolean; error?: string }>
+  clearResponseCache: () => Promise<{ success: boolean; error?: string }>
+  getSessions: () => Promise<{
+    success: boolean
+    sessions?: SessionSummary[]
+    currentSessionId?: string
+    saveThumbnails?: boolean
+    error?: string
+  }>
+  getSession: (id: string) => Promise<{ success: boolean; session?: StoredSession; error?: string }>
+  deleteSession: (id: string) => Promise<{ success: boolean; error?: string }>
+  clearSessions: () => Promise<{ success: boolean; error?: string }>
+  exportSession: (
+    format: "markdown" | "html" | "pdf",
+    content: string,
+    fileName: string
+  ) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>
+  setHistoryThumbnails: (enabled: boolean) => Promise<{ success: boolean; error?: string }>
+  getPromptTemplates: () => Promise<{ success: boolean; templates?: PromptTemplate[]; error?: string }>
+  savePromptTemplate: (
+    id: string,
+    text: { system: string; user: string }
+  ) => Promise<{ success: boolean; template?: PromptTemplate; error?: string }>
+  resetPromptTemplate: (id: string) => Promise<{ success: boolean; error?: string }>
+  exportPromptTemplates: () => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>
+  importPromptTemplates: () => Promise<{ success: boolean; imported?: string[]; canceled?: boolean; error?: string }>
+  getAIProviderSettings: () => Promise<{ success: boolean; settings?: AIProviderSettings; error?: string }>
+  setAIProviderSettings: (settings: Partial<AIProviderSettings>) => Promise<{ success: boolean; error?: string }>
   setWindowFocusable: (focusable: boolean) => Promise<{ success: boolean; error?: string }>
   quitApp: () => void
   
@@ -66,6 +318,13 @@ interface ElectronAPI {
   onVoiceTranscriptionComplete: (callback: (data: { transcription: string }) => void) => () => void
   onVoiceResponse: (callback: (data: { transcription: string; response: string }) => void) => () => void
   onVoiceError: (callback: (error: string) => void) => () => void
+
+  // Follow-up chat
+  sendChatMessage: (
+    message: string,
+    code: string,
+    checkpointId?: string
+  ) => Promise<{ success: boolean; data?: ChatReply; checkpointId?: string; error?: string }>
   
   // Model events
   onModelUsed: (callback: (model: string) => void) => () => void
@@ -81,6 +340,7 @@ export const PROCESSING_EVENTS = {
   //states for generating the initial solution
   INITIAL_START: "initial-start",
   PROBLEM_EXTRACTED: "problem-extracted",
+  SOLUTION_CHUNK: "solution-chunk",
   SOLUTION_SUCCESS: "solution-success",
   INITIAL_SOLUTION_ERROR: "solution-error",
   RESET: "reset",
@@ -101,6 +361,21 @@ const electronAPI = {
   getScreenshots: () => ipcRenderer.invoke("get-screenshots"),
   deleteScreenshot: (path: string) =>
     ipcRenderer.invoke("delete-screenshot", path),
+  reorderScreenshots: (paths: string[]) =>
+    ipcRenderer.invoke("reorder-screenshots", paths),
+  saveAnnotatedScreenshot: (path: string, imageDataUrl: string, focusRegions: FocusRegion[]) =>
+    ipcRenderer.invoke("save-annotated-screenshot", path, imageDataUrl, focusRegions),
+  getScreenshotQueueSettings: () => ipcRenderer.invoke("get-screenshot-queue-settings"),
+  setScreenshotQueueSettings: (settings: Partial<ScreenshotQueueSettings>) =>
+    ipcRenderer.invoke("set-screenshot-queue-settings", settings),
+  getCaptureDisplays: () => ipcRenderer.invoke("get-capture-displays"),
+  setCaptureDisplay: (setting: CaptureDisplaySetting) =>
+    ipcRenderer.invoke("set-capture-display", setting),
+  importProblemFiles: (filePaths?: string[]) =>
+    ipcRenderer.invoke("import-problem-files", filePaths),
+  importClipboard: () => ipcRenderer.invoke("import-clipboard"),
+  // Dropped files only expose their path through webUtils
+  getPathForFile: (file: File) => webUtils.getPathForFile(file),
   toggleMainWindow: async () => {
     console.log("toggleMainWindow called from preload")
     try {
@@ -123,6 +398,29 @@ const electronAPI = {
       ipcRenderer.removeListener("screenshot-taken", subscription)
     }
   },
+  onScreenshotError: (callback: (error: string) => void) => {
+    const subscription = (_: any, error: string) => callback(error)
+    ipcRenderer.on("screenshot-error", subscription)
+    return () => {
+      ipcRenderer.removeListener("screenshot-error", subscription)
+    }
+  },
+  onScreenshotDuplicate: (callback: (data: DuplicateScreenshotInfo) => void) => {
+    const subscription = (_: any, data: DuplicateScreenshotInfo) => callback(data)
+    ipcRenderer.on("screenshot-duplicate", subscription)
+    return () => {
+      ipcRenderer.removeListener("screenshot-duplicate", subscription)
+    }
+  },
+  onScreenshotSeenBefore: (callback: (sessions: MatchingSession[]) => void) => {
+    const subscription = (_: any, sessions: MatchingSession[]) => callback(sessions)
+    ipcRenderer.on("screenshot-seen-before", subscription)
+    return () => {
+      ipcRenderer.removeListener("screenshot-seen-before", subscription)
+    }
+  },
+  resolveDuplicateScreenshot: (action: "replace" | "keep-both") =>
+    ipcRenderer.invoke("resolve-duplicate-screenshot", action),
   onResetView: (callback: () => void) => {
     const subscription = () => callback()
     ipcRenderer.on("reset-view", subscription)
@@ -193,6 +491,13 @@ const electronAPI = {
       )
     }
   },
+  onSolutionChunk: (callback: (data: SolutionChunk) => void) => {
+    const subscription = (_: any, data: SolutionChunk) => callback(data)
+    ipcRenderer.on(PROCESSING_EVENTS.SOLUTION_CHUNK, subscription)
+    return () => {
+      ipcRenderer.removeListener(PROCESSING_EVENTS.SOLUTION_CHUNK, subscription)
+    }
+  },
   onSolutionSuccess: (callback: (data: any) => void) => {
     const subscription = (_: any, data: any) => callback(data)
     ipcRenderer.on(PROCESSING_EVENTS.SOLUTION_SUCCESS, subscription)
@@ -212,8 +517,8 @@ const electronAPI = {
   },
   openExternal: (url: string) => shell.openExternal(url),
   triggerScreenshot: () => ipcRenderer.invoke("trigger-screenshot"),
-  triggerProcessScreenshots: () =>
-    ipcRenderer.invoke("trigger-process-screenshots"),
+  triggerProcessScreenshots: (options?: { bypassCache?: boolean }) =>
+    ipcRenderer.invoke("trigger-process-screenshots", options),
   triggerReset: () => ipcRenderer.invoke("trigger-reset"),
   triggerMoveLeft: () => ipcRenderer.invoke("trigger-move-left"),
   triggerMoveRight: () => ipcRenderer.invoke("trigger-move-right"),
@@ -249,6 +554,37 @@ const electronAPI = {
   getApiKey: () => ipcRenderer.invoke("get-api-key"),
   getModel: () => ipcRenderer.invoke("get-model"),
   setModel: (model: string) => ipcRenderer.invoke("set-model", model),
+  getModelCatalog: (forceRefresh?: boolean) =>
+    ipcRenderer.invoke("get-model-catalog", forceRefresh),
+  getModelChain: () => ipcRenderer.invoke("get-model-chain"),
+  setModelChain: (chain: string[]) => ipcRenderer.invoke("set-model-chain", chain),
+  getResponseLanguage: () => ipcRenderer.invoke("get-response-language"),
+  setResponseLanguage: (language: string) => ipcRenderer.invoke("set-response-language", language),
+  getImagePreprocessing: () => ipcRenderer.invoke("get-image-preprocessing"),
+  setImagePreprocessing: (settings: Partial<ImagePreprocessSettings>) =>
+    ipcRenderer.invoke("set-image-preprocessing", settings),
+  getOcrSettings: () => ipcRenderer.invoke("get-ocr-settings"),
+  setOcrMode: (mode: OcrMode) => ipcRenderer.invoke("set-ocr-mode", mode),
+  getUsageSummary: () => ipcRenderer.invoke("get-usage-summary"),
+  setDailyTokenBudget: (tokens: number) => ipcRenderer.invoke("set-daily-token-budget", tokens),
+  clearUsage: () => ipcRenderer.invoke("clear-usage"),
+  clearResponseCache: () => ipcRenderer.invoke("clear-response-cache"),
+  getSessions: () => ipcRenderer.invoke("get-sessions"),
+  getSession: (id: string) => ipcRenderer.invoke("get-session", id),
+  deleteSession: (id: string) => ipcRenderer.invoke("delete-session", id),
+  clearSessions: () => ipcRenderer.invoke("clear-sessions"),
+  exportSession: (format: "markdown" | "html" | "pdf", content: string, fileName: string) =>
+    ipcRenderer.invoke("export-session", format, content, fileName),
+  setHistoryThumbnails: (enabled: boolean) => ipcRenderer.invoke("set-history-thumbnails", enabled),
+  getPromptTemplates: () => ipcRenderer.invoke("get-prompt-templates"),
+  savePromptTemplate: (id: string, text: { system: string; user: string }) =>
+    ipcRenderer.invoke("save-prompt-template", id, text),
+  resetPromptTemplate: (id: string) => ipcRenderer.invoke("reset-prompt-template", id),
+  exportPromptTemplates: () => ipcRenderer.invoke("export-prompt-templates"),
+  importPromptTemplates: () => ipcRenderer.invoke("import-prompt-templates"),
+  getAIProviderSettings: () => ipcRenderer.invoke("get-ai-provider-settings"),
+  setAIProviderSettings: (settings: Partial<AIProviderSettings>) =>
+    ipcRenderer.invoke("set-ai-provider-settings", settings),
   setWindowFocusable: (focusable: boolean) => ipcRenderer.invoke("set-window-focusable", focusable),
   quitApp: () => ipcRenderer.invoke("quit-app"),
 
@@ -258,6 +594,8 @@ const electronAPI = {
   toggleVoiceRecording: () => ipcRenderer.invoke("toggle-voice-recording"),
   processVoiceAudio: (audioBase64: string) => ipcRenderer.invoke("process-voice-audio", audioBase64),
   getVoiceRecordingStatus: () => ipcRenderer.invoke("get-voice-recording-status"),
+  sendChatMessage: (message: string, code: string, checkpointId?: string) =>
+    ipcRenderer.invoke("send-chat-message", message, code, checkpointId),
   
   onVoiceRecordingStarted: (callback: () => void) => {
     const subscription = () => callback();
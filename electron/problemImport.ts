@@ -0,0 +1,108 @@
+// problemImport.ts
+// Problems that do not come from a screen capture: image and PDF files picked
+// in a dialog or dropped on the window, and images or text on the clipboard.
+// Images and rendered PDF pages join the screenshot queue; plain text is
+// already a problem statement and is solved without the Extract stage.
+
+import path from "node:path"
+import fs from "node:fs"
+import { app, clipboard } from "electron"
+import { execFile } from "child_process"
+import { promisify } from "util"
+import { IMPORT_CONFIG } from "./config"
+
+const execFileAsync = promisify(execFile)
+
+export const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "webp", "gif", "bmp"]
+export const TEXT_EXTENSIONS = ["txt", "md"]
+
+export interface ImportedImage {
+  data: Buffer
+  /** File extension the image is queued under */
+  extension: string
+}
+
+export type ImportedProblem =
+  | { kind: "images"; images: ImportedImage[] }
+  | { kind: "text"; text: string }
+
+const fileExtension = (filePath: string) => path.extname(filePath).slice(1).toLowerCase()
+
+/**
+ * Render the first pages of a PDF to PNG with pdftoppm
+ */
+export async function renderPdfPages(pdfPath: string, maxPages: number): Promise<Buffer[]> {
+  const outputDir = await fs.promises.mkdtemp(path.join(app.getPath("temp"), "pdf-import-"))
+  try {
+    await execFileAsync(
+      IMPORT_CONFIG.PDF_COMMAND,
+      ["-png", "-r", String(IMPORT_CONFIG.PDF_DPI), "-f", "1", "-l", String(maxPages), pdfPath, path.join(outputDir, "page")],
+      { timeout: IMPORT_CONFIG.PDF_TIMEOUT_MS }
+    )
+    // Pages are named page-1.png, page-2.png, ... (zero-padded for long documents)
+    const pages = (await fs.promises.readdir(outputDir)).filter((name) => name.endsWith(".png")).sort()
+    if (pages.length === 0) throw new Error("The PDF has no pages")
+    console.log(`Rendered ${pages.length} page(s) of ${path.basename(pdfPath)}`)
+    return Promise.all(pages.map((name) => fs.promises.readFile(path.join(outputDir, name))))
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      throw new Error("Importing PDFs requires pdftoppm (install poppler-utils, or poppler on macOS)")
+    }
+    throw error
+  } finally {
+    await fs.promises.rm(outputDir, { recursive: true, force: true })
+  }
+}
+
+function toTextProblem(text: string): ImportedProblem {
+  const trimmed = text.trim()
+  if (!trimmed) throw new Error("The text is empty")
+  if (trimmed.length > IMPORT_CONFIG.MAX_TEXT_LENGTH) {
+    throw new Error(`The text is too long (over ${IMPORT_CONFIG.MAX_TEXT_LENGTH} characters)`)
+  }
+  return { kind: "text", text: trimmed }
+}
+
+/**
+ * Read files picked or dropped by the user. Several images and PDFs are
+ * combined into one import; a text file must be imported on its own.
+ */
+export async function readProblemFiles(filePaths: string[], maxImages: number): Promise<ImportedProblem> {
+  if (filePaths.length === 0) throw new Error("No files to import")
+
+  const textFiles = filePaths.filter((filePath) => TEXT_EXTENSIONS.includes(fileExtension(filePath)))
+  if (textFiles.length > 0) {
+    if (filePaths.length > 1) throw new Error("Import a text file on its own")
+    return toTextProblem(await fs.promises.readFile(textFiles[0], "utf8"))
+  }
+
+  const images: ImportedImage[] = []
+  for (const filePath of filePaths) {
+    const extension = fileExtension(filePath)
+    if (extension === "pdf") {
+      const pages = await renderPdfPages(filePath, Math.max(1, maxImages - images.length))
+      images.push(...pages.map((data) => ({ data, extension: "png" })))
+    } else if (IMAGE_EXTENSIONS.includes(extension)) {
+      images.push({ data: await fs.promises.readFile(filePath), extension })
+    } else {
+      throw new Error(`Unsupported file type: ${path.basename(filePath)}`)
+    }
+  }
+  if (images.length > maxImages) {
+    console.warn(`Importing ${images.length} images; only the last ${maxImages} fit in the queue`)
+  }
+  return { kind: "images", images: images.slice(-maxImages) }
+}
+
+/**
+ * The clipboard's image, or its plain text if it holds no image
+ */
+export function readClipboardProblem(): ImportedProblem {
+  const image = clipboard.readImage()
+  if (!image.isEmpty()) {
+    return { kind: "images", images: [{ data: image.toPNG(), extension: "png" }] }
+  }
+  const text = clipboard.readText()
+  if (!text.trim()) throw new Error("The clipboard holds no image or text")
+  return toTextProblem(text)
+}
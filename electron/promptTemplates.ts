@@ -0,0 +1,305 @@
+// promptTemplates.ts
+// Named prompt templates for every model call. Built-in defaults live here; user
+// edits are stored in electron-store as overrides with their own version number,
+// so a prompt can be customised, exported, shared and reset without a rebuild.
+
+import Store from "electron-store"
+
+const store = new Store()
+
+export type PromptTemplateId =
+  | "extract"
+  | "solution"
+  | "debug"
+  | "transcription"
+  | "voice"
+  | "chat"
+  | "summary"
+
+export interface PromptTemplateDefinition {
+  id: PromptTemplateId
+  label: string
+  description: string
+  /** Variables the caller fills in, without braces */
+  variables: string[]
+  system: string
+  user: string
+}
+
+// A template as shown in the editor: the effective text plus where it came from
+export interface PromptTemplate extends PromptTemplateDefinition {
+  /** Built-in version for defaults, edit count for customised templates */
+  version: number
+  isCustom: boolean
+  updatedAt: number | null
+}
+
+interface StoredTemplate {
+  system: string
+  user: string
+  version: number
+  updatedAt: number
+}
+
+export interface PromptTemplateExport {
+  format: "interview-coder-prompts"
+  exportedAt: string
+  templates: Partial<Record<PromptTemplateId, { system: string; user: string }>>
+}
+
+export interface RenderedPrompt {
+  system: string
+  user: string
+  /** e.g. "solution@default-1" or "solution@custom-3", for logs and cache keys */
+  version: string
+}
+
+const STORE_KEY = "PROMPT_TEMPLATES"
+
+// Bump when a built-in template changes so logs and cache keys pick it up
+const DEFAULT_TEMPLATE_VERSION = 2
+
+const DEFAULT_TEMPLATES: Record<PromptTemplateId, PromptTemplateDefinition> = {
+  extract: {
+    id: "extract",
+    label: "Problem extraction",
+    description: "Reads the problem statement and code from the screenshots.",
+    variables: ["language", "responseLanguage"],
+    system: "You are an expert coding assistant.",
+    user: `Extract the coding problem statement AND the relevant code snippet from these images. The problem might be stated as a question (e.g., "What will this code output?"). Ensure you include the actual code itself, not just the question. Programming Language: {{language}}. Respond in {{responseLanguage}}. Return the combined problem statement and code.`
+  },
+  solution: {
+    id: "solution",
+    label: "Solution",
+    description: "Generates the structured answer, code and complexity for the extracted problem.",
+    variables: ["language", "responseLanguage", "problem"],
+    system: `You are an expert coding assistant. Analyze the provided problem and code snippet.
+Respond ENTIRELY in {{responseLanguage}}. Be concise and focus on the essential information.
+Earlier turns of the conversation, if any, come before the current problem. Use them for continuity when the current problem builds on an earlier one (e.g. "now make it iterative").
+
+Instructions:
+1.  If possible, provide a very brief, direct answer to the problem first (e.g., the final output value or a direct yes/no).
+2.  Then, provide the detailed explanation, code, and complexity analysis.
+3.  Generate a response in JSON format containing the following fields:
+    - "short_answer": (Nullable string) A very brief, direct answer to the problem, if applicable (e.g., the program's output). Use null if not applicable. MUST be in {{responseLanguage}}.
+    - "thoughts": (Array of strings) Explanation of your thought process, step-by-step. MUST be in {{responseLanguage}}.
+    - "code": (String) The corrected or proposed code solution in {{language}}. Comments within the code MUST be in {{responseLanguage}}.
+    - "time_complexity": (String) Time complexity analysis (e.g., "O(n)"). MUST be in {{responseLanguage}}.
+    - "space_complexity": (String) Space complexity analysis (e.g., "O(1)"). MUST be in {{responseLanguage}}.
+    Emit the fields in exactly this order.
+
+If the problem statement is incomplete or unclear, set "short_answer" to null, explain the issue clearly in the "thoughts" field (in {{responseLanguage}}), and set "code" to an empty string or a relevant placeholder comment (in {{responseLanguage}}).`,
+    user: "Problem and Code:\n```\n{{problem}}\n```\n\nGenerate the JSON response as described in the system prompt."
+  },
+  debug: {
+    id: "debug",
+    label: "Debug",
+    description: "Reviews the current solution against follow-up screenshots.",
+    variables: ["language", "responseLanguage", "problem", "solution"],
+    system: "You are an expert debugger. Analyze and fix this code in {{language}} language. Respond in {{responseLanguage}}.",
+    user: "Problem: {{problem}}\n\nCurrent solution: {{solution}}\n\nDebug this code."
+  },
+  transcription: {
+    id: "transcription",
+    label: "Voice transcription",
+    description: "Turns the recorded audio into text.",
+    variables: [],
+    system: "",
+    user: "Please transcribe this audio exactly as spoken. Only return the transcription, nothing else."
+  },
+  voice: {
+    id: "voice",
+    label: "Voice answer",
+    description: "Answers the transcribed voice question.",
+    variables: ["language", "responseLanguage", "context", "question"],
+    system: `You are a helpful coding interview assistant. The user is asking a question via voice about coding problems or algorithms.
+Provide clear, concise answers in {{responseLanguage}}. If they're asking about code, provide examples in {{language}}.
+Be conversational but focused on helping them understand and solve coding problems.{{context}}
+
+You MUST respond in JSON format with the following structure:
+{
+  "short_answer": "A brief, direct answer to the question (1-2 sentences). Set to null if not applicable.",
+  "code": "Code solution if applicable, otherwise empty string. Use {{language}} language.",
+  "thoughts": ["Array of strings explaining your reasoning step by step"],
+  "time_complexity": "Time complexity if code is provided, otherwise 'N/A'",
+  "space_complexity": "Space complexity if code is provided, otherwise 'N/A'"
+}
+
+IMPORTANT: Return ONLY valid JSON, no markdown code fences or other text.`,
+    user: "User's voice question: {{question}}"
+  },
+  chat: {
+    id: "chat",
+    label: "Follow-up chat",
+    description: "Answers typed follow-ups about the current solution and rewrites its code when asked.",
+    variables: ["language", "responseLanguage", "problem", "code", "message"],
+    system: `You are an expert coding assistant helping with a coding interview problem you have already solved.
+The user is sending a follow-up about the current solution. Earlier turns of the conversation, if any, come before it.
+Respond ENTIRELY in {{responseLanguage}}.
+
+Return a JSON object with these fields:
+- "reply": (String) Your answer in markdown. When you change the code, briefly say what changed and why.
+- "code": (Nullable string) The COMPLETE updated code in {{language}} when the request changes the code (e.g. optimize, add comments, convert to iterative). Never return a partial snippet or a diff. Use null when the code stays the same (e.g. explaining a line).
+- "time_complexity": (Nullable string) Time complexity of the updated code, or null when "code" is null.
+- "space_complexity": (Nullable string) Space complexity of the updated code, or null when "code" is null.`,
+    user: "Problem:\n{{problem}}\n\nCurrent code:\n```{{language}}\n{{code}}\n```\n\nFollow-up: {{message}}"
+  },
+  summary: {
+    id: "summary",
+    label: "History summary",
+    description: "Condenses older conversation turns once the history outgrows its token budget.",
+    variables: ["history"],
+    system: "You condense coding interview conversations so another assistant can continue them.",
+    user: `Summarize the conversation below for an assistant that will continue it without seeing the original.
+
+Keep:
+- Every problem statement, with its constraints and examples
+- The most recent version of each code solution, copied verbatim in a fenced code block
+- Decisions, corrections and bugs found during debugging
+- Questions that are still open
+
+Drop greetings, repeated explanations and superseded code. Write in the language of the conversation.
+
+{{history}}`
+  }
+}
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(DEFAULT_TEMPLATES) as PromptTemplateId[]
+
+function getStoredTemplates(): Partial<Record<PromptTemplateId, StoredTemplate>> {
+  return (store.get(STORE_KEY) as Partial<Record<PromptTemplateId, StoredTemplate>>) || {}
+}
+
+function assertTemplateId(id: string): asserts id is PromptTemplateId {
+  if (!PROMPT_TEMPLATE_IDS.includes(id as PromptTemplateId)) {
+    throw new Error(`Unknown prompt template: ${id}`)
+  }
+}
+
+/**
+ * Replace `{{name}}` placeholders. Unknown placeholders are left as written so a
+ * typo shows up in the preview instead of silently disappearing.
+ */
+export function renderTemplateText(text: string, variables: Record<string, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+  )
+}
+
+export function getPromptTemplate(id: PromptTemplateId): PromptTemplate {
+  assertTemplateId(id)
+  const definition = DEFAULT_TEMPLATES[id]
+  const stored = getStoredTemplates()[id]
+  if (!stored) {
+    return { ...definition, version: DEFAULT_TEMPLATE_VERSION, isCustom: false, updatedAt: null }
+  }
+  return {
+    ...definition,
+    system: stored.system,
+    user: stored.user,
+    version: stored.version,
+    isCustom: true,
+    updatedAt: stored.updatedAt
+  }
+}
+
+export function getPromptTemplates(): PromptTemplate[] {
+  return PROMPT_TEMPLATE_IDS.map(getPromptTemplate)
+}
+
+export function getDefaultPromptTemplate(id: PromptTemplateId): PromptTemplateDefinition {
+  assertTemplateId(id)
+  return DEFAULT_TEMPLATES[id]
+}
+
+/**
+ * Version label of the effective template, e.g. "solution@custom-3"
+ */
+export function getPromptTemplateVersion(id: PromptTemplateId): string {
+  const template = getPromptTemplate(id)
+  return `${id}@${template.isCustom ? "custom" : "default"}-${template.version}`
+}
+
+/**
+ * Save an edited template. Saving text identical to the default resets it instead.
+ */
+export function savePromptTemplate(
+  id: PromptTemplateId,
+  text: { system: string; user: string }
+): PromptTemplate {
+  assertTemplateId(id)
+  const definition = DEFAULT_TEMPLATES[id]
+  if (text.system === definition.system && text.user === definition.user) {
+    resetPromptTemplate(id)
+    return getPromptTemplate(id)
+  }
+
+  const stored = getStoredTemplates()
+  stored[id] = {
+    system: text.system,
+    user: text.user,
+    version: (stored[id]?.version || 0) + 1,
+    updatedAt: Date.now()
+  }
+  store.set(STORE_KEY, stored)
+  console.log(`[Prompts] Saved ${getPromptTemplateVersion(id)}`)
+  return getPromptTemplate(id)
+}
+
+export function resetPromptTemplate(id: PromptTemplateId): void {
+  assertTemplateId(id)
+  const stored = getStoredTemplates()
+  delete stored[id]
+  store.set(STORE_KEY, stored)
+  console.log(`[Prompts] Reset ${id} to default`)
+}
+
+/**
+ * Render a template with the given variables
+ */
+export function renderPrompt(
+  id: PromptTemplateId,
+  variables: Record<string, string>
+): RenderedPrompt {
+  const template = getPromptTemplate(id)
+  return {
+    system: renderTemplateText(template.system, variables),
+    user: renderTemplateText(template.user, variables),
+    version: getPromptTemplateVersion(id)
+  }
+}
+
+/**
+ * Serialise the customised templates for sharing
+ */
+export function exportPromptTemplates(): PromptTemplateExport {
+  const templates: PromptTemplateExport["templates"] = {}
+  for (const [id, stored] of Object.entries(getStoredTemplates())) {
+    templates[id as PromptTemplateId] = { system: stored!.system, user: stored!.user }
+  }
+  return { format: "interview-coder-prompts", exportedAt: new Date().toISOString(), templates }
+}
+
+/**
+ * Apply templates from an export file. Returns the ids that were imported.
+ */
+export function importPromptTemplates(data: unknown): PromptTemplateId[] {
+  const file = data as Partial<PromptTemplateExport> | null
+  if (!file || file.format !== "interview-coder-prompts" || typeof file.templates !== "object") {
+    throw new Error("Not a prompt template export file")
+  }
+
+  const imported: PromptTemplateId[] = []
+  for (const [id, text] of Object.entries(file.templates || {})) {
+    if (!PROMPT_TEMPLATE_IDS.includes(id as PromptTemplateId)) {
+      console.warn(`[Prompts] Skipping unknown template in import: ${id}`)
+      continue
+    }
+    if (typeof text?.system !== "string" || typeof text?.user !== "string") {
+      throw new Error(`Template "${id}" is missing its system or user text`)
+    }
+    savePromptTemplate(id as PromptTemplateId, { system: text.system, user: text.user })
+    imported.push(id as PromptTemplateId)
+  }
+  return imported
+}
@@ -0,0 +1,117 @@
+// responseLanguage.ts
+// The natural language explanations are written in. Persisted in electron-store
+// and read on every request, so changing it in Settings applies to the next
+// prompt without a restart. Also holds the few user-facing messages the main
+// process produces itself, translated for each supported language.
+
+import Store from "electron-store"
+
+const store = new Store()
+
+const STORE_KEY = "RESPONSE_LANGUAGE"
+
+export const RESPONSE_LANGUAGES = [
+  "English",
+  "Spanish",
+  "French",
+  "German",
+  "Portuguese",
+  "Italian",
+  "Russian",
+  "Chinese",
+  "Japanese",
+  "Korean",
+  "Hindi",
+  "Turkish"
+] as const
+
+export type ResponseLanguage = (typeof RESPONSE_LANGUAGES)[number]
+
+// Used before the user picks one; the env var is kept for existing setups
+const DEFAULT_RESPONSE_LANGUAGE: string = process.env.OPENAI_RESPONSE_LANGUAGE || "English"
+
+export function getResponseLanguage(): string {
+  return (store.get(STORE_KEY) as string) || DEFAULT_RESPONSE_LANGUAGE
+}
+
+export function setResponseLanguage(language: string): void {
+  if (!RESPONSE_LANGUAGES.includes(language as ResponseLanguage)) {
+    throw new Error(`Unsupported response language: ${language}`)
+  }
+  store.set(STORE_KEY, language)
+  console.log(`Response language set to ${language}`)
+}
+
+type MessageKey = "REQUEST_TIMED_OUT" | "REQUEST_TIMED_OUT_SHORT" | "NO_PROBLEM_INFO"
+
+const MESSAGES: Record<ResponseLanguage, Record<MessageKey, string>> = {
+  English: {
+    REQUEST_TIMED_OUT: "Request timed out. The server took too long to respond. Please try again.",
+    REQUEST_TIMED_OUT_SHORT: "Request timed out. Please try again.",
+    NO_PROBLEM_INFO: "No problem info available"
+  },
+  Spanish: {
+    REQUEST_TIMED_OUT: "La solicitud ha caducado. El servidor tardó demasiado en responder. Inténtalo de nuevo.",
+    REQUEST_TIMED_OUT_SHORT: "La solicitud ha caducado. Inténtalo de nuevo.",
+    NO_PROBLEM_INFO: "No hay información del problema disponible"
+  },
+  French: {
+    REQUEST_TIMED_OUT: "La requête a expiré. Le serveur a mis trop de temps à répondre. Veuillez réessayer.",
+    REQUEST_TIMED_OUT_SHORT: "La requête a expiré. Veuillez réessayer.",
+    NO_PROBLEM_INFO: "Aucune information sur le problème disponible"
+  },
+  German: {
+    REQUEST_TIMED_OUT: "Zeitüberschreitung der Anfrage. Der Server hat zu lange nicht geantwortet. Bitte versuche es erneut.",
+    REQUEST_TIMED_OUT_SHORT: "Zeitüberschreitung der Anfrage. Bitte versuche es erneut.",
+    NO_PROBLEM_INFO: "Keine Informationen zur Aufgabe verfügbar"
+  },
+  Portuguese: {
+    REQUEST_TIMED_OUT: "A solicitação expirou. O servidor demorou demais para responder. Tente novamente.",
+    REQUEST_TIMED_OUT_SHORT: "A solicitação expirou. Tente novamente.",
+    NO_PROBLEM_INFO: "Nenhuma informação do problema disponível"
+  },
+  Italian: {
+    REQUEST_TIMED_OUT: "La richiesta è scaduta. Il server ha impiegato troppo tempo a rispondere. Riprova.",
+    REQUEST_TIMED_OUT_SHORT: "La richiesta è scaduta. Riprova.",
+    NO_PROBLEM_INFO: "Nessuna informazione sul problema disponibile"
+  },
+  Russian: {
+    REQUEST_TIMED_OUT: "Время ожидания запроса истекло. Сервер слишком долго не отвечал. Попробуйте ещё раз.",
+    REQUEST_TIMED_OUT_SHORT: "Время ожидания запроса истекло. Попробуйте ещё раз.",
+    NO_PROBLEM_INFO: "Нет информации о задаче"
+  },
+  Chinese: {
+    REQUEST_TIMED_OUT: "请求超时。服务器响应时间过长，请重试。",
+    REQUEST_TIMED_OUT_SHORT: "请求超时，请重试。",
+    NO_PROBLEM_INFO: "没有可用的题目信息"
+  },
+  Japanese: {
+    REQUEST_TIMED_OUT: "リクエストがタイムアウトしました。サーバーの応答に時間がかかりすぎています。もう一度お試しください。",
+    REQUEST_TIMED_OUT_SHORT: "リクエストがタイムアウトしました。もう一度お試しください。",
+    NO_PROBLEM_INFO: "問題の情報がありません"
+  },
+  Korean: {
+    REQUEST_TIMED_OUT: "요청 시간이 초과되었습니다. 서버 응답이 너무 오래 걸렸습니다. 다시 시도해 주세요.",
+    REQUEST_TIMED_OUT_SHORT: "요청 시간이 초과되었습니다. 다시 시도해 주세요.",
+    NO_PROBLEM_INFO: "문제 정보가 없습니다"
+  },
+  Hindi: {
+    REQUEST_TIMED_OUT: "अनुरोध का समय समाप्त हो गया। सर्वर ने जवाब देने में बहुत अधिक समय लिया। कृपया फिर से प्रयास करें।",
+    REQUEST_TIMED_OUT_SHORT: "अनुरोध का समय समाप्त हो गया। कृपया फिर से प्रयास करें।",
+    NO_PROBLEM_INFO: "समस्या की कोई जानकारी उपलब्ध नहीं है"
+  },
+  Turkish: {
+    REQUEST_TIMED_OUT: "İstek zaman aşımına uğradı. Sunucunun yanıt vermesi çok uzun sürdü. Lütfen tekrar deneyin.",
+    REQUEST_TIMED_OUT_SHORT: "İstek zaman aşımına uğradı. Lütfen tekrar deneyin.",
+    NO_PROBLEM_INFO: "Kullanılabilir problem bilgisi yok"
+  }
+}
+
+/**
+ * A main-process message in the current response language, falling back to
+ * English for languages set through the environment that have no translation
+ */
+export function getLocalizedMessage(key: MessageKey): string {
+  const messages = MESSAGES[getResponseLanguage() as ResponseLanguage] || MESSAGES.English
+  return messages[key]
+}
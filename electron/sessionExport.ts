@@ -0,0 +1,72 @@
+// sessionExport.ts
+// Writes a session export to disk. The renderer produces the Markdown or HTML
+// (it owns the syntax highlighting theme); PDFs are printed from that HTML in a
+// hidden window so they look exactly like the HTML export.
+
+import path from "node:path"
+import fs from "node:fs"
+import { app, BrowserWindow, dialog } from "electron"
+
+export type SessionExportFormat = "markdown" | "html" | "pdf"
+
+const FORMAT_FILTERS: Record<SessionExportFormat, { name: string; extensions: string[] }> = {
+  markdown: { name: "Markdown", extensions: ["md"] },
+  html: { name: "HTML", extensions: ["html"] },
+  pdf: { name: "PDF", extensions: ["pdf"] }
+}
+
+async function printHtmlToPdf(html: string): Promise<Buffer> {
+  // Loaded from a temp file: thumbnails make the document too large for a data URL
+  const tempPath = path.join(app.getPath("temp"), `session-export-${Date.now()}.html`)
+  fs.writeFileSync(tempPath, html)
+
+  const printWindow = new BrowserWindow({
+    show: false,
+    webPreferences: { javascript: false }
+  })
+  try {
+    await printWindow.loadFile(tempPath)
+    return await printWindow.webContents.printToPDF({
+      printBackground: true,
+      pageSize: "A4",
+      margins: { marginType: "default" }
+    })
+  } finally {
+    printWindow.destroy()
+    fs.rmSync(tempPath, { force: true })
+  }
+}
+
+/**
+ * Ask where to save the export and write it. Returns null when the user cancels.
+ * For PDF, `content` is the HTML export.
+ */
+export async function saveSessionExport(
+  parent: BrowserWindow | null,
+  format: SessionExportFormat,
+  content: string,
+  fileName: string
+): Promise<string | null> {
+  const filter = FORMAT_FILTERS[format]
+  if (!filter) {
+    throw new Error(`Unsupported export format: ${format}`)
+  }
+
+  const options = {
+    title: "Export Session",
+    defaultPath: path.join(app.getPath("documents"), `${fileName}.${filter.extensions[0]}`),
+    filters: [filter]
+  }
+  const { canceled, filePath } = parent
+    ? await dialog.showSaveDialog(parent, options)
+    : await dialog.showSaveDialog(options)
+  if (canceled || !filePath) return null
+
+  if (format === "pdf") {
+    fs.writeFileSync(filePath, await printHtmlToPdf(content))
+  } else {
+    fs.writeFileSync(filePath, content, "utf8")
+  }
+  console.log(`Session exported to ${filePath}`)
+  return filePath
+}
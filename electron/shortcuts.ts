@@ -1,6 +1,8 @@
 import { globalShortcut, app } from "electron"
 import { IShortcutsHelperDeps } from "./main"
-import { clearConversationHistory } from "./ProcessingHelper"
+import { conversationHistory } from "./ConversationHistory"
+import { usageTracker } from "./UsageTracker"
+import { sessionStore } from "./SessionStore"
 
 export class ShortcutsHelper {
   private deps: IShortcutsHelperDeps
@@ -9,6 +11,19 @@ export class ShortcutsHelper {
     this.deps = deps
   }
 
+  private async sendScreenshotToRenderer(screenshotPath: string): Promise<void> {
+    const mainWindow = this.deps.getMainWindow()
+    if (!mainWindow) return
+    console.log("Screenshot saved at:", screenshotPath)
+    const preview = await this.deps.getImagePreview(screenshotPath)
+    console.log("Preview generated, sending screenshot-taken event to renderer")
+    mainWindow.webContents.send("screenshot-taken", {
+      path: screenshotPath,
+      preview
+    })
+    console.log("screenshot-taken event sent successfully")
+  }
+
   public registerShortcuts(): void {
     globalShortcut.register("CommandOrControl+H", async () => {
       const mainWindow = this.deps.getMainWindow()
@@ -16,24 +31,47 @@ export class ShortcutsHelper {
         console.log("=== Taking screenshot (Cmd+H) ===")
         try {
           const screenshotPath = await this.deps.takeScreenshot()
-          console.log("Screenshot saved at:", screenshotPath)
-          const preview = await this.deps.getImagePreview(screenshotPath)
-          console.log("Preview generated, sending screenshot-taken event to renderer")
-          mainWindow.webContents.send("screenshot-taken", {
-            path: screenshotPath,
-            preview
-          })
-          console.log("screenshot-taken event sent successfully")
+          await this.sendScreenshotToRenderer(screenshotPath)
         } catch (error) {
           console.error("Error capturing screenshot:", error)
         }
       }
     })
 
+    // Region capture: drag a rectangle on a frozen copy of the screen
+    globalShortcut.register("CommandOrControl+Shift+H", async () => {
+      if (!this.deps.getMainWindow()) return
+      console.log("=== Taking region screenshot (Cmd+Shift+H) ===")
+      try {
+        const screenshotPath = await this.deps.takeRegionScreenshot(false)
+        if (screenshotPath) await this.sendScreenshotToRenderer(screenshotPath)
+      } catch (error) {
+        console.error("Error capturing region screenshot:", error)
+      }
+    })
+
+    // Re-capture the last selected region without the overlay
+    globalShortcut.register("CommandOrControl+Alt+H", async () => {
+      if (!this.deps.getMainWindow()) return
+      console.log("=== Re-capturing last region (Cmd+Alt+H) ===")
+      try {
+        const screenshotPath = await this.deps.takeRegionScreenshot(true)
+        if (screenshotPath) await this.sendScreenshotToRenderer(screenshotPath)
+      } catch (error) {
+        console.error("Error re-capturing region screenshot:", error)
+      }
+    })
+
     globalShortcut.register("CommandOrControl+Enter", async () => {
       await this.deps.processingHelper?.processScreenshots()
     })
 
+    // Same as above, but skips the response cache and always asks the model
+    globalShortcut.register("CommandOrControl+Shift+Enter", async () => {
+      console.log("Command/Ctrl + Shift + Enter pressed. Processing without cache.")
+      await this.deps.processingHelper?.processScreenshots({ bypassCache: true })
+    })
+
     globalShortcut.register("CommandOrControl+R", () => {
       console.log(
         "Command + R pressed. Canceling requests and resetting queues..."
@@ -45,8 +83,10 @@ export class ShortcutsHelper {
       // Clear both screenshot queues
       this.deps.clearQueues()
       
-      // Clear conversation history
-      clearConversationHistory()
+      // Clear conversation history and start new usage and history sessions
+      conversationHistory.clear()
+      usageTracker.startSession()
+      sessionStore.startSession()
 
       console.log("Cleared queues.")
 
@@ -0,0 +1,207 @@
+// solutionSchema.ts
+// Typed schema for the solution payload returned by the model, plus runtime
+// validation so malformed responses are caught field by field.
+
+export interface SolutionPayload {
+  short_answer: string | null
+  thoughts: string[]
+  code: string
+  time_complexity: string
+  space_complexity: string
+}
+
+/**
+ * JSON Schema sent to providers that support constrained output
+ * (Gemini responseJsonSchema, OpenAI response_format json_schema).
+ * Properties are listed in the order the model should emit them for streaming.
+ */
+export const SOLUTION_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    short_answer: {
+      type: ["string", "null"],
+      description: "A very brief, direct answer to the problem, or null if not applicable"
+    },
+    thoughts: {
+      type: "array",
+      items: { type: "string" },
+      description: "Step-by-step explanation of the thought process"
+    },
+    code: {
+      type: "string",
+      description: "The corrected or proposed code solution"
+    },
+    time_complexity: {
+      type: "string",
+      description: "Time complexity analysis, e.g. O(n)"
+    },
+    space_complexity: {
+      type: "string",
+      description: "Space complexity analysis, e.g. O(1)"
+    }
+  },
+  required: ["short_answer", "thoughts", "code", "time_complexity", "space_complexity"]
+} as const
+
+export interface SolutionValidationResult {
+  /** The validated payload, or null when validation failed */
+  data: SolutionPayload | null
+  /** One message per invalid field */
+  errors: string[]
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+/**
+ * Strip markdown code fences that some models add around JSON
+ */
+export function extractJsonText(raw: string): string {
+  const trimmed = raw.trim()
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/)
+  return fenced ? fenced[1].trim() : trimmed
+}
+
+/**
+ * Validate an already-parsed value against the solution schema
+ */
+export function validateSolutionPayload(value: unknown): SolutionValidationResult {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { data: null, errors: [`response must be a JSON object (got ${describeType(value)})`] }
+  }
+
+  const candidate = value as Record<string, unknown>
+  const errors: string[] = []
+
+  const shortAnswer = candidate.short_answer ?? null
+  if (shortAnswer !== null && typeof shortAnswer !== "string") {
+    errors.push(`"short_answer" must be a string or null (got ${describeType(shortAnswer)})`)
+  }
+
+  if (!Array.isArray(candidate.thoughts)) {
+    errors.push(`"thoughts" must be an array of strings (got ${describeType(candidate.thoughts)})`)
+  } else {
+    candidate.thoughts.forEach((thought, index) => {
+      if (typeof thought !== "string") {
+        errors.push(`"thoughts[${index}]" must be a string (got ${describeType(thought)})`)
+      }
+    })
+  }
+
+  for (const field of ["code", "time_complexity", "space_complexity"] as const) {
+    if (typeof candidate[field] !== "string") {
+      errors.push(`"${field}" must be a string (got ${describeType(candidate[field])})`)
+    }
+  }
+
+  if (errors.length > 0) {
+    return { data: null, errors }
+  }
+
+  return {
+    errors: [],
+    data: {
+      short_answer: (shortAnswer as string | null) || null,
+      thoughts: candidate.thoughts as string[],
+      code: candidate.code as string,
+      time_complexity: (candidate.time_complexity as string) || "N/A",
+      space_complexity: (candidate.space_complexity as string) || "N/A"
+    }
+  }
+}
+
+/**
+ * Parse raw model output and validate it against the solution schema
+ */
+export function parseSolutionPayload(raw: string): SolutionValidationResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(extractJsonText(raw))
+  } catch (error: any) {
+    return { data: null, errors: [`response is not valid JSON (${error.message})`] }
+  }
+  return validateSolutionPayload(parsed)
+}
+
+/**
+ * Answer to a typed follow-up in the Solutions view
+ */
+export interface ChatReplyPayload {
+  reply: string
+  /** The full updated code, or null when the answer leaves the code unchanged */
+  code: string | null
+  time_complexity: string | null
+  space_complexity: string | null
+}
+
+export const CHAT_REPLY_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    reply: {
+      type: "string",
+      description: "Answer to the follow-up, in markdown"
+    },
+    code: {
+      type: ["string", "null"],
+      description: "The complete updated code when the request changes it, otherwise null"
+    },
+    time_complexity: {
+      type: ["string", "null"],
+      description: "Time complexity of the updated code, or null when the code is unchanged"
+    },
+    space_complexity: {
+      type: ["string", "null"],
+      description: "Space complexity of the updated code, or null when the code is unchanged"
+    }
+  },
+  required: ["reply", "code", "time_complexity", "space_complexity"]
+} as const
+
+export interface ChatReplyValidationResult {
+  data: ChatReplyPayload | null
+  errors: string[]
+}
+
+/**
+ * Parse raw model output and validate it against the chat reply schema
+ */
+export function parseChatReplyPayload(raw: string): ChatReplyValidationResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(extractJsonText(raw))
+  } catch (error: any) {
+    return { data: null, errors: [`response is not valid JSON (${error.message})`] }
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { data: null, errors: [`response must be a JSON object (got ${describeType(parsed)})`] }
+  }
+
+  const candidate = parsed as Record<string, unknown>
+  const errors: string[] = []
+  if (typeof candidate.reply !== "string") {
+    errors.push(`"reply" must be a string (got ${describeType(candidate.reply)})`)
+  }
+  for (const field of ["code", "time_complexity", "space_complexity"] as const) {
+    const value = candidate[field] ?? null
+    if (value !== null && typeof value !== "string") {
+      errors.push(`"${field}" must be a string or null (got ${describeType(value)})`)
+    }
+  }
+  if (errors.length > 0) {
+    return { data: null, errors }
+  }
+
+  // An empty string means "no change" just as null does
+  return {
+    errors: [],
+    data: {
+      reply: candidate.reply as string,
+      code: (candidate.code as string | null) || null,
+      time_complexity: (candidate.time_complexity as string | null) || null,
+      space_complexity: (candidate.space_complexity as string | null) || null
+    }
+  }
+}
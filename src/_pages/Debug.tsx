@@ -175,6 +175,11 @@ const Debug: React.FC<DebugProps> = ({
     }
   }, [queryClient, setIsProcessing])
 
+  // Control window focusability based on the commands panel
+  useEffect(() => {
+    window.electronAPI.setWindowFocusable(tooltipVisible)
+  }, [tooltipVisible])
+
   const handleTooltipVisibilityChange = (visible: boolean, height: number) => {
     setTooltipVisible(visible)
     setTooltipHeight(height)
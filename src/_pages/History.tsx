@@ -0,0 +1,330 @@
+// History.tsx
+import React, { useState, useEffect } from "react"
+import {
+  ArrowLeft,
+  Trash2,
+  X,
+  Image as ImageIcon,
+  Mic,
+  Bug,
+  FileCode,
+  MessageSquare
+} from "lucide-react"
+import {
+  ComplexitySection,
+  ContentSection,
+  SolutionSection,
+  ThoughtsList
+} from "./Solutions"
+import { useToast } from "../contexts/toast"
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit"
+  })
+
+const Thumbnails = ({ thumbnails }: { thumbnails: string[] }) =>
+  thumbnails.length > 0 ? (
+    <div className="flex gap-2 flex-wrap">
+      {thumbnails.map((thumbnail, index) => (
+        <img
+          key={index}
+          src={thumbnail}
+          alt={`Screenshot ${index + 1}`}
+          className="h-16 rounded-md border border-white/10 object-cover"
+        />
+      ))}
+    </div>
+  ) : null
+
+// Solved problem or voice answer, laid out like the Solutions view
+const SolutionBody = ({
+  solution,
+  language
+}: {
+  solution: SolutionData
+  language: string
+}) => (
+  <>
+    {solution.short_answer && solution.short_answer.trim() !== "" && (
+      <ContentSection title="Short Answer" content={solution.short_answer} isLoading={false} />
+    )}
+    <ContentSection
+      title="Explanation"
+      content={<ThoughtsList thoughts={solution.thoughts} />}
+      isLoading={false}
+    />
+    {solution.code && (
+      <SolutionSection
+        title="Solution"
+        content={solution.code}
+        isLoading={false}
+        currentLanguage={language}
+      />
+    )}
+    <ComplexitySection
+      timeComplexity={solution.time_complexity}
+      spaceComplexity={solution.space_complexity}
+      isLoading={false}
+    />
+  </>
+)
+
+const EntryHeader = ({
+  icon: Icon,
+  label,
+  entry
+}: {
+  icon: React.ElementType
+  label: string
+  entry: SessionEntry
+}) => (
+  <div className="flex items-center gap-2 pb-3 border-b border-white/[0.06]">
+    <Icon className="w-3.5 h-3.5 text-white/50" />
+    <span className="text-[10px] text-white/60 uppercase tracking-wider">{label}</span>
+    <span className="text-[10px] text-white/30">{formatDate(entry.timestamp)}</span>
+    {entry.model && (
+      <span className="ml-auto text-[10px] text-white/40 uppercase tracking-wider">
+        {entry.model}
+        {entry.type === "solution" && entry.cached && " · cached"}
+      </span>
+    )}
+  </div>
+)
+
+const SessionEntryView = ({ entry, language }: { entry: SessionEntry; language: string }) => (
+  <div className="w-full glass-panel rounded-xl overflow-hidden">
+    <div className="px-4 py-4 space-y-4">
+      {entry.type === "solution" && (
+        <>
+          <EntryHeader icon={FileCode} label="Solution" entry={entry} />
+          <Thumbnails thumbnails={entry.thumbnails} />
+          <ContentSection title="Problem Statement" content={entry.problemStatement} isLoading={false} />
+          <SolutionBody solution={entry.solution} language={language} />
+        </>
+      )}
+      {entry.type === "debug" && (
+        <>
+          <EntryHeader icon={Bug} label="Debug" entry={entry} />
+          <Thumbnails thumbnails={entry.thumbnails} />
+          <ContentSection title="What I Changed" content={entry.response} isLoading={false} />
+        </>
+      )}
+      {entry.type === "voice" && (
+        <>
+          <EntryHeader icon={Mic} label="Voice" entry={entry} />
+          <ContentSection title="Voice Question" content={entry.question} isLoading={false} />
+          <SolutionBody solution={entry.answer} language={language} />
+        </>
+      )}
+      {entry.type === "chat" && (
+        <>
+          <EntryHeader icon={MessageSquare} label="Follow-up" entry={entry} />
+          <ContentSection title="Question" content={entry.message} isLoading={false} />
+          <ContentSection title="Reply" content={entry.reply} isLoading={false} />
+          {entry.code && (
+            <SolutionSection
+              title="Updated Solution"
+              content={entry.code}
+              isLoading={false}
+              currentLanguage={language}
+            />
+          )}
+        </>
+      )}
+    </div>
+  </div>
+)
+
+interface HistoryProps {
+  // Session to show instead of the list when History opens
+  initialSessionId?: string
+  onClose: () => void
+}
+
+// Past sessions, reopened read-only in the Solutions layout
+const History: React.FC<HistoryProps> = ({ initialSessionId, onClose }) => {
+  const { showToast } = useToast()
+  const [sessions, setSessions] = useState<SessionSummary[] | null>(null)
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null)
+  const [saveThumbnails, setSaveThumbnails] = useState(true)
+  const [openSession, setOpenSession] = useState<StoredSession | null>(null)
+
+  const loadSessions = async () => {
+    try {
+      const result = await window.electronAPI.getSessions()
+      if (result.success) {
+        setSessions(result.sessions || [])
+        setCurrentSessionId(result.currentSessionId || null)
+        setSaveThumbnails(result.saveThumbnails ?? true)
+      }
+    } catch (error) {
+      console.error("Error loading sessions:", error)
+      setSessions([])
+    }
+  }
+
+  useEffect(() => {
+    loadSessions()
+    if (initialSessionId) handleOpen(initialSessionId)
+
+    // The list scrolls and has buttons, so the window needs to take focus
+    window.electronAPI.setWindowFocusable(true)
+    return () => {
+      window.electronAPI.setWindowFocusable(false)
+    }
+  }, [])
+
+  const handleOpen = async (id: string) => {
+    try {
+      const result = await window.electronAPI.getSession(id)
+      if (result.success && result.session) {
+        setOpenSession(result.session)
+      } else {
+        showToast("Error", result.error || "Failed to open session", "error")
+      }
+    } catch (error) {
+      console.error("Error opening session:", error)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await window.electronAPI.deleteSession(id)
+      loadSessions()
+    } catch (error) {
+      console.error("Error deleting session:", error)
+    }
+  }
+
+  const handleClearAll = async () => {
+    try {
+      await window.electronAPI.clearSessions()
+      loadSessions()
+    } catch (error) {
+      console.error("Error clearing sessions:", error)
+    }
+  }
+
+  const handleToggleThumbnails = async () => {
+    try {
+      const result = await window.electronAPI.setHistoryThumbnails(!saveThumbnails)
+      if (result.success) setSaveThumbnails(!saveThumbnails)
+    } catch (error) {
+      console.error("Error updating thumbnail setting:", error)
+    }
+  }
+
+  if (openSession) {
+    return (
+      <div className="w-full min-w-0 px-4 py-4 space-y-4">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setOpenSession(null)}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-[#0a0a0a]/90 border border-white/10 rounded-full text-xs text-white/70 hover:text-white transition-colors cursor-interactive"
+          >
+            <ArrowLeft className="w-3.5 h-3.5" />
+            All sessions
+          </button>
+          <span className="text-xs text-white/50 truncate">
+            {openSession.title} · {formatDate(openSession.startedAt)}
+          </span>
+        </div>
+        <div className="max-h-[80vh] overflow-y-auto custom-scrollbar space-y-4">
+          {openSession.entries.map((entry, index) => (
+            <SessionEntryView key={index} entry={entry} language={openSession.language} />
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full min-w-[360px] px-4 py-4">
+      <div className="w-full glass-panel rounded-xl overflow-hidden">
+        <div className="px-4 py-4 space-y-3">
+          <div className="flex items-center justify-between pb-3 border-b border-white/[0.06]">
+            <span className="text-sm font-medium text-white/90">Session History</span>
+            <button
+              onClick={onClose}
+              className="text-white/50 hover:text-white transition-colors cursor-interactive"
+              title="Close history"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {sessions === null ? (
+            <p className="text-xs text-white/40">Loading sessions...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-xs text-white/40">
+              No saved sessions yet. Solved problems, debug rounds and voice answers are saved here automatically.
+            </p>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto custom-scrollbar space-y-1.5">
+              {sessions.map((session) => (
+                <div
+                  key={session.id}
+                  onClick={() => handleOpen(session.id)}
+                  className="flex items-center gap-3 p-2 rounded-lg bg-white/[0.03] border border-white/[0.06] hover:bg-white/[0.06] transition-colors cursor-interactive"
+                >
+                  {session.thumbnail ? (
+                    <img
+                      src={session.thumbnail}
+                      alt=""
+                      className="w-14 h-10 rounded object-cover border border-white/10 shrink-0"
+                    />
+                  ) : (
+                    <div className="w-14 h-10 rounded bg-white/5 flex items-center justify-center shrink-0">
+                      <ImageIcon className="w-4 h-4 text-white/20" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs text-white/90 truncate">{session.title}</div>
+                    <div className="text-[10px] text-white/40">
+                      {formatDate(session.startedAt)} · {session.language} · {session.entryCount}{" "}
+                      {session.entryCount === 1 ? "entry" : "entries"}
+                      {session.id === currentSessionId && (
+                        <span className="text-emerald-400/80"> · current</span>
+                      )}
+                    </div>
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleDelete(session.id)
+                    }}
+                    className="text-white/30 hover:text-red-400 transition-colors cursor-interactive"
+                    title="Delete session"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between pt-3 border-t border-white/[0.06] text-[10px] text-white/40">
+            <label className="flex items-center gap-1.5 cursor-interactive">
+              <input type="checkbox" checked={saveThumbnails} onChange={handleToggleThumbnails} />
+              Save screenshot thumbnails
+            </label>
+            {sessions && sessions.length > 0 && (
+              <button
+                onClick={handleClearAll}
+                className="hover:text-red-400 transition-colors cursor-interactive"
+              >
+                Clear all
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default History
@@ -2,6 +2,8 @@ import React, { useState, useEffect, useRef } from "react"
 import { useQuery } from "@tanstack/react-query"
 import ScreenshotQueue from "../components/Queue/ScreenshotQueue"
 import QueueCommands from "../components/Queue/QueueCommands"
+import ScreenshotMatchNotice from "../components/Queue/ScreenshotMatchNotice"
+import AnnotationEditor from "../components/Queue/AnnotationEditor"
 
 import { useToast } from "../contexts/toast"
 import { Screenshot } from "../types/screenshots"
@@ -35,6 +37,7 @@ const Queue: React.FC<QueueProps> = ({
   const [isTooltipVisible, setIsTooltipVisible] = useState(false)
   const [tooltipHeight, setTooltipHeight] = useState(0)
   const [isPanelOpen, setIsPanelOpen] = useState(false)
+  const [annotatingPath, setAnnotatingPath] = useState<string | null>(null)
   const contentRef = useRef<HTMLDivElement>(null)
 
   const {
@@ -68,6 +71,43 @@ const Queue: React.FC<QueueProps> = ({
     }
   }
 
+  const handleReorderScreenshots = async (paths: string[]) => {
+    try {
+      const response = await window.electronAPI.reorderScreenshots(paths)
+      if (!response.success) {
+        console.error("Failed to reorder screenshots:", response.error)
+        showToast("Error", "Failed to reorder the screenshots", "error")
+      }
+    } catch (error) {
+      console.error("Error reordering screenshots:", error)
+    } finally {
+      refetch()
+    }
+  }
+
+  // Files dragged in from outside the app; dragging a thumbnail carries no files
+  const handleDragOver = (e: React.DragEvent) => {
+    if (e.dataTransfer.types.includes("Files")) e.preventDefault()
+  }
+
+  const handleDrop = async (e: React.DragEvent) => {
+    const files = Array.from(e.dataTransfer.files)
+    if (files.length === 0) return
+    e.preventDefault()
+    try {
+      const result = await window.electronAPI.importProblemFiles(
+        files.map((file) => window.electronAPI.getPathForFile(file))
+      )
+      if (result.success && result.kind === "text") {
+        showToast("Processing", "Solving the dropped problem...", "neutral")
+      } else if (!result.success) {
+        showToast("Import Failed", result.error || "Could not import the dropped files", "error")
+      }
+    } catch (error) {
+      console.error("Error importing dropped files:", error)
+    }
+  }
+
   useEffect(() => {
     // Height update logic
     const updateDimensions = () => {
@@ -142,6 +182,9 @@ const Queue: React.FC<QueueProps> = ({
     }
   }, [isTooltipVisible, tooltipHeight, isPanelOpen])
 
+  // Closes by itself if the screenshot leaves the queue while it is being edited
+  const annotatedScreenshot = screenshots.find((screenshot) => screenshot.path === annotatingPath)
+
   const handleTooltipVisibilityChange = (visible: boolean, height: number) => {
     setIsTooltipVisible(visible)
     setTooltipHeight(height)
@@ -150,13 +193,31 @@ const Queue: React.FC<QueueProps> = ({
   return (
     <div
       ref={contentRef}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
       className={`bg-transparent w-full min-w-[120px] p-4 flex flex-col items-center gap-4 transition-all duration-300 ease-in-out`}
     >
-      <ScreenshotQueue
-        isLoading={false}
-        screenshots={screenshots}
-        onDeleteScreenshot={handleDeleteScreenshot}
-      />
+      {annotatedScreenshot ? (
+        <AnnotationEditor
+          key={annotatedScreenshot.path}
+          screenshot={annotatedScreenshot}
+          onClose={() => setAnnotatingPath(null)}
+          onSaved={() => {
+            setAnnotatingPath(null)
+            refetch()
+          }}
+        />
+      ) : (
+        <ScreenshotQueue
+          isLoading={false}
+          screenshots={screenshots}
+          onDeleteScreenshot={handleDeleteScreenshot}
+          onReorder={handleReorderScreenshots}
+          onAnnotate={(index) => setAnnotatingPath(screenshots[index].path)}
+        />
+      )}
+
+      <ScreenshotMatchNotice onQueueChanged={() => refetch()} />
 
       <QueueCommands
         onTooltipVisibilityChange={handleTooltipVisibilityChange}
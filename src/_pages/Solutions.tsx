@@ -1,5 +1,5 @@
 // Solutions.tsx
-import React, { useState, useEffect, useRef } from "react"
+import React, { useState, useEffect, useRef, useMemo } from "react"
 import { useQuery, useQueryClient } from "@tanstack/react-query"
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter"
 import { dracula } from "react-syntax-highlighter/dist/esm/styles/prism"
@@ -11,13 +11,18 @@ import "katex/dist/katex.min.css"
 
 import { ProblemStatementData } from "../types/solutions"
 import SolutionCommands from "../components/Solutions/SolutionCommands"
+import SolutionChat from "../components/Solutions/SolutionChat"
+import VersionSwitcher from "../components/Solutions/VersionSwitcher"
+import VersionCompare from "../components/Solutions/VersionCompare"
 import Debug from "./Debug"
 import { useToast } from "../contexts/toast"
 import { COMMAND_KEY } from "../utils/platform"
 import { normalizeScreenshotsResponse } from "../utils/screenshots"
+import { diffLines } from "../utils/lineDiff"
+import { getVersionPath, SolutionVersion } from "../utils/solutionVersions"
 
 // Markdown renderer component for consistent styling
-const MarkdownContent: React.FC<{ content: string }> = ({ content }) => (
+export const MarkdownContent: React.FC<{ content: string }> = ({ content }) => (
   <ReactMarkdown
     remarkPlugins={[remarkGfm, remarkMath]}
     rehypePlugins={[rehypeKatex]}
@@ -109,21 +114,29 @@ export const ContentSection = ({
   </div>
 )
 
-const SolutionSection = ({
+export const SolutionSection = ({
   title,
   content,
   isLoading,
-  currentLanguage
+  currentLanguage,
+  changedLines
 }: {
   title: string
   content: React.ReactNode
   isLoading: boolean
   currentLanguage: string
+  /** 1-based lines highlighted as changed by the last follow-up */
+  changedLines?: number[]
 }) => (
   <div className="space-y-2 w-full slide-up">
     <h2 className="text-xs font-medium text-white/60 uppercase tracking-wider flex items-center gap-2">
       <div className="w-0.5 h-3 rounded-full bg-emerald-500" />
       {title}
+      {changedLines && changedLines.length > 0 && (
+        <span className="ml-auto normal-case tracking-normal text-[10px] text-emerald-400/80">
+          {changedLines.length} {changedLines.length === 1 ? "line" : "lines"} changed
+        </span>
+      )}
     </h2>
     {isLoading ? (
       <div className="mt-3 flex items-center gap-2">
@@ -148,6 +161,17 @@ const SolutionSection = ({
             lineHeight: "1.6"
           }}
           wrapLongLines={true}
+          lineProps={(lineNumber: number) =>
+            changedLines?.includes(lineNumber)
+              ? {
+                  style: {
+                    display: "block",
+                    backgroundColor: "rgba(16, 185, 129, 0.15)",
+                    boxShadow: "inset 2px 0 0 rgba(16, 185, 129, 0.8)"
+                  }
+                }
+              : {}
+          }
         >
           {content as string}
         </SyntaxHighlighter>
@@ -156,6 +180,23 @@ const SolutionSection = ({
   </div>
 )
 
+// Numbered explanation steps
+export const ThoughtsList = ({ thoughts }: { thoughts: string[] }) => (
+  <div className="space-y-1.5">
+    {thoughts.map((thought, index) => (
+      <div
+        key={index}
+        className="flex items-start gap-2 p-2 rounded-lg hover:bg-white/[0.02] transition-colors"
+      >
+        <span className="text-[10px] font-medium text-indigo-400 mt-0.5 shrink-0">{index + 1}.</span>
+        <div className="text-white/80 text-sm flex-1">
+          <MarkdownContent content={thought} />
+        </div>
+      </div>
+    ))}
+  </div>
+)
+
 export const ComplexitySection = ({
   timeComplexity,
   spaceComplexity,
@@ -213,9 +254,21 @@ const Solutions: React.FC<SolutionsProps> = ({
   const [thoughtsData, setThoughtsData] = useState<string[] | null>(null);
   const [timeComplexityData, setTimeComplexityData] = useState<string | null>(null);
   const [spaceComplexityData, setSpaceComplexityData] = useState<string | null>(null); // Corrected syntax: removed extra closing parenthesis and duplicate line
+  // True while solution fields are still streaming in
+  const [isStreaming, setIsStreaming] = useState(false);
+  // True when the current solution was served from the response cache
+  const [isCached, setIsCached] = useState(false);
+  // Every answer for the current problem: the original plus one per code-changing follow-up
+  const [versions, setVersions] = useState<SolutionVersion[]>([]);
+  const [currentVersionId, setCurrentVersionId] = useState<number | null>(null);
+  const [compareVersionId, setCompareVersionId] = useState<number | null>(null);
+  // Follow-up replies arrive asynchronously; read the latest tree when they do
+  const versionsRef = useRef<SolutionVersion[]>([]);
+  versionsRef.current = versions;
 
   const [isTooltipVisible, setIsTooltipVisible] = useState(false)
   const [tooltipHeight, setTooltipHeight] = useState(0)
+  const [isChatActive, setIsChatActive] = useState(false)
 
   const [isResetting, setIsResetting] = useState(false)
   const [currentModel, setCurrentModel] = useState<string>("")
@@ -355,6 +408,11 @@ const Solutions: React.FC<SolutionsProps> = ({
         setThoughtsData(null)
         setTimeComplexityData(null)
         setSpaceComplexityData(null)
+        setIsStreaming(false)
+        setIsCached(false)
+        setVersions([])
+        setCurrentVersionId(null)
+        setCompareVersionId(null)
 
         // Reset screenshots
         setExtraScreenshots([])
@@ -372,6 +430,11 @@ const Solutions: React.FC<SolutionsProps> = ({
         setThoughtsData(null);
         setTimeComplexityData(null);
         setSpaceComplexityData(null);
+        setIsStreaming(false);
+        setIsCached(false);
+        setVersions([]);
+        setCurrentVersionId(null);
+        setCompareVersionId(null);
         
         // Also clear the query cache for fresh start
         queryClient.removeQueries({ queryKey: ["problem_statement"] });
@@ -380,9 +443,17 @@ const Solutions: React.FC<SolutionsProps> = ({
       window.electronAPI.onProblemExtracted((data) => {
         queryClient.setQueryData(["problem_statement"], data)
       }),
+      // Partial solution fields arrive while the model is still generating
+      window.electronAPI.onSolutionChunk((chunk) => {
+        setIsStreaming(true);
+        setShortAnswerData(chunk.short_answer);
+        setThoughtsData(chunk.thoughts.length > 0 ? chunk.thoughts : null);
+        setSolutionData(chunk.code || null);
+      }),
       //if there was an error processing the initial solution
       window.electronAPI.onSolutionError((error: string) => {
         showToast("Processing Failed", error, "error");
+        setIsStreaming(false);
         // Reset solutions in the cache and complexities to previous states, including short answer
         const solution = queryClient.getQueryData(["solution"]) as {
           short_answer?: string | null; // Add optional short_answer
@@ -408,6 +479,8 @@ const Solutions: React.FC<SolutionsProps> = ({
           return;
         }
         console.log({ data });
+        setIsStreaming(false);
+        setIsCached(Boolean(data.cached));
         // Expect data to potentially have short_answer
         const solutionPayload = {
           short_answer: data.short_answer, // Include short_answer
@@ -418,6 +491,18 @@ const Solutions: React.FC<SolutionsProps> = ({
         };
 
         queryClient.setQueryData(["solution"], solutionPayload);
+        setVersions([
+          {
+            id: 1,
+            parentId: null,
+            solution: solutionPayload,
+            messages: [],
+            checkpointId: data.checkpointId ?? null,
+            createdAt: Date.now()
+          }
+        ]);
+        setCurrentVersionId(1);
+        setCompareVersionId(null);
         setShortAnswerData(solutionPayload.short_answer ?? null); // Correctly set short answer state using ?? null
         setSolutionData(solutionPayload.code || null);
         setThoughtsData(solutionPayload.thoughts || null);
@@ -493,6 +578,22 @@ const Solutions: React.FC<SolutionsProps> = ({
     )
     setSolutionData(queryClient.getQueryData(["solution"]) || null)
 
+    // Mounted after the answer arrived: start the version tree from it
+    const initialSolution = queryClient.getQueryData(["solution"]) as SolutionData | undefined
+    if (initialSolution) {
+      setVersions([
+        {
+          id: 1,
+          parentId: null,
+          solution: initialSolution,
+          messages: [],
+          checkpointId: null,
+          createdAt: Date.now()
+        }
+      ])
+      setCurrentVersionId(1)
+    }
+
     const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
       if (event?.query.queryKey[0] === "problem_statement") {
         setProblemStatementData(
@@ -518,11 +619,87 @@ const Solutions: React.FC<SolutionsProps> = ({
     return () => unsubscribe()
   }, [queryClient])
 
+  // The overlay ignores clicks by default; the commands panel and the
+  // follow-up chat both need them, so this is the only place that decides
+  useEffect(() => {
+    window.electronAPI.setWindowFocusable(isTooltipVisible || isChatActive)
+  }, [isTooltipVisible, isChatActive])
+
   const handleTooltipVisibilityChange = (visible: boolean, height: number) => {
     setIsTooltipVisible(visible)
     setTooltipHeight(height)
   }
 
+  const currentVersion = versions.find((version) => version.id === currentVersionId)
+  const compareVersion = versions.find((version) => version.id === compareVersionId)
+
+  // Highlight what the follow-up that produced the current version changed
+  const changedLines = useMemo(() => {
+    const parent = versions.find((version) => version.id === currentVersion?.parentId)
+    return currentVersion && parent
+      ? diffLines(parent.solution.code, currentVersion.solution.code).added
+      : undefined
+  }, [versions, currentVersion])
+
+  const chatMessages = useMemo(
+    () => getVersionPath(versions, currentVersionId).flatMap((version) => version.messages),
+    [versions, currentVersionId]
+  )
+
+  const selectVersion = (id: number) => {
+    const version = versionsRef.current.find((v) => v.id === id)
+    if (!version) return
+    setCurrentVersionId(id)
+    setCompareVersionId(null)
+    queryClient.setQueryData(["solution"], version.solution)
+  }
+
+  // A follow-up that rewrote the code becomes a new version branched from the one
+  // it was sent from; other replies stay on that version
+  const handleChatReply = (
+    fromVersionId: number,
+    message: string,
+    reply: ChatReply,
+    checkpointId: string | null
+  ) => {
+    const latest = versionsRef.current
+    const from = latest.find((version) => version.id === fromVersionId)
+    if (!from) return
+
+    const exchange = [
+      { role: "user" as const, content: message },
+      { role: "assistant" as const, content: reply.reply, codeChanged: Boolean(reply.code) }
+    ]
+
+    if (!reply.code) {
+      const updated = latest.map((version) =>
+        version.id === fromVersionId
+          ? { ...version, messages: [...version.messages, ...exchange], checkpointId }
+          : version
+      )
+      versionsRef.current = updated
+      setVersions(updated)
+      return
+    }
+
+    const newVersion: SolutionVersion = {
+      id: latest.length + 1,
+      parentId: fromVersionId,
+      solution: {
+        ...from.solution,
+        code: reply.code,
+        time_complexity: reply.time_complexity || from.solution.time_complexity,
+        space_complexity: reply.space_complexity || from.solution.space_complexity
+      },
+      messages: exchange,
+      checkpointId,
+      createdAt: Date.now()
+    }
+    versionsRef.current = [...latest, newVersion]
+    setVersions(versionsRef.current)
+    selectVersion(newVersion.id)
+  }
+
   const handleDeleteExtraScreenshot = async (index: number) => {
     const screenshotToDelete = extraScreenshots[index]
 
@@ -570,7 +747,7 @@ const Solutions: React.FC<SolutionsProps> = ({
           <div className="mb-4">
             <SolutionCommands
               onTooltipVisibilityChange={handleTooltipVisibilityChange}
-              isProcessing={!problemStatementData || !solutionData}
+              isProcessing={!problemStatementData || !solutionData || isStreaming}
               extraScreenshots={extraScreenshots}
               credits={credits}
               currentLanguage={currentLanguage}
@@ -583,16 +760,47 @@ const Solutions: React.FC<SolutionsProps> = ({
           <div className="w-full glass-panel rounded-xl overflow-hidden">
             <div className="px-4 py-4 space-y-4">
               {/* Model indicator */}
-              {currentModel && (
+              {(currentModel || isCached || versions.length > 1) && (
                 <div className="flex items-center gap-2 pb-3 border-b border-white/[0.06]">
-                  <div className="w-1.5 h-1.5 rounded-full status-online"></div>
-                  <span className="text-[10px] text-white/40 uppercase tracking-wider">
-                    Powered by <span className="text-white/60">{currentModel}</span>
-                  </span>
+                  {currentModel && (
+                    <>
+                      <div className="w-1.5 h-1.5 rounded-full status-online"></div>
+                      <span className="text-[10px] text-white/40 uppercase tracking-wider">
+                        Powered by <span className="text-white/60">{currentModel}</span>
+                      </span>
+                    </>
+                  )}
+                  {isCached && solutionData && (
+                    <span
+                      className="ml-auto px-1.5 py-0.5 rounded bg-amber-500/10 border border-amber-500/20 text-[10px] text-amber-400 uppercase tracking-wider"
+                      title={`Served from cache. Press ${COMMAND_KEY}+Shift+Enter to regenerate.`}
+                    >
+                      Cached
+                    </span>
+                  )}
+                  {versions.length > 1 && currentVersionId !== null && (
+                    <div className={isCached && solutionData ? "" : "ml-auto"}>
+                      <VersionSwitcher
+                        versions={versions}
+                        currentVersionId={currentVersionId}
+                        onSelect={selectVersion}
+                        onCompare={setCompareVersionId}
+                      />
+                    </div>
+                  )}
                 </div>
               )}
 
-              {!solutionData && (
+              {currentVersion && compareVersion && (
+                <VersionCompare
+                  left={compareVersion.id < currentVersion.id ? compareVersion : currentVersion}
+                  right={compareVersion.id < currentVersion.id ? currentVersion : compareVersion}
+                  language={currentLanguage}
+                  onClose={() => setCompareVersionId(null)}
+                />
+              )}
+
+              {!solutionData && !isStreaming && (
                 <>
                   <ContentSection
                     title="Problem Statement"
@@ -608,7 +816,7 @@ const Solutions: React.FC<SolutionsProps> = ({
                 </>
               )}
 
-              {solutionData && (
+              {(solutionData || isStreaming) && (
                 <>
                   {shortAnswerData && shortAnswerData.trim() !== "" && (
                     <ContentSection
@@ -619,23 +827,7 @@ const Solutions: React.FC<SolutionsProps> = ({
                   )}
                   <ContentSection
                     title={`Explanation (${COMMAND_KEY}+↑↓ to move)`}
-                    content={
-                      thoughtsData && (
-                        <div className="space-y-1.5">
-                          {thoughtsData.map((thought, index) => (
-                            <div
-                              key={index}
-                              className="flex items-start gap-2 p-2 rounded-lg hover:bg-white/[0.02] transition-colors"
-                            >
-                              <span className="text-[10px] font-medium text-indigo-400 mt-0.5 shrink-0">{index + 1}.</span>
-                              <div className="text-white/80 text-sm flex-1">
-                                <MarkdownContent content={thought} />
-                              </div>
-                            </div>
-                          ))}
-                        </div>
-                      )
-                    }
+                    content={thoughtsData && <ThoughtsList thoughts={thoughtsData} />}
                     isLoading={!thoughtsData}
                   />
 
@@ -644,6 +836,7 @@ const Solutions: React.FC<SolutionsProps> = ({
                     content={solutionData}
                     isLoading={!solutionData}
                     currentLanguage={currentLanguage}
+                    changedLines={changedLines}
                   />
 
                   <ComplexitySection
@@ -654,8 +847,20 @@ const Solutions: React.FC<SolutionsProps> = ({
                 </>
               )}
 
+              {solutionData && !isStreaming && currentVersion && (
+                <SolutionChat
+                  code={solutionData}
+                  checkpointId={currentVersion.checkpointId}
+                  messages={chatMessages}
+                  onInputNeededChange={setIsChatActive}
+                  onReply={(message, reply, checkpointId) =>
+                    handleChatReply(currentVersion.id, message, reply, checkpointId)
+                  }
+                />
+              )}
+
               {/* Bottom hint */}
-              {solutionData && (
+              {solutionData && !isStreaming && (
                 <div className="pt-3 border-t border-white/[0.04]">
                   <div className="flex items-center justify-center gap-4 text-[10px] text-white/30">
                     <span className="flex items-center gap-1">
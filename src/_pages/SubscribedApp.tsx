@@ -3,7 +3,9 @@ import { useQueryClient } from "@tanstack/react-query"
 import { useEffect, useRef, useState, useCallback } from "react"
 import Queue from "../_pages/Queue"
 import Solutions from "../_pages/Solutions"
+import History from "../_pages/History"
 import { useToast } from "../contexts/toast"
+import { HistoryContext } from "../contexts/history"
 
 interface SubscribedAppProps {
   credits: number
@@ -18,6 +20,9 @@ const SubscribedApp: React.FC<SubscribedAppProps> = ({
 }) => {
   const queryClient = useQueryClient()
   const [view, setView] = useState<"queue" | "solutions" | "debug">("queue")
+  // The History view sits on top of whatever view is active
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [historySessionId, setHistorySessionId] = useState<string | undefined>(undefined)
   const containerRef = useRef<HTMLDivElement>(null)
   const { showToast } = useToast()
 
@@ -40,6 +45,13 @@ const SubscribedApp: React.FC<SubscribedAppProps> = ({
     return () => cleanup()
   }, [view, queryClient])
 
+  useEffect(() => {
+    const cleanup = window.electronAPI.onScreenshotError((error: string) => {
+      showToast("Screenshot Failed", error, "error")
+    })
+    return () => cleanup()
+  }, [])
+
   // Let's ensure we reset queries etc. if some electron signals happen
   useEffect(() => {
     const cleanup = window.electronAPI.onResetView(() => {
@@ -104,6 +116,7 @@ const SubscribedApp: React.FC<SubscribedAppProps> = ({
   useEffect(() => {
     const cleanupFunctions = [
       window.electronAPI.onSolutionStart(() => {
+        setIsHistoryOpen(false)
         setView("solutions")
       }),
       window.electronAPI.onUnauthorized(() => {
@@ -149,23 +162,34 @@ const SubscribedApp: React.FC<SubscribedAppProps> = ({
   }, [view])
 
   return (
-    <div ref={containerRef} className="min-h-0">
-      {view === "queue" ? (
-        <Queue
-          setView={setView}
-          credits={credits}
-          currentLanguage={currentLanguage}
-          setLanguage={setLanguage}
-        />
-      ) : view === "solutions" ? (
-        <Solutions
-          setView={setView}
-          credits={credits}
-          currentLanguage={currentLanguage}
-          setLanguage={setLanguage}
-        />
-      ) : null}
-    </div>
+    <HistoryContext.Provider
+      value={{
+        openHistory: (sessionId?: string) => {
+          setHistorySessionId(sessionId)
+          setIsHistoryOpen(true)
+        }
+      }}
+    >
+      <div ref={containerRef} className="min-h-0">
+        {isHistoryOpen ? (
+          <History initialSessionId={historySessionId} onClose={() => setIsHistoryOpen(false)} />
+        ) : view === "queue" ? (
+          <Queue
+            setView={setView}
+            credits={credits}
+            currentLanguage={currentLanguage}
+            setLanguage={setLanguage}
+          />
+        ) : view === "solutions" ? (
+          <Solutions
+            setView={setView}
+            credits={credits}
+            currentLanguage={currentLanguage}
+            setLanguage={setLanguage}
+          />
+        ) : null}
+      </div>
+    </HistoryContext.Provider>
   )
 }
 
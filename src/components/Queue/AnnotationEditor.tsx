@@ -0,0 +1,346 @@
+import React, { useState, useEffect, useRef, useCallback } from "react"
+import { Square, EyeOff, Crop, MoveUpRight, Undo2, X, Check } from "lucide-react"
+import { useToast } from "../../contexts/toast"
+
+type Tool = "highlight" | "redact" | "crop" | "arrow"
+
+interface Point {
+  x: number
+  y: number
+}
+
+// In image pixels
+interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+type Annotation =
+  | { type: "highlight" | "redact" | "crop"; rect: Rect }
+  | { type: "arrow"; points: Point[] }
+
+interface AnnotationEditorProps {
+  screenshot: { path: string; preview: string }
+  onClose: () => void
+  onSaved: () => void
+}
+
+const TOOLS: { id: Tool; label: string; icon: React.ElementType }[] = [
+  { id: "highlight", label: "Highlight (sent to the model as \"focus here\")", icon: Square },
+  { id: "redact", label: "Blur / redact", icon: EyeOff },
+  { id: "crop", label: "Crop", icon: Crop },
+  { id: "arrow", label: "Freehand arrow", icon: MoveUpRight }
+]
+
+const HIGHLIGHT_FILL = "rgba(250, 204, 21, 0.2)"
+const HIGHLIGHT_STROKE = "#facc15"
+const ARROW_COLOR = "#ef4444"
+// Size of the mosaic blocks a redacted area is reduced to
+const REDACT_BLOCK = 14
+// Drags smaller than this (in image pixels) are treated as clicks
+const MIN_RECT_SIZE = 6
+
+const toRect = (a: Point, b: Point): Rect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y)
+})
+
+const intersect = (a: Rect, b: Rect): Rect | null => {
+  const x = Math.max(a.x, b.x)
+  const y = Math.max(a.y, b.y)
+  const right = Math.min(a.x + a.width, b.x + b.width)
+  const bottom = Math.min(a.y + a.height, b.y + b.height)
+  return right > x && bottom > y ? { x, y, width: right - x, height: bottom - y } : null
+}
+
+// Only the most recent crop applies
+const lastCrop = (annotations: Annotation[]): Rect | null => {
+  for (let i = annotations.length - 1; i >= 0; i--) {
+    const annotation = annotations[i]
+    if (annotation.type === "crop") return annotation.rect
+  }
+  return null
+}
+
+function pixelate(ctx: CanvasRenderingContext2D, image: HTMLImageElement, rect: Rect) {
+  const small = document.createElement("canvas")
+  small.width = Math.max(1, Math.round(rect.width / REDACT_BLOCK))
+  small.height = Math.max(1, Math.round(rect.height / REDACT_BLOCK))
+  small.getContext("2d")!.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, small.width, small.height)
+  ctx.save()
+  ctx.imageSmoothingEnabled = false
+  ctx.drawImage(small, 0, 0, small.width, small.height, rect.x, rect.y, rect.width, rect.height)
+  ctx.restore()
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, points: Point[], lineWidth: number) {
+  if (points.length < 2) return
+  ctx.save()
+  ctx.strokeStyle = ARROW_COLOR
+  ctx.fillStyle = ARROW_COLOR
+  ctx.lineWidth = lineWidth
+  ctx.lineCap = "round"
+  ctx.lineJoin = "round"
+  ctx.beginPath()
+  ctx.moveTo(points[0].x, points[0].y)
+  points.slice(1).forEach((point) => ctx.lineTo(point.x, point.y))
+  ctx.stroke()
+
+  // Point the head along the last stretch of the stroke rather than the last jittery segment
+  const tip = points[points.length - 1]
+  const tail = points[Math.max(0, points.length - 6)]
+  const angle = Math.atan2(tip.y - tail.y, tip.x - tail.x)
+  const headLength = lineWidth * 4
+  ctx.beginPath()
+  ctx.moveTo(tip.x, tip.y)
+  ctx.lineTo(tip.x - headLength * Math.cos(angle - Math.PI / 6), tip.y - headLength * Math.sin(angle - Math.PI / 6))
+  ctx.lineTo(tip.x - headLength * Math.cos(angle + Math.PI / 6), tip.y - headLength * Math.sin(angle + Math.PI / 6))
+  ctx.closePath()
+  ctx.fill()
+  ctx.restore()
+}
+
+// Draw the screenshot with its annotations at full resolution. Crops are left
+// to the caller: the editor shades them, saving cuts them out.
+function renderAnnotations(ctx: CanvasRenderingContext2D, image: HTMLImageElement, annotations: Annotation[]) {
+  const lineWidth = Math.max(2, Math.round(image.naturalWidth / 400))
+  ctx.drawImage(image, 0, 0)
+  // Redactions first, so highlights and arrows stay visible on top of them
+  annotations.forEach((annotation) => {
+    if (annotation.type === "redact") pixelate(ctx, image, annotation.rect)
+  })
+  annotations.forEach((annotation) => {
+    if (annotation.type === "highlight") {
+      const { x, y, width, height } = annotation.rect
+      ctx.save()
+      ctx.fillStyle = HIGHLIGHT_FILL
+      ctx.strokeStyle = HIGHLIGHT_STROKE
+      ctx.lineWidth = lineWidth
+      ctx.fillRect(x, y, width, height)
+      ctx.strokeRect(x, y, width, height)
+      ctx.restore()
+    } else if (annotation.type === "arrow") {
+      drawArrow(ctx, annotation.points, lineWidth)
+    }
+  })
+}
+
+// Highlight, redact, crop and draw arrows on a queued screenshot. Saving
+// replaces the queued file; highlights also become hints in the Extract prompt.
+const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ screenshot, onClose, onSaved }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null)
+  const [tool, setTool] = useState<Tool>("highlight")
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const [draft, setDraft] = useState<Annotation | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const dragStart = useRef<Point | null>(null)
+  const { showToast } = useToast()
+
+  useEffect(() => {
+    const img = new Image()
+    img.onload = () => setImage(img)
+    img.onerror = () => showToast("Error", "Could not load the screenshot", "error")
+    img.src = screenshot.preview
+  }, [screenshot.preview])
+
+  // Drawing and the keyboard shortcuts need the window to take input
+  useEffect(() => {
+    window.electronAPI.setWindowFocusable(true)
+    return () => {
+      window.electronAPI.setWindowFocusable(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !image) return
+    canvas.width = image.naturalWidth
+    canvas.height = image.naturalHeight
+    const ctx = canvas.getContext("2d")!
+    const shown = draft ? [...annotations, draft] : annotations
+    renderAnnotations(ctx, image, shown)
+
+    const crop = lastCrop(shown)
+    if (crop) {
+      ctx.save()
+      ctx.fillStyle = "rgba(0, 0, 0, 0.6)"
+      ctx.beginPath()
+      ctx.rect(0, 0, canvas.width, canvas.height)
+      ctx.rect(crop.x, crop.y, crop.width, crop.height)
+      ctx.fill("evenodd")
+      ctx.setLineDash([8, 6])
+      ctx.strokeStyle = "#ffffff"
+      ctx.lineWidth = Math.max(1, Math.round(image.naturalWidth / 800))
+      ctx.strokeRect(crop.x, crop.y, crop.width, crop.height)
+      ctx.restore()
+    }
+  }, [image, annotations, draft])
+
+  const undo = useCallback(() => setAnnotations((current) => current.slice(0, -1)), [])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose()
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+        e.preventDefault()
+        undo()
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [onClose, undo])
+
+  // Pointer position in image pixels; the canvas is scaled down to fit the window
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const bounds = e.currentTarget.getBoundingClientRect()
+    const canvas = e.currentTarget
+    return {
+      x: Math.min(canvas.width, Math.max(0, ((e.clientX - bounds.left) / bounds.width) * canvas.width)),
+      y: Math.min(canvas.height, Math.max(0, ((e.clientY - bounds.top) / bounds.height) * canvas.height))
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!image || isSaving) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const point = toImagePoint(e)
+    dragStart.current = point
+    setDraft(
+      tool === "arrow"
+        ? { type: "arrow", points: [point] }
+        : { type: tool, rect: { x: point.x, y: point.y, width: 0, height: 0 } }
+    )
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragStart.current
+    if (!start || !draft) return
+    const point = toImagePoint(e)
+    setDraft(
+      draft.type === "arrow"
+        ? { type: "arrow", points: [...draft.points, point] }
+        : { type: draft.type, rect: toRect(start, point) }
+    )
+  }
+
+  const handlePointerUp = () => {
+    const finished = draft
+    dragStart.current = null
+    setDraft(null)
+    if (!finished) return
+    const isLargeEnough =
+      finished.type === "arrow"
+        ? finished.points.length > 2
+        : finished.rect.width >= MIN_RECT_SIZE && finished.rect.height >= MIN_RECT_SIZE
+    if (isLargeEnough) setAnnotations((current) => [...current, finished])
+  }
+
+  const handleSave = async () => {
+    if (!image) return
+    setIsSaving(true)
+    try {
+      const full = document.createElement("canvas")
+      full.width = image.naturalWidth
+      full.height = image.naturalHeight
+      renderAnnotations(full.getContext("2d")!, image, annotations)
+
+      const crop = lastCrop(annotations) || { x: 0, y: 0, width: full.width, height: full.height }
+      const output = document.createElement("canvas")
+      output.width = Math.round(crop.width)
+      output.height = Math.round(crop.height)
+      output
+        .getContext("2d")!
+        .drawImage(full, crop.x, crop.y, crop.width, crop.height, 0, 0, output.width, output.height)
+
+      // Highlights relative to the saved image; parts outside the crop are dropped
+      const focusRegions: FocusRegion[] = []
+      annotations.forEach((annotation) => {
+        if (annotation.type !== "highlight") return
+        const visible = intersect(annotation.rect, crop)
+        if (!visible) return
+        focusRegions.push({
+          x: (visible.x - crop.x) / crop.width,
+          y: (visible.y - crop.y) / crop.height,
+          width: visible.width / crop.width,
+          height: visible.height / crop.height
+        })
+      })
+
+      const result = await window.electronAPI.saveAnnotatedScreenshot(
+        screenshot.path,
+        output.toDataURL("image/png"),
+        focusRegions
+      )
+      if (result.success) {
+        onSaved()
+      } else {
+        showToast("Error", result.error || "Failed to save the annotated screenshot", "error")
+      }
+    } catch (error) {
+      console.error("Error saving annotated screenshot:", error)
+      showToast("Error", "Failed to save the annotated screenshot", "error")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="w-full max-w-[680px] glass-panel rounded-xl p-3 space-y-2">
+      <div className="flex items-center gap-1">
+        {TOOLS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => setTool(id)}
+            title={label}
+            className={`p-1.5 rounded-md transition-colors cursor-interactive ${tool === id ? "bg-white/15 text-white" : "text-white/50 hover:text-white hover:bg-white/5"}`}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+        <div className="w-px h-4 bg-white/10 mx-1" />
+        <button
+          onClick={undo}
+          disabled={annotations.length === 0}
+          title="Undo (Ctrl/Cmd+Z)"
+          className="p-1.5 rounded-md text-white/50 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-30 cursor-interactive"
+        >
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={onClose}
+          title="Cancel (Esc)"
+          className="flex items-center gap-1 px-2 py-1 rounded-md text-xs text-white/60 hover:text-white hover:bg-white/5 transition-colors cursor-interactive"
+        >
+          <X className="w-3.5 h-3.5" />
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!image || isSaving || annotations.length === 0}
+          className="flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30 transition-colors disabled:opacity-40 cursor-interactive"
+        >
+          <Check className="w-3.5 h-3.5" />
+          {isSaving ? "Saving..." : "Save"}
+        </button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className="block max-w-full max-h-[60vh] mx-auto rounded-md cursor-crosshair touch-none"
+      />
+      <p className="text-[10px] text-white/30">
+        Highlighted areas are sent to the model as the part to focus on. Redacted areas are pixelated in the saved image.
+      </p>
+    </div>
+  )
+}
+
+export default AnnotationEditor
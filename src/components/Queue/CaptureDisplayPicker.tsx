@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useRef } from "react"
+import { Monitor, Check } from "lucide-react"
+import { useToast } from "../../contexts/toast"
+
+interface CaptureDisplayPickerProps {
+  onOpenChange: (isOpen: boolean) => void
+}
+
+const isSelected = (setting: CaptureDisplaySetting, option: CaptureDisplaySetting) =>
+  setting.mode === option.mode && (option.mode !== "display" || setting.displayId === option.displayId)
+
+// Pill button choosing which display the screenshot shortcuts capture
+const CaptureDisplayPicker: React.FC<CaptureDisplayPickerProps> = ({ onOpenChange }) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [displays, setDisplays] = useState<CaptureDisplayInfo[]>([])
+  const [setting, setSetting] = useState<CaptureDisplaySetting>({ mode: "cursor" })
+  const menuRef = useRef<HTMLDivElement>(null)
+  const { showToast } = useToast()
+
+  // Reload on open so newly connected monitors show up
+  useEffect(() => {
+    onOpenChange(isOpen)
+    if (!isOpen) return
+    window.electronAPI.getCaptureDisplays().then((result) => {
+      if (result.success) {
+        setDisplays(result.displays || [])
+        if (result.setting) setSetting(result.setting)
+      }
+    })
+  }, [isOpen, onOpenChange])
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener("mousedown", handleClickOutside)
+    return () => document.removeEventListener("mousedown", handleClickOutside)
+  }, [])
+
+  const selectOption = async (option: CaptureDisplaySetting) => {
+    const result = await window.electronAPI.setCaptureDisplay(option)
+    if (result.success) {
+      setSetting(option)
+      setIsOpen(false)
+    } else {
+      showToast("Error", result.error || "Failed to change the capture display", "error")
+    }
+  }
+
+  const options: { label: string; detail?: string; setting: CaptureDisplaySetting }[] = [
+    { label: "Display under cursor", setting: { mode: "cursor" } },
+    ...displays.map((display) => ({
+      label: display.label,
+      detail: `${display.width}×${display.height}${display.isPrimary ? " · primary" : ""}`,
+      setting: { mode: "display" as const, displayId: display.id }
+    })),
+    ...(displays.length > 1
+      ? [{ label: "All displays", detail: "stitched", setting: { mode: "all" as const } }]
+      : [])
+  ]
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-1.5 rounded-full transition-all duration-300 ${isOpen ? "bg-white/10 text-white" : "text-white/50 hover:text-white hover:bg-white/5"} cursor-interactive`}
+        title="Display to capture"
+      >
+        <Monitor className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 w-56 p-1 rounded-lg bg-[#0a0a0a]/95 border border-white/10 shadow-xl">
+          <p className="px-2 py-1 text-[10px] text-white/40 uppercase tracking-wider">Capture</p>
+          {options.map((option) => (
+            <button
+              key={option.setting.mode === "display" ? option.setting.displayId : option.setting.mode}
+              onClick={() => selectOption(option.setting)}
+              className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-xs text-left text-white/80 hover:bg-white/[0.06] transition-colors cursor-interactive"
+            >
+              <span className="flex-1 truncate">
+                {option.label}
+                {option.detail && <span className="ml-1.5 text-[10px] text-white/40">{option.detail}</span>}
+              </span>
+              {isSelected(setting, option.setting) && <Check className="w-3.5 h-3.5 text-emerald-400" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CaptureDisplayPicker
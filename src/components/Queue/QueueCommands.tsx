@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useRef, useCallback } from "react"
-import { Settings, Mic, Square } from "lucide-react"
+import { Settings, Mic, Square, FileUp, ClipboardPaste } from "lucide-react"
 import { useToast } from "../../contexts/toast"
 import { SettingsPanel } from "../shared/SettingsPanel"
 import { useVoiceRecording } from "../../hooks/useVoiceRecording"
+import CaptureDisplayPicker from "./CaptureDisplayPicker"
 
 interface QueueCommandsProps {
   onTooltipVisibilityChange: (visible: boolean, height: number) => void
@@ -19,6 +20,7 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
   setLanguage
 }) => {
   const [isPanelOpen, setIsPanelOpen] = useState(false)
+  const [isDisplayMenuOpen, setIsDisplayMenuOpen] = useState(false)
   const [isHovered, setIsHovered] = useState(false)
   const panelRef = useRef<HTMLDivElement>(null)
   const pillRef = useRef<HTMLDivElement>(null)
@@ -44,10 +46,24 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
     }
   })
 
+  const handleImport = async (importFn: () => Promise<ImportResult>) => {
+    try {
+      const result = await importFn()
+      if (result.success && result.kind === "text") {
+        showToast("Processing", "Solving the pasted problem...", "neutral")
+      } else if (!result.success && !result.canceled) {
+        showToast("Import Failed", result.error || "Could not import the problem", "error")
+      }
+    } catch (error) {
+      console.error("Error importing problem:", error)
+      showToast("Import Failed", "Could not import the problem", "error")
+    }
+  }
+
   // Control window focusability based on panel state
   useEffect(() => {
-    window.electronAPI.setWindowFocusable(isPanelOpen)
-  }, [isPanelOpen])
+    window.electronAPI.setWindowFocusable(isPanelOpen || isDisplayMenuOpen)
+  }, [isPanelOpen, isDisplayMenuOpen])
 
   useEffect(() => {
     if (onPanelToggle) {
@@ -113,6 +129,25 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
           {isRecording ? <Square className="w-4 h-4" fill="currentColor" /> : <Mic className="w-4 h-4" />}
         </button>
 
+        {/* Capture Display */}
+        <CaptureDisplayPicker onOpenChange={setIsDisplayMenuOpen} />
+
+        {/* Import from file or clipboard */}
+        <button
+          onClick={() => handleImport(() => window.electronAPI.importProblemFiles())}
+          className="p-1.5 rounded-full transition-all duration-300 text-white/50 hover:text-white hover:bg-white/5 cursor-interactive"
+          title="Import an image, PDF or text file"
+        >
+          <FileUp className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => handleImport(() => window.electronAPI.importClipboard())}
+          className="p-1.5 rounded-full transition-all duration-300 text-white/50 hover:text-white hover:bg-white/5 cursor-interactive"
+          title="Paste an image or problem text from the clipboard"
+        >
+          <ClipboardPaste className="w-4 h-4" />
+        </button>
+
         {/* Separator */}
         <div className="w-px h-4 bg-white/10" />
 
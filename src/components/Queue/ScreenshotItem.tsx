@@ -1,6 +1,6 @@
 // src/components/ScreenshotItem.tsx
 import React from "react"
-import { X } from "lucide-react"
+import { X, Pencil } from "lucide-react"
 
 interface Screenshot {
   path: string
@@ -10,6 +10,7 @@ interface Screenshot {
 interface ScreenshotItemProps {
   screenshot: Screenshot
   onDelete: (index: number) => void
+  onAnnotate?: (index: number) => void
   index: number
   isLoading: boolean
   size?: "sm" | "md"
@@ -18,6 +19,7 @@ interface ScreenshotItemProps {
 const ScreenshotItem: React.FC<ScreenshotItemProps> = ({
   screenshot,
   onDelete,
+  onAnnotate,
   index,
   isLoading,
   size = "md"
@@ -64,6 +66,18 @@ const ScreenshotItem: React.FC<ScreenshotItemProps> = ({
             <X size={16} />
           </button>
         )}
+        {!isLoading && onAnnotate && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation()
+              onAnnotate(index)
+            }}
+            className="absolute top-2 right-2 p-1 rounded-full bg-black/70 hover:bg-black/90 text-white opacity-0 group-hover:opacity-100 transition-opacity duration-300"
+            aria-label={`Annotate screenshot ${index + 1}`}
+          >
+            <Pencil size={16} />
+          </button>
+        )}
       </div>
     </>
   )
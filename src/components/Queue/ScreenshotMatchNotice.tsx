@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from "react"
+import { Copy, History, X } from "lucide-react"
+import { useToast } from "../../contexts/toast"
+import { useHistory } from "../../contexts/history"
+
+interface ScreenshotMatchNoticeProps {
+  // Called after a duplicate was replaced or kept, so the queue can reload
+  onQueueChanged: () => void
+}
+
+// Shown under the queue when a capture repeats a queued screenshot (the new one
+// is held back until the user picks "Replace" or "Keep both") or matches the
+// problem of an earlier session
+const ScreenshotMatchNotice: React.FC<ScreenshotMatchNoticeProps> = ({ onQueueChanged }) => {
+  const [duplicate, setDuplicate] = useState<DuplicateScreenshotInfo | null>(null)
+  const [matchingSessions, setMatchingSessions] = useState<MatchingSession[]>([])
+  const { showToast } = useToast()
+  const { openHistory } = useHistory()
+
+  useEffect(() => {
+    const cleanupFunctions = [
+      window.electronAPI.onScreenshotDuplicate((data) => setDuplicate(data)),
+      window.electronAPI.onScreenshotSeenBefore((sessions) => setMatchingSessions(sessions)),
+      // Any other capture replaces a pending duplicate on the main side
+      window.electronAPI.onScreenshotTaken((data) => {
+        setDuplicate((current) => (current && current.path !== data.path ? null : current))
+      }),
+      window.electronAPI.onResetView(() => {
+        setDuplicate(null)
+        setMatchingSessions([])
+      })
+    ]
+    return () => cleanupFunctions.forEach((cleanup) => cleanup())
+  }, [])
+
+  const resolve = async (action: "replace" | "keep-both") => {
+    try {
+      const result = await window.electronAPI.resolveDuplicateScreenshot(action)
+      if (!result.success) {
+        showToast("Error", result.error || "Failed to update the queue", "error")
+      }
+    } catch (error) {
+      console.error("Error resolving duplicate screenshot:", error)
+    } finally {
+      setDuplicate(null)
+      onQueueChanged()
+    }
+  }
+
+  if (!duplicate && matchingSessions.length === 0) return null
+
+  return (
+    <div className="w-full max-w-md space-y-2">
+      {duplicate && (
+        <div className="flex items-center gap-3 px-3 py-2 bg-[#0a0a0a]/90 border border-amber-500/30 rounded-xl">
+          <img src={duplicate.preview} alt="New capture" className="w-16 h-10 object-cover rounded-md shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-1.5 text-xs text-amber-300">
+              <Copy className="w-3.5 h-3.5 shrink-0" />
+              Same as screenshot {duplicate.duplicateIndex + 1}
+            </div>
+            <div className="text-[10px] text-white/40">The new capture has not been queued yet</div>
+          </div>
+          <button
+            onClick={() => resolve("replace")}
+            className="px-2 py-1 rounded-md text-[10px] bg-white/10 text-white hover:bg-white/15 transition-colors cursor-interactive"
+          >
+            Replace
+          </button>
+          <button
+            onClick={() => resolve("keep-both")}
+            className="px-2 py-1 rounded-md text-[10px] bg-white/5 text-white/60 hover:text-white hover:bg-white/10 transition-colors cursor-interactive"
+          >
+            Keep both
+          </button>
+        </div>
+      )}
+      {matchingSessions.length > 0 && (
+        <div className="px-3 py-2 bg-[#0a0a0a]/90 border border-white/10 rounded-xl space-y-1">
+          <div className="flex items-center justify-between text-[10px] text-white/40">
+            <span className="flex items-center gap-1.5">
+              <History className="w-3 h-3" />
+              Seen in an earlier session
+            </span>
+            <button
+              onClick={() => setMatchingSessions([])}
+              className="text-white/40 hover:text-white transition-colors cursor-interactive"
+              title="Dismiss"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          {matchingSessions.map((session) => (
+            <button
+              key={session.id}
+              onClick={() => openHistory(session.id)}
+              className="w-full flex items-center justify-between gap-2 text-left text-xs text-white/80 hover:text-white transition-colors cursor-interactive"
+            >
+              <span className="truncate">{session.title}</span>
+              <span className="text-[10px] text-white/30 shrink-0">
+                {new Date(session.updatedAt).toLocaleDateString()}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ScreenshotMatchNotice
@@ -1,4 +1,4 @@
-import React from "react"
+import React, { useState } from "react"
 import ScreenshotItem from "./ScreenshotItem"
 
 interface Screenshot {
@@ -10,34 +10,69 @@ interface ScreenshotQueueProps {
   isLoading: boolean
   screenshots: Screenshot[]
   onDeleteScreenshot: (index: number) => void
+  // Called with the screenshot paths in their new order after a drag
+  onReorder?: (paths: string[]) => void
+  // Opens the annotation editor for a screenshot
+  onAnnotate?: (index: number) => void
   itemSize?: "sm" | "md"
 }
+
+// Longer queues switch to small thumbnails so the window stays a usable width
+const COMPACT_QUEUE_LENGTH = 4
+
 const ScreenshotQueue: React.FC<ScreenshotQueueProps> = ({
   isLoading,
   screenshots,
   onDeleteScreenshot,
+  onReorder,
+  onAnnotate,
   itemSize = "md"
 }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+
   if (screenshots.length === 0) {
     return <></>
   }
 
-  const displayScreenshots = screenshots.slice(0, 5)
+  const canReorder = !!onReorder && !isLoading && screenshots.length > 1
+  const size = screenshots.length > COMPACT_QUEUE_LENGTH ? "sm" : itemSize
+
+  const handleDrop = (targetIndex: number) => {
+    if (!onReorder || dragIndex === null || dragIndex === targetIndex) return
+    const next = [...screenshots]
+    const [moved] = next.splice(dragIndex, 1)
+    next.splice(targetIndex, 0, moved)
+    setDragIndex(null)
+    onReorder(next.map((screenshot) => screenshot.path))
+  }
 
   return (
     // LAYOUT CONTROL: Container for screenshot thumbnails
     // 'gap-4' controls the space between thumbnails.
     // 'justify-start' aligns them to the left.
     <div className="flex gap-4 justify-start">
-      {displayScreenshots.map((screenshot, index) => (
-        <ScreenshotItem
+      {screenshots.map((screenshot, index) => (
+        <div
           key={screenshot.path}
-          isLoading={isLoading}
-          screenshot={screenshot}
-          index={index}
-          onDelete={onDeleteScreenshot}
-          size={itemSize}
-        />
+          draggable={canReorder}
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(e) => canReorder && e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault()
+            handleDrop(index)
+          }}
+          onDragEnd={() => setDragIndex(null)}
+          className={`transition-opacity ${canReorder ? "cursor-grab" : ""} ${dragIndex === index ? "opacity-50" : ""}`}
+        >
+          <ScreenshotItem
+            isLoading={isLoading}
+            screenshot={screenshot}
+            index={index}
+            onDelete={onDeleteScreenshot}
+            onAnnotate={onAnnotate}
+            size={size}
+          />
+        </div>
       ))}
     </div>
   )
@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useRef } from "react"
+import { Send } from "lucide-react"
+import { MarkdownContent } from "../../_pages/Solutions"
+import { useToast } from "../../contexts/toast"
+import { ChatMessage } from "../../utils/solutionVersions"
+
+// Actions with a message are sent straight away; the rest prefill the input
+const QUICK_ACTIONS: { label: string; message?: string; prefill?: string }[] = [
+  { label: "Optimize", message: "Optimize this solution for time and space complexity." },
+  { label: "Explain line N", prefill: "Explain line " },
+  { label: "Add comments", message: "Add clear comments explaining each step of the code." },
+  { label: "Convert to iterative", message: "Convert this solution to an iterative approach." }
+]
+
+export interface SolutionChatProps {
+  code: string
+  /** Conversation checkpoint of the version the follow-up is sent from */
+  checkpointId: string | null
+  /** Follow-ups leading to the current version */
+  messages: ChatMessage[]
+  onReply: (message: string, reply: ChatReply, checkpointId: string | null) => void
+  /** Whether the pointer is over the chat or its input has focus, so the window must take clicks */
+  onInputNeededChange: (needed: boolean) => void
+}
+
+// Typed follow-ups about the current solution, answered with the conversation so far
+const SolutionChat: React.FC<SolutionChatProps> = ({
+  code,
+  checkpointId,
+  messages,
+  onReply,
+  onInputNeededChange
+}) => {
+  const [input, setInput] = useState("")
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null)
+  const [isHovered, setIsHovered] = useState(false)
+  const [isInputFocused, setIsInputFocused] = useState(false)
+  const inputRef = useRef<HTMLTextAreaElement>(null)
+  const { showToast } = useToast()
+  const isSending = pendingMessage !== null
+
+  const needsInput = isHovered || isInputFocused
+  useEffect(() => {
+    onInputNeededChange(needsInput)
+  }, [needsInput, onInputNeededChange])
+
+  useEffect(() => {
+    return () => onInputNeededChange(false)
+  }, [onInputNeededChange])
+
+  const sendMessage = async (message: string) => {
+    const text = message.trim()
+    if (!text || isSending) return
+
+    setPendingMessage(text)
+    setInput("")
+    try {
+      const result = await window.electronAPI.sendChatMessage(text, code, checkpointId ?? undefined)
+      if (result.success && result.data) {
+        onReply(text, result.data, result.checkpointId ?? null)
+      } else {
+        showToast("Follow-up Failed", result.error || "Failed to get a reply", "error")
+      }
+    } catch (error) {
+      console.error("Error sending chat message:", error)
+      showToast("Follow-up Failed", "Failed to get a reply", "error")
+    } finally {
+      setPendingMessage(null)
+    }
+  }
+
+  const handleQuickAction = (action: (typeof QUICK_ACTIONS)[number]) => {
+    if (action.message) {
+      sendMessage(action.message)
+    } else if (action.prefill) {
+      setInput(action.prefill)
+      inputRef.current?.focus()
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault()
+      sendMessage(input)
+    }
+  }
+
+  const visibleMessages: ChatMessage[] = pendingMessage
+    ? [...messages, { role: "user", content: pendingMessage }]
+    : messages
+
+  return (
+    <div
+      className="space-y-2 w-full slide-up"
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      <h2 className="text-xs font-medium text-white/60 uppercase tracking-wider flex items-center gap-2">
+        <div className="w-0.5 h-3 rounded-full bg-sky-500" />
+        Follow-up
+      </h2>
+
+      {visibleMessages.length > 0 && (
+        <div className="max-h-64 overflow-y-auto custom-scrollbar space-y-2">
+          {visibleMessages.map((message, index) => (
+            <div
+              key={index}
+              className={`px-3 py-2 rounded-lg text-[13px] ${
+                message.role === "user"
+                  ? "ml-8 bg-sky-500/10 border border-sky-500/20 text-white/90"
+                  : "mr-8 bg-white/[0.03] border border-white/[0.06]"
+              }`}
+            >
+              {message.role === "user" ? (
+                <p className="whitespace-pre-wrap">{message.content}</p>
+              ) : (
+                <>
+                  <MarkdownContent content={message.content} />
+                  {message.codeChanged && (
+                    <p className="text-[10px] text-emerald-400/80">Solution code updated above</p>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+          {isSending && (
+            <div className="mr-8 flex items-center gap-2 px-3 py-2">
+              <div className="w-3 h-3 rounded-full border-2 border-white/20 border-t-sky-500 animate-spin" />
+              <p className="text-xs text-white/50">Thinking...</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-1.5">
+        {QUICK_ACTIONS.map((action) => (
+          <button
+            key={action.label}
+            onClick={() => handleQuickAction(action)}
+            disabled={isSending}
+            className="px-2 py-1 rounded-full bg-white/[0.04] border border-white/[0.08] text-[10px] text-white/60 hover:text-white hover:bg-white/[0.08] transition-colors disabled:opacity-40 cursor-interactive"
+          >
+            {action.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-end gap-2">
+        <textarea
+          ref={inputRef}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsInputFocused(true)}
+          onBlur={() => setIsInputFocused(false)}
+          rows={1}
+          placeholder="Ask a follow-up about this solution..."
+          className="flex-1 resize-none px-3 py-2 rounded-lg bg-black/30 border border-white/10 text-[13px] text-white/90 placeholder:text-white/30 focus:outline-none focus:border-sky-500/50"
+        />
+        <button
+          onClick={() => sendMessage(input)}
+          disabled={isSending || !input.trim()}
+          className="p-2 rounded-lg bg-sky-500/20 border border-sky-500/30 text-sky-300 hover:bg-sky-500/30 transition-colors disabled:opacity-40 cursor-interactive"
+          title="Send (Enter)"
+        >
+          <Send className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default SolutionChat
@@ -1,9 +1,22 @@
 import React, { useState, useEffect, useRef } from "react"
-import { Settings, Mic } from "lucide-react"
+import { Settings, Mic, Download } from "lucide-react"
 import { Screenshot } from "../../types/screenshots"
 import { SettingsPanel } from "../shared/SettingsPanel"
 import ScreenshotQueue from "../Queue/ScreenshotQueue"
 import { useVoiceRecording } from "../../hooks/useVoiceRecording"
+import { useToast } from "../../contexts/toast"
+import {
+  buildSessionHtml,
+  buildSessionMarkdown,
+  getSessionFileName,
+  SessionExportFormat
+} from "../../utils/sessionExport"
+
+const EXPORT_FORMATS: { id: SessionExportFormat; label: string }[] = [
+  { id: "markdown", label: "Markdown" },
+  { id: "html", label: "HTML" },
+  { id: "pdf", label: "PDF" }
+]
 
 export interface SolutionCommandsProps {
   onTooltipVisibilityChange: (visible: boolean, height: number) => void
@@ -28,8 +41,12 @@ const SolutionCommands: React.FC<SolutionCommandsProps> = ({
 }) => {
   const [isPanelOpen, setIsPanelOpen] = useState(false)
   const [panelPosition, setPanelPosition] = useState({ bottom: 0, left: 0 })
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
   const panelRef = useRef<HTMLDivElement>(null)
   const pillRef = useRef<HTMLDivElement>(null)
+  const exportRef = useRef<HTMLDivElement>(null)
+  const { showToast } = useToast()
   
   // Use shared voice recording hook
   const { isRecording } = useVoiceRecording({
@@ -51,11 +68,6 @@ const SolutionCommands: React.FC<SolutionCommandsProps> = ({
     }
   })
 
-  // Control window focusability based on panel state
-  useEffect(() => {
-    window.electronAPI.setWindowFocusable(isPanelOpen)
-  }, [isPanelOpen])
-
   // Update panel position when pill is clicked - position ABOVE the pill
   useEffect(() => {
     if (isPanelOpen && pillRef.current) {
@@ -77,17 +89,55 @@ const SolutionCommands: React.FC<SolutionCommandsProps> = ({
       ) {
         setIsPanelOpen(false)
       }
+      if (exportRef.current && !exportRef.current.contains(event.target as Node)) {
+        setIsExportOpen(false)
+      }
     }
 
     document.addEventListener("mousedown", handleClickOutside)
     return () => document.removeEventListener("mousedown", handleClickOutside)
   }, [])
 
-  // Notify parent about panel visibility
+  // Notify parent about panel visibility; it also decides window focusability
   useEffect(() => {
     onTooltipVisibilityChange(isPanelOpen, isPanelOpen ? 280 : 0)
   }, [isPanelOpen, onTooltipVisibilityChange])
 
+  // Export the current session, including debug rounds and voice follow-ups
+  const handleExport = async (format: SessionExportFormat) => {
+    setIsExportOpen(false)
+    setIsExporting(true)
+    try {
+      const sessionsResult = await window.electronAPI.getSessions()
+      const sessionResult = sessionsResult.currentSessionId
+        ? await window.electronAPI.getSession(sessionsResult.currentSessionId)
+        : null
+      if (!sessionResult?.success || !sessionResult.session) {
+        showToast("Nothing to Export", "This session has no saved solutions yet.", "neutral")
+        return
+      }
+
+      const session = sessionResult.session
+      const content =
+        format === "markdown" ? buildSessionMarkdown(session) : buildSessionHtml(session)
+      const result = await window.electronAPI.exportSession(
+        format,
+        content,
+        getSessionFileName(session)
+      )
+      if (result.success) {
+        showToast("Session Exported", result.filePath || "", "success")
+      } else if (!result.canceled) {
+        showToast("Export Failed", result.error || "Could not export the session", "error")
+      }
+    } catch (error) {
+      console.error("Error exporting session:", error)
+      showToast("Export Failed", "Could not export the session", "error")
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   return (
     <>
       {/* Main row with pill and screenshots */}
@@ -122,6 +172,33 @@ const SolutionCommands: React.FC<SolutionCommandsProps> = ({
           )}
         </div>
 
+        {/* Export */}
+        <div ref={exportRef} className="relative shrink-0">
+          <button
+            onClick={() => setIsExportOpen(!isExportOpen)}
+            disabled={isProcessing || isExporting}
+            className="flex items-center gap-1.5 px-3 py-2 bg-[#0a0a0a]/90 backdrop-blur-md border border-white/10 rounded-full shadow-lg text-xs text-white/60 hover:text-white hover:border-white/20 transition-all duration-200 disabled:opacity-40 cursor-interactive"
+            title="Export session"
+          >
+            <Download className="w-3.5 h-3.5" />
+            {isExporting ? "Exporting..." : "Export"}
+          </button>
+
+          {isExportOpen && (
+            <div className="absolute left-0 top-full mt-1 w-32 bg-[#1a1a1a] border border-white/10 rounded-lg shadow-xl overflow-hidden z-50 py-1">
+              {EXPORT_FORMATS.map((format) => (
+                <button
+                  key={format.id}
+                  onClick={() => handleExport(format.id)}
+                  className="w-full text-left px-3 py-2 text-xs text-white/70 hover:bg-white/5 hover:text-white transition-colors cursor-interactive"
+                >
+                  {format.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Screenshots next to pill */}
         {extraScreenshots.length > 0 && (
           <div className={`transition-opacity duration-200 ${isProcessing ? "opacity-50" : "opacity-100"}`}>
@@ -0,0 +1,113 @@
+import React, { useMemo } from "react"
+import { X } from "lucide-react"
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter"
+import { dracula } from "react-syntax-highlighter/dist/esm/styles/prism"
+import { diffLines } from "../../utils/lineDiff"
+import { SolutionVersion } from "../../utils/solutionVersions"
+
+const REMOVED_LINE_STYLE = {
+  display: "block",
+  backgroundColor: "rgba(239, 68, 68, 0.15)",
+  boxShadow: "inset 2px 0 0 rgba(239, 68, 68, 0.8)"
+}
+
+const ADDED_LINE_STYLE = {
+  display: "block",
+  backgroundColor: "rgba(16, 185, 129, 0.15)",
+  boxShadow: "inset 2px 0 0 rgba(16, 185, 129, 0.8)"
+}
+
+const CodePane = ({
+  version,
+  language,
+  highlightedLines,
+  lineStyle
+}: {
+  version: SolutionVersion
+  language: string
+  highlightedLines: number[]
+  lineStyle: React.CSSProperties
+}) => (
+  <div className="min-w-0 space-y-1.5">
+    <div className="flex items-center gap-2 text-[10px] text-white/50 uppercase tracking-wider">
+      <span className="font-mono text-emerald-400/80">v{version.id}</span>
+      <span>
+        {version.solution.time_complexity} · {version.solution.space_complexity}
+      </span>
+    </div>
+    <div className="code-block overflow-hidden">
+      {/* @ts-ignore */}
+      <SyntaxHighlighter
+        showLineNumbers
+        language={language == "golang" ? "go" : language}
+        style={dracula}
+        customStyle={{
+          maxWidth: "100%",
+          margin: 0,
+          padding: "0.75rem",
+          backgroundColor: "transparent",
+          fontSize: "11px",
+          lineHeight: "1.6"
+        }}
+        wrapLongLines={true}
+        lineProps={(lineNumber: number) =>
+          highlightedLines.includes(lineNumber) ? { style: lineStyle } : {}
+        }
+      >
+        {version.solution.code}
+      </SyntaxHighlighter>
+    </div>
+  </div>
+)
+
+export interface VersionCompareProps {
+  left: SolutionVersion
+  right: SolutionVersion
+  language: string
+  onClose: () => void
+}
+
+// Two solution versions side by side, with removed lines on the left and added lines on the right
+const VersionCompare: React.FC<VersionCompareProps> = ({ left, right, language, onClose }) => {
+  const removed = useMemo(
+    () => diffLines(right.solution.code, left.solution.code).added,
+    [left, right]
+  )
+  const added = useMemo(() => diffLines(left.solution.code, right.solution.code).added, [left, right])
+
+  return (
+    <div className="space-y-2 w-full slide-up">
+      <h2 className="text-xs font-medium text-white/60 uppercase tracking-wider flex items-center gap-2">
+        <div className="w-0.5 h-3 rounded-full bg-emerald-500" />
+        Compare v{left.id} and v{right.id}
+        <span className="normal-case tracking-normal text-[10px]">
+          <span className="text-red-400/80">-{removed.length}</span>{" "}
+          <span className="text-emerald-400/80">+{added.length}</span>
+        </span>
+        <button
+          onClick={onClose}
+          className="ml-auto text-white/50 hover:text-white transition-colors cursor-interactive"
+          title="Close comparison"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </h2>
+      <div className="grid grid-cols-2 gap-3">
+        <CodePane
+          version={left}
+          language={language}
+          highlightedLines={removed}
+          lineStyle={REMOVED_LINE_STYLE}
+        />
+        <CodePane
+          version={right}
+          language={language}
+          highlightedLines={added}
+          lineStyle={ADDED_LINE_STYLE}
+        />
+      </div>
+    </div>
+  )
+}
+
+export default VersionCompare
@@ -0,0 +1,84 @@
+import React, { useState, useEffect, useRef } from "react"
+import { ChevronDown, GitCompare } from "lucide-react"
+import { SolutionVersion, describeVersion, flattenVersionTree } from "../../utils/solutionVersions"
+
+export interface VersionSwitcherProps {
+  versions: SolutionVersion[]
+  currentVersionId: number
+  onSelect: (id: number) => void
+  onCompare: (id: number) => void
+}
+
+// Dropdown listing every solution version as a tree, to switch or compare
+const VersionSwitcher: React.FC<VersionSwitcherProps> = ({
+  versions,
+  currentVersionId,
+  onSelect,
+  onCompare
+}) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener("mousedown", handleClickOutside)
+    return () => document.removeEventListener("mousedown", handleClickOutside)
+  }, [])
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-white/[0.04] border border-white/[0.08] text-[10px] text-white/60 hover:text-white uppercase tracking-wider transition-colors cursor-interactive"
+        title="Solution versions"
+      >
+        v{currentVersionId}
+        <span className="text-white/30">/ {versions.length}</span>
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-50 w-72 max-h-72 overflow-y-auto custom-scrollbar p-1 rounded-lg bg-[#0a0a0a]/95 border border-white/10 shadow-xl">
+          {flattenVersionTree(versions).map(({ version, depth }) => (
+            <div
+              key={version.id}
+              onClick={() => {
+                onSelect(version.id)
+                setIsOpen(false)
+              }}
+              className={`group flex items-center gap-2 py-1.5 pr-2 rounded-md text-xs cursor-interactive transition-colors ${
+                version.id === currentVersionId
+                  ? "bg-emerald-500/10 text-white"
+                  : "text-white/70 hover:bg-white/[0.06]"
+              }`}
+              style={{ paddingLeft: `${8 + depth * 12}px` }}
+            >
+              <span className="font-mono text-[10px] text-emerald-400/80 shrink-0">v{version.id}</span>
+              <span className="flex-1 truncate">{describeVersion(version)}</span>
+              {version.id !== currentVersionId && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onCompare(version.id)
+                    setIsOpen(false)
+                  }}
+                  className="opacity-0 group-hover:opacity-100 text-white/40 hover:text-white transition-opacity cursor-interactive"
+                  title={`Compare v${version.id} with v${currentVersionId}`}
+                >
+                  <GitCompare className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default VersionSwitcher
@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from "react"
+
+const ENCODINGS: { id: ImagePreprocessSettings["encoding"]; label: string }[] = [
+    { id: "auto", label: "Smallest" },
+    { id: "png", label: "PNG" },
+    { id: "jpeg", label: "JPEG" }
+]
+
+const OCR_MODES: { id: OcrMode; label: string }[] = [
+    { id: "image", label: "Image only" },
+    { id: "ocr+image", label: "OCR + image" },
+    { id: "ocr", label: "OCR only" }
+]
+
+const OptionButton: React.FC<{
+    selected: boolean
+    onClick: () => void
+    disabled?: boolean
+    children: React.ReactNode
+}> = ({ selected, onClick, disabled, children }) => (
+    <button
+        onClick={onClick}
+        disabled={disabled}
+        className={`flex-1 px-2 py-1 rounded-md text-[10px] transition-colors disabled:opacity-40 cursor-interactive ${selected
+            ? "bg-white/15 text-white"
+            : "bg-white/5 text-white/50 hover:text-white hover:bg-white/10"
+            }`}
+    >
+        {children}
+    </button>
+)
+
+const Toggle: React.FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void }> = ({
+    label,
+    checked,
+    onChange
+}) => (
+    <label className="flex items-center justify-between text-[10px] text-white/60 cursor-interactive">
+        {label}
+        <input
+            type="checkbox"
+            checked={checked}
+            onChange={(e) => onChange(e.target.checked)}
+            className="accent-emerald-500"
+        />
+    </label>
+)
+
+// How screenshots are downscaled, filtered, encoded and read before they are sent
+export const ImageProcessingPanel: React.FC = () => {
+    const [settings, setSettings] = useState<ImagePreprocessSettings | null>(null)
+    const [maxEdgeOptions, setMaxEdgeOptions] = useState<number[]>([])
+    const [ocrMode, setOcrMode] = useState<OcrMode>("image")
+    const [tesseractVersion, setTesseractVersion] = useState<string | null>(null)
+    const [queueSettings, setQueueSettings] = useState<ScreenshotQueueSettings | null>(null)
+    const [maxScreenshotsOptions, setMaxScreenshotsOptions] = useState<number[]>([])
+
+    useEffect(() => {
+        const loadSettings = async () => {
+            try {
+                const result = await window.electronAPI.getImagePreprocessing()
+                if (result.success && result.settings) {
+                    setSettings(result.settings)
+                    setMaxEdgeOptions(result.maxEdgeOptions || [])
+                }
+
+                const ocrResult = await window.electronAPI.getOcrSettings()
+                if (ocrResult.success && ocrResult.mode) {
+                    setOcrMode(ocrResult.mode)
+                    setTesseractVersion(ocrResult.tesseractVersion ?? null)
+                }
+
+                const queueResult = await window.electronAPI.getScreenshotQueueSettings()
+                if (queueResult.success && queueResult.settings) {
+                    setQueueSettings(queueResult.settings)
+                    setMaxScreenshotsOptions(queueResult.maxScreenshotsOptions || [])
+                }
+            } catch (error) {
+                console.error("Failed to load image preprocessing settings:", error)
+            }
+        }
+        loadSettings()
+    }, [])
+
+    const update = async (changes: Partial<ImagePreprocessSettings>) => {
+        if (!settings) return
+        const previous = settings
+        setSettings({ ...settings, ...changes })
+        try {
+            const result = await window.electronAPI.setImagePreprocessing(changes)
+            if (!result.success) {
+                console.error("Failed to save image preprocessing settings:", result.error)
+                setSettings(previous)
+            }
+        } catch (error) {
+            console.error("Error saving image preprocessing settings:", error)
+            setSettings(previous)
+        }
+    }
+
+    const updateOcrMode = async (mode: OcrMode) => {
+        try {
+            const result = await window.electronAPI.setOcrMode(mode)
+            if (result.success) {
+                setOcrMode(mode)
+            } else {
+                console.error("Failed to save OCR mode:", result.error)
+            }
+        } catch (error) {
+            console.error("Error saving OCR mode:", error)
+        }
+    }
+
+    const updateQueue = async (changes: Partial<ScreenshotQueueSettings>) => {
+        if (!queueSettings) return
+        const previous = queueSettings
+        setQueueSettings({ ...queueSettings, ...changes })
+        try {
+            const result = await window.electronAPI.setScreenshotQueueSettings(changes)
+            if (!result.success) {
+                console.error("Failed to save screenshot queue settings:", result.error)
+                setQueueSettings(previous)
+            }
+        } catch (error) {
+            console.error("Error saving screenshot queue settings:", error)
+            setQueueSettings(previous)
+        }
+    }
+
+    if (!settings) return null
+
+    return (
+        <div className="space-y-2 bg-white/[0.02] border border-white/5 rounded-lg p-2">
+            {queueSettings && (
+                <div className="space-y-1">
+                    <div className="text-[10px] text-white/40">Screenshot queue</div>
+                    <div className="flex gap-1">
+                        {maxScreenshotsOptions.map((count) => (
+                            <OptionButton
+                                key={count}
+                                selected={queueSettings.maxScreenshots === count}
+                                onClick={() => updateQueue({ maxScreenshots: count })}
+                            >
+                                {count}
+                            </OptionButton>
+                        ))}
+                    </div>
+                    <Toggle
+                        label="Stitch overlapping scrolled captures"
+                        checked={queueSettings.stitch}
+                        onChange={(stitch) => updateQueue({ stitch })}
+                    />
+                </div>
+            )}
+            <div className="space-y-1">
+                <div className="text-[10px] text-white/40">Longest edge</div>
+                <div className="flex gap-1">
+                    {maxEdgeOptions.map((edge) => (
+                        <OptionButton
+                            key={edge}
+                            selected={settings.maxEdge === edge}
+                            onClick={() => update({ maxEdge: edge })}
+                        >
+                            {edge === 0 ? "Original" : `${edge}px`}
+                        </OptionButton>
+                    ))}
+                </div>
+            </div>
+            <div className="space-y-1">
+                <div className="text-[10px] text-white/40">Encoding</div>
+                <div className="flex gap-1">
+                    {ENCODINGS.map((encoding) => (
+                        <OptionButton
+                            key={encoding.id}
+                            selected={settings.encoding === encoding.id}
+                            onClick={() => update({ encoding: encoding.id })}
+                        >
+                            {encoding.label}
+                        </OptionButton>
+                    ))}
+                </div>
+            </div>
+            <Toggle label="Grayscale" checked={settings.grayscale} onChange={(grayscale) => update({ grayscale })} />
+            <Toggle
+                label="Boost contrast for text"
+                checked={settings.contrastBoost}
+                onChange={(contrastBoost) => update({ contrastBoost })}
+            />
+            <div className="space-y-1">
+                <div className="text-[10px] text-white/40">Problem extraction</div>
+                <div className="flex gap-1">
+                    {OCR_MODES.map((mode) => (
+                        <OptionButton
+                            key={mode.id}
+                            selected={ocrMode === mode.id}
+                            disabled={mode.id !== "image" && !tesseractVersion}
+                            onClick={() => updateOcrMode(mode.id)}
+                        >
+                            {mode.label}
+                        </OptionButton>
+                    ))}
+                </div>
+                <p className="text-[10px] text-white/30">
+                    {tesseractVersion
+                        ? `Local OCR with tesseract ${tesseractVersion}`
+                        : "Install tesseract to read screenshots locally"}
+                </p>
+            </div>
+        </div>
+    )
+}
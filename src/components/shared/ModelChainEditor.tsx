@@ -0,0 +1,127 @@
+import React, { useState } from "react"
+import { GripVertical, X, Plus, Image, Mic, Braces } from "lucide-react"
+
+// Small icons showing what a model can take in and produce
+export const ModelCapabilityBadges: React.FC<{ capabilities?: AIModelInfo["capabilities"] }> = ({
+    capabilities
+}) => {
+    if (!capabilities) return null
+
+    const badges = [
+        { enabled: capabilities.vision, icon: Image, label: "Vision" },
+        { enabled: capabilities.audio, icon: Mic, label: "Audio" },
+        { enabled: capabilities.jsonMode, icon: Braces, label: "JSON mode" }
+    ]
+
+    return (
+        <span className="flex items-center gap-1 shrink-0">
+            {badges.map(({ enabled, icon: Icon, label }) => (
+                <span
+                    key={label}
+                    title={`${label}${enabled ? "" : " (not supported)"}`}
+                    className={enabled ? "text-emerald-400/80" : "text-white/15"}
+                >
+                    <Icon className="w-3 h-3" />
+                </span>
+            ))}
+        </span>
+    )
+}
+
+interface ModelChainEditorProps {
+    chain: string[]
+    models: AIModelInfo[]
+    onChange: (chain: string[]) => void
+}
+
+// Ordered fallback chain; entries are reordered by dragging
+export const ModelChainEditor: React.FC<ModelChainEditorProps> = ({
+    chain,
+    models,
+    onChange
+}) => {
+    const [dragIndex, setDragIndex] = useState<number | null>(null)
+    const [isAddOpen, setIsAddOpen] = useState(false)
+
+    const findModel = (id: string) => models.find((m) => m.id === id)
+    const addableModels = models.filter((m) => !chain.includes(m.id))
+
+    const handleDrop = (targetIndex: number) => {
+        if (dragIndex === null || dragIndex === targetIndex) return
+        const next = [...chain]
+        const [moved] = next.splice(dragIndex, 1)
+        next.splice(targetIndex, 0, moved)
+        setDragIndex(null)
+        onChange(next)
+    }
+
+    const handleRemove = (index: number) => {
+        // The chain always needs at least one model
+        if (chain.length <= 1) return
+        onChange(chain.filter((_, i) => i !== index))
+    }
+
+    const handleAdd = (modelId: string) => {
+        onChange([...chain, modelId])
+        setIsAddOpen(false)
+    }
+
+    return (
+        <div className="space-y-1">
+            {chain.map((modelId, index) => (
+                <div
+                    key={modelId}
+                    draggable
+                    onDragStart={() => setDragIndex(index)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => handleDrop(index)}
+                    onDragEnd={() => setDragIndex(null)}
+                    className={`flex items-center gap-2 bg-white/5 border rounded-lg px-2 py-1.5 text-xs transition-colors cursor-grab
+                        ${dragIndex === index ? "border-white/30 opacity-50" : "border-white/10 hover:bg-white/10"}`}
+                >
+                    <GripVertical className="w-3 h-3 text-white/30 shrink-0" />
+                    <span className="text-[10px] text-white/40 w-3 shrink-0">{index + 1}</span>
+                    <span className="text-white/90 truncate flex-1">
+                        {findModel(modelId)?.displayName || modelId}
+                    </span>
+                    <ModelCapabilityBadges capabilities={findModel(modelId)?.capabilities} />
+                    <button
+                        onClick={() => handleRemove(index)}
+                        disabled={chain.length <= 1}
+                        className="text-white/30 hover:text-white/80 disabled:opacity-30 cursor-interactive"
+                        title="Remove from chain"
+                    >
+                        <X className="w-3 h-3" />
+                    </button>
+                </div>
+            ))}
+
+            {addableModels.length > 0 && (
+                <div className="relative">
+                    <button
+                        onClick={() => setIsAddOpen(!isAddOpen)}
+                        className="w-full flex items-center justify-center gap-1.5 border border-dashed border-white/10 hover:border-white/30 rounded-lg py-1.5 text-[10px] text-white/50 hover:text-white/80 transition-colors cursor-interactive"
+                    >
+                        <Plus className="w-3 h-3" />
+                        Add fallback model
+                    </button>
+
+                    {isAddOpen && (
+                        <div className="absolute left-0 right-0 top-full mt-1 bg-[#1a1a1a] border border-white/10 rounded-lg shadow-xl overflow-hidden z-50 py-1 max-h-48 overflow-y-auto custom-scrollbar">
+                            {addableModels.map((model) => (
+                                <button
+                                    key={model.id}
+                                    onClick={() => handleAdd(model.id)}
+                                    className="w-full text-left px-3 py-2 text-xs text-white/70 hover:bg-white/5 hover:text-white transition-colors flex items-center justify-between gap-2 cursor-interactive"
+                                >
+                                    <span className="truncate">{model.displayName}</span>
+                                    <ModelCapabilityBadges capabilities={model.capabilities} />
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from "react"
+import { Check, Save, RotateCcw, Upload, Download, Eye, EyeOff } from "lucide-react"
+
+// Example values used for the preview
+const getSampleVariables = (language: string): Record<string, string> => ({
+    language,
+    responseLanguage: "English",
+    context: "\n\nPrevious conversation context (for reference):\nUser: Problem: Reverse a linked list\n\nAssistant: Answer: Iterate with three pointers\n\n---\n",
+    problem: "Given an array of integers nums and an integer target, return indices of the two numbers such that they add up to target.",
+    solution: "def two_sum(nums, target):\n    seen = {}\n    for i, n in enumerate(nums):\n        if target - n in seen:\n            return [seen[target - n], i]\n        seen[n] = i",
+    question: "What is the time complexity of quicksort?"
+})
+
+// Same substitution rule as the main process: unknown placeholders stay visible
+const renderPreview = (text: string, variables: Record<string, string>) =>
+    text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+    )
+
+interface PromptTemplateEditorProps {
+    currentLanguage: string
+}
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ currentLanguage }) => {
+    const [templates, setTemplates] = useState<PromptTemplate[]>([])
+    const [selectedId, setSelectedId] = useState("solution")
+    const [system, setSystem] = useState("")
+    const [user, setUser] = useState("")
+    const [showPreview, setShowPreview] = useState(false)
+    const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null)
+    const [saveSuccess, setSaveSuccess] = useState(false)
+
+    const selected = templates.find((t) => t.id === selectedId)
+    const isDirty = !!selected && (system !== selected.system || user !== selected.user)
+
+    const loadTemplates = async () => {
+        try {
+            const result = await window.electronAPI.getPromptTemplates()
+            if (result.success && result.templates) {
+                setTemplates(result.templates)
+            }
+        } catch (error) {
+            console.error("Error loading prompt templates:", error)
+        }
+    }
+
+    useEffect(() => {
+        loadTemplates()
+    }, [])
+
+    // Load the selected template's text into the editor
+    useEffect(() => {
+        if (selected) {
+            setSystem(selected.system)
+            setUser(selected.user)
+        }
+    }, [selectedId, templates])
+
+    const showStatus = (message: string, isError = false) => {
+        setStatus({ message, isError })
+        setTimeout(() => setStatus(null), 3000)
+    }
+
+    const handleSave = async () => {
+        try {
+            const result = await window.electronAPI.savePromptTemplate(selectedId, { system, user })
+            if (result.success) {
+                setSaveSuccess(true)
+                setTimeout(() => setSaveSuccess(false), 2000)
+                await loadTemplates()
+            } else {
+                showStatus(result.error || "Failed to save template", true)
+            }
+        } catch (error) {
+            console.error("Error saving prompt template:", error)
+        }
+    }
+
+    const handleReset = async () => {
+        try {
+            const result = await window.electronAPI.resetPromptTemplate(selectedId)
+            if (result.success) {
+                await loadTemplates()
+                showStatus("Restored the default template")
+            }
+        } catch (error) {
+            console.error("Error resetting prompt template:", error)
+        }
+    }
+
+    const handleExport = async () => {
+        try {
+            const result = await window.electronAPI.exportPromptTemplates()
+            if (result.success) {
+                showStatus("Templates exported")
+            } else if (!result.canceled) {
+                showStatus(result.error || "Export failed", true)
+            }
+        } catch (error) {
+            console.error("Error exporting prompt templates:", error)
+        }
+    }
+
+    const handleImport = async () => {
+        try {
+            const result = await window.electronAPI.importPromptTemplates()
+            if (result.success) {
+                await loadTemplates()
+                showStatus(`Imported ${result.imported?.length || 0} template(s)`)
+            } else if (!result.canceled) {
+                showStatus(result.error || "Import failed", true)
+            }
+        } catch (error) {
+            console.error("Error importing prompt templates:", error)
+        }
+    }
+
+    if (!selected) {
+        return <p className="text-[10px] text-white/30 italic">Loading templates...</p>
+    }
+
+    const sampleVariables = getSampleVariables(currentLanguage)
+
+    return (
+        <div className="space-y-2">
+            {/* Template picker */}
+            <div className="flex flex-wrap gap-1">
+                {templates.map((template) => (
+                    <button
+                        key={template.id}
+                        onClick={() => setSelectedId(template.id)}
+                        className={`px-2 py-1 rounded-md text-[10px] transition-colors cursor-interactive
+                            ${selectedId === template.id
+                                ? "bg-white/15 text-white"
+                                : "bg-white/5 text-white/50 hover:bg-white/10 hover:text-white/80"
+                            }`}
+                    >
+                        {template.label}
+                        {template.isCustom && <span className="text-amber-300/80"> •</span>}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex items-center justify-between text-[10px] text-white/40">
+                <span>{selected.description}</span>
+                <span className="shrink-0 ml-2">
+                    {selected.isCustom ? `Custom v${selected.version}` : `Default v${selected.version}`}
+                </span>
+            </div>
+
+            {selected.variables.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {selected.variables.map((variable) => (
+                        <code key={variable} className="px-1.5 py-0.5 rounded bg-white/5 text-[10px] text-emerald-300/80">
+                            {`{{${variable}}}`}
+                        </code>
+                    ))}
+                </div>
+            )}
+
+            {showPreview ? (
+                <div className="space-y-1.5">
+                    {system && (
+                        <pre className="bg-black/30 border border-white/10 rounded-lg p-2 text-[10px] text-white/70 whitespace-pre-wrap max-h-40 overflow-y-auto custom-scrollbar">
+                            {renderPreview(system, sampleVariables)}
+                        </pre>
+                    )}
+                    <pre className="bg-black/30 border border-white/10 rounded-lg p-2 text-[10px] text-white/70 whitespace-pre-wrap max-h-40 overflow-y-auto custom-scrollbar">
+                        {renderPreview(user, sampleVariables)}
+                    </pre>
+                </div>
+            ) : (
+                <div className="space-y-1.5">
+                    <label className="block text-[10px] text-white/40">System instruction</label>
+                    <textarea
+                        value={system}
+                        onChange={(e) => setSystem(e.target.value)}
+                        rows={4}
+                        placeholder="(none)"
+                        className="w-full bg-white/5 rounded-lg px-2 py-1.5 text-[10px] font-mono outline-none border border-white/10 focus:border-white/30 text-white/90 placeholder-white/30 resize-y custom-scrollbar"
+                    />
+                    <label className="block text-[10px] text-white/40">User prompt</label>
+                    <textarea
+                        value={user}
+                        onChange={(e) => setUser(e.target.value)}
+                        rows={3}
+                        className="w-full bg-white/5 rounded-lg px-2 py-1.5 text-[10px] font-mono outline-none border border-white/10 focus:border-white/30 text-white/90 resize-y custom-scrollbar"
+                    />
+                </div>
+            )}
+
+            <div className="flex gap-1.5">
+                <button
+                    onClick={handleSave}
+                    disabled={!isDirty}
+                    className="flex-1 flex items-center justify-center gap-1.5 bg-white/10 hover:bg-white/20 text-white/90 rounded-lg py-1.5 text-[10px] font-medium transition-colors disabled:opacity-40 cursor-interactive"
+                >
+                    {saveSuccess ? <Check className="w-3 h-3" /> : <Save className="w-3 h-3" />}
+                    {saveSuccess ? "Saved" : "Save"}
+                </button>
+                <button
+                    onClick={() => setShowPreview(!showPreview)}
+                    className="flex items-center justify-center gap-1 bg-white/5 hover:bg-white/10 text-white/70 rounded-lg px-2 text-[10px] transition-colors cursor-interactive"
+                    title="Preview with example values"
+                >
+                    {showPreview ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                    Preview
+                </button>
+                <button
+                    onClick={handleReset}
+                    disabled={!selected.isCustom}
+                    className="flex items-center justify-center gap-1 bg-white/5 hover:bg-white/10 text-white/70 rounded-lg px-2 text-[10px] transition-colors disabled:opacity-40 cursor-interactive"
+                    title="Reset to default"
+                >
+                    <RotateCcw className="w-3 h-3" />
+                </button>
+            </div>
+
+            <div className="flex gap-1.5">
+                <button
+                    onClick={handleImport}
+                    className="flex-1 flex items-center justify-center gap-1 text-[10px] text-white/40 hover:text-white/80 transition-colors cursor-interactive"
+                >
+                    <Upload className="w-3 h-3" />
+                    Import
+                </button>
+                <button
+                    onClick={handleExport}
+                    className="flex-1 flex items-center justify-center gap-1 text-[10px] text-white/40 hover:text-white/80 transition-colors cursor-interactive"
+                >
+                    <Download className="w-3 h-3" />
+                    Export
+                </button>
+            </div>
+
+            {status && (
+                <p className={`text-[10px] ${status.isError ? "text-red-400" : "text-emerald-400/80"}`}>
+                    {status.message}
+                </p>
+            )}
+        </div>
+    )
+}
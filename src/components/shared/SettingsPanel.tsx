@@ -1,5 +1,10 @@
 import React, { useState, useEffect, useRef } from "react"
-import { Settings, Eye, EyeOff, Save, Check, LogOut, ChevronDown, Cpu, Key, Languages } from "lucide-react"
+import { Settings, Eye, EyeOff, Save, Check, LogOut, ChevronDown, Cpu, Key, Languages, Server, RefreshCw, ListOrdered, BarChart3, FileText, MessageSquare, History, Image } from "lucide-react"
+import { ModelChainEditor, ModelCapabilityBadges } from "./ModelChainEditor"
+import { UsagePanel } from "./UsagePanel"
+import { PromptTemplateEditor } from "./PromptTemplateEditor"
+import { ImageProcessingPanel } from "./ImageProcessingPanel"
+import { useHistory } from "../../contexts/history"
 
 interface SettingsPanelProps {
     currentLanguage: string
@@ -17,11 +22,33 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
     const [saveSuccess, setSaveSuccess] = useState(false)
 
     const [isLanguageOpen, setIsLanguageOpen] = useState(false)
+    const [isResponseLanguageOpen, setIsResponseLanguageOpen] = useState(false)
+    const [responseLanguage, setResponseLanguage] = useState("English")
+    const [responseLanguages, setResponseLanguages] = useState<string[]>([])
     const [isModelOpen, setIsModelOpen] = useState(false)
     const [currentModel, setCurrentModel] = useState("gemini-2.5-flash")
+    const [modelCatalog, setModelCatalog] = useState<ModelCatalog | null>(null)
+    const [modelChain, setModelChain] = useState<string[]>([])
+    const [isRefreshingModels, setIsRefreshingModels] = useState(false)
+    const [isUsageOpen, setIsUsageOpen] = useState(false)
+    const { openHistory } = useHistory()
+    const [isPromptsOpen, setIsPromptsOpen] = useState(false)
+    const [isImageProcessingOpen, setIsImageProcessingOpen] = useState(false)
+
+    const [isProviderOpen, setIsProviderOpen] = useState(false)
+    const [providerSettings, setProviderSettings] = useState<AIProviderSettings>({
+        provider: "gemini",
+        openaiBaseUrl: "",
+        openaiModel: "",
+        openaiApiKey: ""
+    })
+    const [isSavingProvider, setIsSavingProvider] = useState(false)
+    const [providerSaveSuccess, setProviderSaveSuccess] = useState(false)
 
     const dropdownRef = useRef<HTMLDivElement>(null)
+    const responseLanguageDropdownRef = useRef<HTMLDivElement>(null)
     const modelDropdownRef = useRef<HTMLDivElement>(null)
+    const providerDropdownRef = useRef<HTMLDivElement>(null)
 
     const languages = [
         { id: "python", label: "Python" },
@@ -36,14 +63,42 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
         { id: "r", label: "R" }
     ]
 
-    const models = [
-        { id: "gemini-3-pro-preview", label: "Gemini 3 Pro Preview" },
-        // { id: "gemini-3-pro", label: "Gemini 3 Pro" },
-        { id: "gemini-2.5-pro", label: "Gemini 2.5 Pro" },
-        { id: "gemini-2.5-flash", label: "Gemini 2.5 Flash" },
-        { id: "gemini-2.0-flash", label: "Gemini 2.0 Flash" }
+    // Models discovered from the active provider
+    const models = modelCatalog?.models || []
+
+    const providers: { id: AIProviderId; label: string }[] = [
+        { id: "gemini", label: "Google Gemini" },
+        { id: "openai-compatible", label: "OpenAI-compatible server" },
+        { id: "mock", label: "Mock (offline)" },
+        { id: "replay", label: "Replay (recorded fixtures)" }
     ]
 
+    // Offline providers have a single fixed model
+    const hasModelChoice =
+        providerSettings.provider === "gemini" || providerSettings.provider === "openai-compatible"
+
+    // Load the preferred model, fallback chain and model list for the active provider
+    const loadModelData = async (forceRefresh = false) => {
+        try {
+            const modelResult = await window.electronAPI.getModel()
+            if (modelResult.success && modelResult.model) {
+                setCurrentModel(modelResult.model)
+            }
+
+            const chainResult = await window.electronAPI.getModelChain()
+            if (chainResult.success && chainResult.chain) {
+                setModelChain(chainResult.chain)
+            }
+
+            const catalogResult = await window.electronAPI.getModelCatalog(forceRefresh)
+            if (catalogResult.success && catalogResult.catalog) {
+                setModelCatalog(catalogResult.catalog)
+            }
+        } catch (error) {
+            console.error("Failed to load models:", error)
+        }
+    }
+
     useEffect(() => {
         // Load existing API key and Model
         const loadSettings = async () => {
@@ -53,10 +108,20 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                     setApiKey(keyResult.apiKey)
                 }
 
-                // Load model preference
-                const modelResult = await window.electronAPI.getModel()
-                if (modelResult.success && modelResult.model) {
-                    setCurrentModel(modelResult.model)
+                // Load the language explanations are written in
+                const responseLanguageResult = await window.electronAPI.getResponseLanguage()
+                if (responseLanguageResult.success && responseLanguageResult.language) {
+                    setResponseLanguage(responseLanguageResult.language)
+                    setResponseLanguages(responseLanguageResult.languages || [])
+                }
+
+                // Load model preference, chain and available models
+                await loadModelData()
+
+                // Load AI provider settings
+                const providerResult = await window.electronAPI.getAIProviderSettings()
+                if (providerResult.success && providerResult.settings) {
+                    setProviderSettings(providerResult.settings)
                 }
             } catch (error) {
                 console.error("Failed to load settings:", error)
@@ -69,9 +134,15 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
             if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
                 setIsLanguageOpen(false)
             }
+            if (responseLanguageDropdownRef.current && !responseLanguageDropdownRef.current.contains(event.target as Node)) {
+                setIsResponseLanguageOpen(false)
+            }
             if (modelDropdownRef.current && !modelDropdownRef.current.contains(event.target as Node)) {
                 setIsModelOpen(false)
             }
+            if (providerDropdownRef.current && !providerDropdownRef.current.contains(event.target as Node)) {
+                setIsProviderOpen(false)
+            }
         }
 
         document.addEventListener("mousedown", handleClickOutside)
@@ -88,16 +159,90 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
         }
     }
 
+    const handleResponseLanguageSelect = async (language: string) => {
+        try {
+            const result = await window.electronAPI.setResponseLanguage(language)
+            if (result.success) {
+                setResponseLanguage(language)
+            }
+            setIsResponseLanguageOpen(false)
+        } catch (error) {
+            console.error("Error updating response language:", error)
+        }
+    }
+
     const handleModelSelect = async (modelId: string) => {
         try {
             setCurrentModel(modelId)
+            setProviderSettings((prev) =>
+                prev.provider === "openai-compatible" ? { ...prev, openaiModel: modelId } : prev
+            )
             await window.electronAPI.setModel(modelId)
             setIsModelOpen(false)
+            await loadModelData()
         } catch (error) {
             console.error("Error updating model preference:", error)
         }
     }
 
+    const handleChainChange = async (chain: string[]) => {
+        try {
+            setModelChain(chain)
+            setCurrentModel(chain[0])
+            setProviderSettings((prev) =>
+                prev.provider === "openai-compatible" ? { ...prev, openaiModel: chain[0] } : prev
+            )
+            const result = await window.electronAPI.setModelChain(chain)
+            if (!result.success) {
+                console.error("Failed to save model chain:", result.error)
+            }
+        } catch (error) {
+            console.error("Error updating model chain:", error)
+        }
+    }
+
+    const handleRefreshModels = async () => {
+        setIsRefreshingModels(true)
+        try {
+            await loadModelData(true)
+        } finally {
+            setIsRefreshingModels(false)
+        }
+    }
+
+    const handleProviderSelect = async (providerId: AIProviderId) => {
+        try {
+            setProviderSettings((prev) => ({ ...prev, provider: providerId }))
+            await window.electronAPI.setAIProviderSettings({ provider: providerId })
+            setIsProviderOpen(false)
+            await loadModelData()
+        } catch (error) {
+            console.error("Error updating AI provider:", error)
+        }
+    }
+
+    const handleSaveProviderSettings = async () => {
+        setIsSavingProvider(true)
+        try {
+            const result = await window.electronAPI.setAIProviderSettings({
+                openaiBaseUrl: providerSettings.openaiBaseUrl,
+                openaiModel: providerSettings.openaiModel,
+                openaiApiKey: providerSettings.openaiApiKey
+            })
+            if (result.success) {
+                setProviderSaveSuccess(true)
+                setTimeout(() => setProviderSaveSuccess(false), 2000)
+                await loadModelData()
+            } else {
+                console.error("Failed to save provider settings:", result.error)
+            }
+        } catch (error) {
+            console.error("Error saving provider settings:", error)
+        } finally {
+            setIsSavingProvider(false)
+        }
+    }
+
     const handleSaveApiKey = async () => {
         setIsSaving(true)
         try {
@@ -162,37 +307,73 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                 </div>
             </div>
 
-            {/* Model Selector */}
+            {/* Response Language Selector */}
             <div className="space-y-1.5">
                 <div className="flex items-center gap-2 text-xs text-white/50">
-                    <Cpu className="w-3.5 h-3.5" />
-                    <span>AI Model</span>
+                    <MessageSquare className="w-3.5 h-3.5" />
+                    <span>Response Language</span>
                 </div>
-                <div className="relative" ref={modelDropdownRef}>
+                <div className="relative" ref={responseLanguageDropdownRef}>
                     <button
-                        onClick={() => setIsModelOpen(!isModelOpen)}
+                        onClick={() => setIsResponseLanguageOpen(!isResponseLanguageOpen)}
+                        className="w-full flex items-center justify-between bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg px-3 py-2 text-xs transition-all duration-200 cursor-interactive"
+                    >
+                        <span className="text-white/90">{responseLanguage}</span>
+                        <ChevronDown className={`w-3.5 h-3.5 text-white/50 transition-transform duration-200 ${isResponseLanguageOpen ? "rotate-180" : ""}`} />
+                    </button>
+
+                    {isResponseLanguageOpen && (
+                        <div className="absolute left-0 right-0 top-full mt-1 bg-[#1a1a1a] border border-white/10 rounded-lg shadow-xl overflow-hidden z-50 py-1 max-h-48 overflow-y-auto custom-scrollbar">
+                            {responseLanguages.map((language) => (
+                                <button
+                                    key={language}
+                                    onClick={() => handleResponseLanguageSelect(language)}
+                                    className={`w-full text-left px-3 py-2 text-xs transition-colors flex items-center justify-between cursor-interactive
+                                        ${responseLanguage === language
+                                            ? "bg-white/10 text-white font-medium"
+                                            : "text-white/70 hover:bg-white/5 hover:text-white"
+                                        }`}
+                                >
+                                    {language}
+                                    {responseLanguage === language && <Check className="w-3 h-3 text-emerald-400" />}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Provider Selector */}
+            <div className="space-y-1.5">
+                <div className="flex items-center gap-2 text-xs text-white/50">
+                    <Server className="w-3.5 h-3.5" />
+                    <span>AI Provider</span>
+                </div>
+                <div className="relative" ref={providerDropdownRef}>
+                    <button
+                        onClick={() => setIsProviderOpen(!isProviderOpen)}
                         className="w-full flex items-center justify-between bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg px-3 py-2 text-xs transition-all duration-200 cursor-interactive"
                     >
                         <span className="text-white/90 truncate">
-                            {models.find(m => m.id === currentModel)?.label || currentModel}
+                            {providers.find(p => p.id === providerSettings.provider)?.label || providerSettings.provider}
                         </span>
-                        <ChevronDown className={`w-3.5 h-3.5 text-white/50 transition-transform duration-200 ${isModelOpen ? "rotate-180" : ""}`} />
+                        <ChevronDown className={`w-3.5 h-3.5 text-white/50 transition-transform duration-200 ${isProviderOpen ? "rotate-180" : ""}`} />
                     </button>
 
-                    {isModelOpen && (
+                    {isProviderOpen && (
                         <div className="absolute left-0 right-0 top-full mt-1 bg-[#1a1a1a] border border-white/10 rounded-lg shadow-xl overflow-hidden z-50 py-1 max-h-48 overflow-y-auto custom-scrollbar">
-                            {models.map((model) => (
+                            {providers.map((provider) => (
                                 <button
-                                    key={model.id}
-                                    onClick={() => handleModelSelect(model.id)}
+                                    key={provider.id}
+                                    onClick={() => handleProviderSelect(provider.id)}
                                     className={`w-full text-left px-3 py-2 text-xs transition-colors flex items-center justify-between cursor-interactive
-                                        ${currentModel === model.id
+                                        ${providerSettings.provider === provider.id
                                             ? "bg-white/10 text-white font-medium"
                                             : "text-white/70 hover:bg-white/5 hover:text-white"
                                         }`}
                                 >
-                                    {model.label}
-                                    {currentModel === model.id && <Check className="w-3 h-3 text-emerald-400" />}
+                                    {provider.label}
+                                    {providerSettings.provider === provider.id && <Check className="w-3 h-3 text-emerald-400" />}
                                 </button>
                             ))}
                         </div>
@@ -200,69 +381,253 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                 </div>
             </div>
 
-            {/* API Key Section */}
-            <div className="space-y-1.5">
-                <div className="flex items-center justify-between text-xs text-white/50">
-                    <div className="flex items-center gap-2">
-                        <Key className="w-3.5 h-3.5" />
-                        <span>API Key</span>
-                    </div>
+            {/* OpenAI-compatible server settings */}
+            {providerSettings.provider === "openai-compatible" && (
+                <div className="space-y-2">
+                    <input
+                        type="text"
+                        value={providerSettings.openaiBaseUrl}
+                        onChange={(e) => setProviderSettings((prev) => ({ ...prev, openaiBaseUrl: e.target.value }))}
+                        placeholder="Server URL (e.g. http://localhost:11434/v1)"
+                        className="w-full bg-white/5 rounded-lg px-3 py-2 text-xs outline-none border border-white/10 focus:border-white/30 text-white placeholder-white/30 transition-colors"
+                    />
+                    <input
+                        type="text"
+                        value={providerSettings.openaiModel}
+                        onChange={(e) => setProviderSettings((prev) => ({ ...prev, openaiModel: e.target.value }))}
+                        placeholder="Model name"
+                        className="w-full bg-white/5 rounded-lg px-3 py-2 text-xs outline-none border border-white/10 focus:border-white/30 text-white placeholder-white/30 transition-colors"
+                    />
+                    <input
+                        type="password"
+                        value={providerSettings.openaiApiKey}
+                        onChange={(e) => setProviderSettings((prev) => ({ ...prev, openaiApiKey: e.target.value }))}
+                        placeholder="API Key (optional for local servers)"
+                        className="w-full bg-white/5 rounded-lg px-3 py-2 text-xs outline-none border border-white/10 focus:border-white/30 text-white placeholder-white/30 transition-colors"
+                    />
                     <button
-                        onClick={() => setIsEditing(!isEditing)}
-                        className="text-[10px] hover:text-white transition-colors cursor-interactive"
+                        onClick={handleSaveProviderSettings}
+                        disabled={isSavingProvider}
+                        className="w-full flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 text-white/90 rounded-lg py-2 text-xs font-medium transition-colors disabled:opacity-50 cursor-interactive"
                     >
-                        {isEditing ? "Cancel" : "Edit"}
+                        {isSavingProvider ? (
+                            "Saving..."
+                        ) : providerSaveSuccess ? (
+                            <>
+                                <Check className="w-3.5 h-3.5" />
+                                Saved
+                            </>
+                        ) : (
+                            <>
+                                <Save className="w-3.5 h-3.5" />
+                                Save Server Settings
+                            </>
+                        )}
                     </button>
                 </div>
+            )}
 
-                {isEditing ? (
-                    <div className="space-y-2">
-                        <div className="relative">
-                            <input
-                                type={showApiKey ? "text" : "password"}
-                                value={apiKey}
-                                onChange={(e) => setApiKey(e.target.value)}
-                                placeholder="Enter Gemini API Key"
-                                className="w-full bg-white/5 rounded-lg px-3 py-2 text-xs outline-none border border-white/10 focus:border-white/30 pr-8 text-white placeholder-white/30 transition-colors"
-                            />
+            {/* Model Selector */}
+            {hasModelChoice && (
+                <div className="space-y-1.5">
+                    <div className="flex items-center justify-between text-xs text-white/50">
+                        <div className="flex items-center gap-2">
+                            <Cpu className="w-3.5 h-3.5" />
+                            <span>AI Model</span>
+                        </div>
+                        <button
+                            onClick={handleRefreshModels}
+                            disabled={isRefreshingModels}
+                            className="hover:text-white transition-colors disabled:opacity-50 cursor-interactive"
+                            title="Refresh model list"
+                        >
+                            <RefreshCw className={`w-3 h-3 ${isRefreshingModels ? "animate-spin" : ""}`} />
+                        </button>
+                    </div>
+                    <div className="relative" ref={modelDropdownRef}>
+                        <button
+                            onClick={() => setIsModelOpen(!isModelOpen)}
+                            className="w-full flex items-center justify-between bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg px-3 py-2 text-xs transition-all duration-200 cursor-interactive"
+                        >
+                            <span className="text-white/90 truncate">
+                                {models.find(m => m.id === currentModel)?.displayName || currentModel}
+                            </span>
+                            <ChevronDown className={`w-3.5 h-3.5 text-white/50 transition-transform duration-200 ${isModelOpen ? "rotate-180" : ""}`} />
+                        </button>
+
+                        {isModelOpen && (
+                            <div className="absolute left-0 right-0 top-full mt-1 bg-[#1a1a1a] border border-white/10 rounded-lg shadow-xl overflow-hidden z-50 py-1 max-h-48 overflow-y-auto custom-scrollbar">
+                                {models.length === 0 && (
+                                    <div className="px-3 py-2 text-xs text-white/40 italic">No models found</div>
+                                )}
+                                {models.map((model) => (
+                                    <button
+                                        key={model.id}
+                                        onClick={() => handleModelSelect(model.id)}
+                                        className={`w-full text-left px-3 py-2 text-xs transition-colors flex items-center justify-between gap-2 cursor-interactive
+                                            ${currentModel === model.id
+                                                ? "bg-white/10 text-white font-medium"
+                                                : "text-white/70 hover:bg-white/5 hover:text-white"
+                                            }`}
+                                    >
+                                        <span className="truncate">{model.displayName}</span>
+                                        <span className="flex items-center gap-2">
+                                            <ModelCapabilityBadges capabilities={model.capabilities} />
+                                            {currentModel === model.id && <Check className="w-3 h-3 text-emerald-400" />}
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    {modelCatalog?.error && (
+                        <p className="text-[10px] text-amber-400/80">
+                            Could not fetch the model list; showing {modelCatalog.fetchedAt ? "a cached" : "the built-in"} list.
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {/* Fallback Chain */}
+            {hasModelChoice && modelChain.length > 0 && (
+                <div className="space-y-1.5">
+                    <div className="flex items-center gap-2 text-xs text-white/50">
+                        <ListOrdered className="w-3.5 h-3.5" />
+                        <span>Fallback Order (drag to reorder)</span>
+                    </div>
+                    <ModelChainEditor
+                        chain={modelChain}
+                        models={models}
+                        onChange={handleChainChange}
+                    />
+                </div>
+            )}
+
+            {/* API Key Section */}
+            {providerSettings.provider === "gemini" && (
+                <div className="space-y-1.5">
+                    <div className="flex items-center justify-between text-xs text-white/50">
+                        <div className="flex items-center gap-2">
+                            <Key className="w-3.5 h-3.5" />
+                            <span>API Key</span>
+                        </div>
+                        <button
+                            onClick={() => setIsEditing(!isEditing)}
+                            className="text-[10px] hover:text-white transition-colors cursor-interactive"
+                        >
+                            {isEditing ? "Cancel" : "Edit"}
+                        </button>
+                    </div>
+
+                    {isEditing ? (
+                        <div className="space-y-2">
+                            <div className="relative">
+                                <input
+                                    type={showApiKey ? "text" : "password"}
+                                    value={apiKey}
+                                    onChange={(e) => setApiKey(e.target.value)}
+                                    placeholder="Enter Gemini API Key"
+                                    className="w-full bg-white/5 rounded-lg px-3 py-2 text-xs outline-none border border-white/10 focus:border-white/30 pr-8 text-white placeholder-white/30 transition-colors"
+                                />
+                                <button
+                                    onClick={() => setShowApiKey(!showApiKey)}
+                                    className="absolute right-2 top-1/2 -translate-y-1/2 text-white/50 hover:text-white/80 cursor-interactive"
+                                >
+                                    {showApiKey ? (
+                                        <EyeOff className="w-3.5 h-3.5" />
+                                    ) : (
+                                        <Eye className="w-3.5 h-3.5" />
+                                    )}
+                                </button>
+                            </div>
                             <button
-                                onClick={() => setShowApiKey(!showApiKey)}
-                                className="absolute right-2 top-1/2 -translate-y-1/2 text-white/50 hover:text-white/80 cursor-interactive"
+                                onClick={handleSaveApiKey}
+                                disabled={isSaving}
+                                className="w-full flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 text-white/90 rounded-lg py-2 text-xs font-medium transition-colors disabled:opacity-50 cursor-interactive"
                             >
-                                {showApiKey ? (
-                                    <EyeOff className="w-3.5 h-3.5" />
+                                {isSaving ? (
+                                    "Saving..."
+                                ) : saveSuccess ? (
+                                    <>
+                                        <Check className="w-3.5 h-3.5" />
+                                        Saved
+                                    </>
                                 ) : (
-                                    <Eye className="w-3.5 h-3.5" />
+                                    <>
+                                        <Save className="w-3.5 h-3.5" />
+                                        Save Key
+                                    </>
                                 )}
                             </button>
                         </div>
-                        <button
-                            onClick={handleSaveApiKey}
-                            disabled={isSaving}
-                            className="w-full flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 text-white/90 rounded-lg py-2 text-xs font-medium transition-colors disabled:opacity-50 cursor-interactive"
-                        >
-                            {isSaving ? (
-                                "Saving..."
-                            ) : saveSuccess ? (
-                                <>
-                                    <Check className="w-3.5 h-3.5" />
-                                    Saved
-                                </>
-                            ) : (
-                                <>
-                                    <Save className="w-3.5 h-3.5" />
-                                    Save Key
-                                </>
-                            )}
-                        </button>
+                    ) : (
+                        <div className="w-full bg-white/5 border border-white/5 rounded-lg px-3 py-2 text-xs text-white/50 italic truncate">
+                            {apiKey ? "••••••••••••••••" : "No API key set"}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Prompt Templates */}
+            <div className="space-y-1.5">
+                <div className="flex items-center justify-between text-xs text-white/50">
+                    <div className="flex items-center gap-2">
+                        <FileText className="w-3.5 h-3.5" />
+                        <span>Prompt Templates</span>
+                    </div>
+                    <button
+                        onClick={() => setIsPromptsOpen(!isPromptsOpen)}
+                        className="text-[10px] hover:text-white transition-colors cursor-interactive"
+                    >
+                        {isPromptsOpen ? "Hide" : "Edit"}
+                    </button>
+                </div>
+                {isPromptsOpen && <PromptTemplateEditor currentLanguage={currentLanguage} />}
+            </div>
+
+            {/* Image Processing */}
+            <div className="space-y-1.5">
+                <div className="flex items-center justify-between text-xs text-white/50">
+                    <div className="flex items-center gap-2">
+                        <Image className="w-3.5 h-3.5" />
+                        <span>Image Processing</span>
                     </div>
-                ) : (
-                    <div className="w-full bg-white/5 border border-white/5 rounded-lg px-3 py-2 text-xs text-white/50 italic truncate">
-                        {apiKey ? "••••••••••••••••" : "No API key set"}
+                    <button
+                        onClick={() => setIsImageProcessingOpen(!isImageProcessingOpen)}
+                        className="text-[10px] hover:text-white transition-colors cursor-interactive"
+                    >
+                        {isImageProcessingOpen ? "Hide" : "Edit"}
+                    </button>
+                </div>
+                {isImageProcessingOpen && <ImageProcessingPanel />}
+            </div>
+
+            {/* Usage */}
+            <div className="space-y-1.5">
+                <div className="flex items-center justify-between text-xs text-white/50">
+                    <div className="flex items-center gap-2">
+                        <BarChart3 className="w-3.5 h-3.5" />
+                        <span>Usage</span>
                     </div>
-                )}
+                    <button
+                        onClick={() => setIsUsageOpen(!isUsageOpen)}
+                        className="text-[10px] hover:text-white transition-colors cursor-interactive"
+                    >
+                        {isUsageOpen ? "Hide" : "Show"}
+                    </button>
+                </div>
+                {isUsageOpen && <UsagePanel />}
             </div>
 
+            {/* Session History */}
+            <button
+                onClick={() => openHistory()}
+                className="w-full flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white/80 rounded-lg py-2 text-xs transition-colors cursor-interactive"
+            >
+                <History className="w-3.5 h-3.5" />
+                Session History
+            </button>
+
             {/* Divider */}
             <div className="h-px bg-white/10 my-2" />
 
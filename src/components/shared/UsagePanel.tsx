@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from "react"
+import { Check, Trash2 } from "lucide-react"
+
+const STAGES = ["Extract", "Generate", "Debug", "Chat", "Summarize", "Voice", "Other"]
+
+const formatTokens = (tokens: number) =>
+    tokens >= 1_000_000
+        ? `${(tokens / 1_000_000).toFixed(1)}M`
+        : tokens >= 1_000
+            ? `${(tokens / 1_000).toFixed(1)}k`
+            : String(tokens)
+
+const totalTokens = (totals: UsageTotals) => totals.promptTokens + totals.outputTokens
+
+const StatTile: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div className="bg-white/5 border border-white/10 rounded-lg px-2 py-1.5">
+        <div className="text-[10px] text-white/40">{label}</div>
+        <div className="text-xs text-white/90 font-medium">{value}</div>
+    </div>
+)
+
+// Breakdown rows with a bar sized relative to the largest entry
+const BreakdownList: React.FC<{ entries: Array<[string, UsageTotals]> }> = ({ entries }) => {
+    const max = Math.max(1, ...entries.map(([, totals]) => totalTokens(totals)))
+
+    if (entries.length === 0) {
+        return <p className="text-[10px] text-white/30 italic">No requests yet</p>
+    }
+
+    return (
+        <div className="space-y-1">
+            {entries.map(([label, totals]) => (
+                <div key={label} className="text-[10px]">
+                    <div className="flex items-center justify-between gap-2 text-white/60">
+                        <span className="truncate">{label}</span>
+                        <span className="shrink-0">
+                            {formatTokens(totalTokens(totals))} · {totals.requests} req
+                        </span>
+                    </div>
+                    <div className="h-1 bg-white/5 rounded-full overflow-hidden">
+                        <div
+                            className="h-full bg-emerald-400/60"
+                            style={{ width: `${(totalTokens(totals) / max) * 100}%` }}
+                        />
+                    </div>
+                </div>
+            ))}
+        </div>
+    )
+}
+
+// Token usage for today, the current session and the last week, plus the daily budget
+export const UsagePanel: React.FC = () => {
+    const [summary, setSummary] = useState<UsageSummary | null>(null)
+    const [budgetInput, setBudgetInput] = useState("")
+    const [budgetSaved, setBudgetSaved] = useState(false)
+    const [cacheCleared, setCacheCleared] = useState(false)
+
+    const loadSummary = async () => {
+        try {
+            const result = await window.electronAPI.getUsageSummary()
+            if (result.success && result.summary) {
+                setSummary(result.summary)
+                setBudgetInput(result.summary.dailyBudget ? String(result.summary.dailyBudget) : "")
+            }
+        } catch (error) {
+            console.error("Error loading usage summary:", error)
+        }
+    }
+
+    useEffect(() => {
+        loadSummary()
+    }, [])
+
+    const handleSaveBudget = async () => {
+        try {
+            const result = await window.electronAPI.setDailyTokenBudget(Number(budgetInput) || 0)
+            if (result.success) {
+                setBudgetSaved(true)
+                setTimeout(() => setBudgetSaved(false), 2000)
+                loadSummary()
+            }
+        } catch (error) {
+            console.error("Error saving daily budget:", error)
+        }
+    }
+
+    const handleClear = async () => {
+        try {
+            await window.electronAPI.clearUsage()
+            loadSummary()
+        } catch (error) {
+            console.error("Error clearing usage:", error)
+        }
+    }
+
+    const handleClearCache = async () => {
+        try {
+            const result = await window.electronAPI.clearResponseCache()
+            if (result.success) {
+                setCacheCleared(true)
+                setTimeout(() => setCacheCleared(false), 2000)
+            }
+        } catch (error) {
+            console.error("Error clearing response cache:", error)
+        }
+    }
+
+    if (!summary) {
+        return <p className="text-[10px] text-white/30 italic">Loading usage...</p>
+    }
+
+    const { today, recentDays, currentSession, dailyBudget } = summary
+    const todayTokens = totalTokens(today.total)
+    const stageEntries = STAGES
+        .filter((stage) => today.byStage[stage])
+        .map((stage) => [stage, today.byStage[stage]] as [string, UsageTotals])
+    const modelEntries = Object.entries(today.byModel)
+        .sort(([, a], [, b]) => totalTokens(b) - totalTokens(a))
+    const weekMax = Math.max(1, ...recentDays.map((day) => totalTokens(day.total)))
+
+    return (
+        <div className="space-y-3">
+            {/* Today */}
+            <div className="grid grid-cols-2 gap-1.5">
+                <StatTile label="Tokens today" value={formatTokens(todayTokens)} />
+                <StatTile label="Requests today" value={String(today.total.requests)} />
+                <StatTile label="Images sent" value={String(today.total.images)} />
+                <StatTile label="Audio" value={`${today.total.audioSeconds}s`} />
+            </div>
+
+            {dailyBudget > 0 && (
+                <div className="space-y-1">
+                    <div className="flex justify-between text-[10px] text-white/50">
+                        <span>Daily budget</span>
+                        <span>{formatTokens(todayTokens)} / {formatTokens(dailyBudget)}</span>
+                    </div>
+                    <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
+                        <div
+                            className={`h-full ${todayTokens >= dailyBudget ? "bg-red-400/80" : "bg-emerald-400/60"}`}
+                            style={{ width: `${Math.min(100, (todayTokens / dailyBudget) * 100)}%` }}
+                        />
+                    </div>
+                </div>
+            )}
+
+            <div className="text-[10px] text-white/50">
+                This session: {formatTokens(totalTokens(currentSession.total))} tokens in {currentSession.total.requests} requests
+            </div>
+
+            {/* Breakdowns */}
+            <div className="space-y-1">
+                <div className="text-[10px] text-white/40 uppercase tracking-wide">By stage (today)</div>
+                <BreakdownList entries={stageEntries} />
+            </div>
+            <div className="space-y-1">
+                <div className="text-[10px] text-white/40 uppercase tracking-wide">By model (today)</div>
+                <BreakdownList entries={modelEntries} />
+            </div>
+
+            {/* Last 7 days */}
+            <div className="space-y-1">
+                <div className="text-[10px] text-white/40 uppercase tracking-wide">Last 7 days</div>
+                <div className="flex items-end gap-1 h-10">
+                    {[...recentDays].reverse().map((day) => (
+                        <div
+                            key={day.date}
+                            title={`${day.date}: ${formatTokens(totalTokens(day.total))} tokens, ${day.total.requests} requests`}
+                            className="flex-1 bg-white/10 rounded-sm"
+                            style={{ height: `${Math.max(4, (totalTokens(day.total) / weekMax) * 100)}%` }}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            {/* Budget */}
+            <div className="space-y-1">
+                <div className="text-[10px] text-white/40 uppercase tracking-wide">Daily token budget</div>
+                <div className="flex gap-1.5">
+                    <input
+                        type="number"
+                        min={0}
+                        value={budgetInput}
+                        onChange={(e) => setBudgetInput(e.target.value)}
+                        placeholder="Unlimited"
+                        className="flex-1 min-w-0 bg-white/5 rounded-lg px-3 py-1.5 text-xs outline-none border border-white/10 focus:border-white/30 text-white placeholder-white/30 transition-colors"
+                    />
+                    <button
+                        onClick={handleSaveBudget}
+                        className="flex items-center justify-center gap-1 bg-white/10 hover:bg-white/20 text-white/90 rounded-lg px-3 text-xs font-medium transition-colors cursor-interactive"
+                    >
+                        {budgetSaved ? <Check className="w-3.5 h-3.5" /> : "Set"}
+                    </button>
+                </div>
+                <p className="text-[10px] text-white/30">
+                    Requests are blocked once today's tokens reach the budget. Leave empty for no limit.
+                </p>
+            </div>
+
+            <button
+                onClick={handleClear}
+                className="w-full flex items-center justify-center gap-1.5 text-[10px] text-white/40 hover:text-white/80 transition-colors cursor-interactive"
+            >
+                <Trash2 className="w-3 h-3" />
+                Clear usage history
+            </button>
+            <button
+                onClick={handleClearCache}
+                className="w-full flex items-center justify-center gap-1.5 text-[10px] text-white/40 hover:text-white/80 transition-colors cursor-interactive"
+            >
+                {cacheCleared ? <Check className="w-3 h-3" /> : <Trash2 className="w-3 h-3" />}
+                {cacheCleared ? "Response cache cleared" : "Clear response cache"}
+            </button>
+        </div>
+    )
+}
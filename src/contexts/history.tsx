@@ -0,0 +1,18 @@
+import { createContext, useContext } from "react"
+
+interface HistoryContextType {
+  // Opens the session list, or one session directly when an id is given
+  openHistory: (sessionId?: string) => void
+}
+
+export const HistoryContext = createContext<HistoryContextType | undefined>(
+  undefined
+)
+
+export function useHistory() {
+  const context = useContext(HistoryContext)
+  if (!context) {
+    throw new Error("useHistory must be used within a HistoryContext provider")
+  }
+  return context
+}
@@ -12,6 +12,179 @@ interface ImportMeta {
   readonly env: ImportMetaEnv
 }
 
+type AIProviderId = "gemini" | "openai-compatible" | "mock" | "replay"
+
+interface AIProviderSettings {
+  provider: AIProviderId
+  openaiBaseUrl: string
+  openaiModel: string
+  openaiApiKey: string
+}
+
+interface AIModelInfo {
+  id: string
+  displayName: string
+  capabilities: { vision: boolean; audio: boolean; jsonMode: boolean }
+}
+
+interface ModelCatalog {
+  provider: AIProviderId
+  models: AIModelInfo[]
+  fetchedAt: number
+  error?: string
+}
+
+interface UsageTotals {
+  requests: number
+  promptTokens: number
+  outputTokens: number
+  images: number
+  audioSeconds: number
+}
+
+interface DayUsage {
+  date: string
+  total: UsageTotals
+  byModel: Record<string, UsageTotals>
+  byStage: Record<string, UsageTotals>
+}
+
+interface UsageSummary {
+  today: DayUsage
+  recentDays: DayUsage[]
+  currentSession: {
+    id: string
+    startedAt: number
+    total: UsageTotals
+    byModel: Record<string, UsageTotals>
+  }
+  dailyBudget: number
+}
+
+interface PromptTemplate {
+  id: string
+  label: string
+  description: string
+  variables: string[]
+  system: string
+  user: string
+  version: number
+  isCustom: boolean
+  updatedAt: number | null
+}
+
+interface SolutionData {
+  short_answer: string | null
+  thoughts: string[]
+  code: string
+  time_complexity: string
+  space_complexity: string
+}
+
+type SessionEntry = { timestamp: number; model: string; thumbnails: string[] } & (
+  | { type: "solution"; problemStatement: string; solution: SolutionData; cached: boolean }
+  | { type: "debug"; response: string }
+  | { type: "voice"; question: string; answer: SolutionData }
+  | { type: "chat"; message: string; reply: string; code: string | null }
+)
+
+interface SessionSummary {
+  id: string
+  title: string
+  language: string
+  startedAt: number
+  updatedAt: number
+  entryCount: number
+  thumbnail: string | null
+}
+
+interface StoredSession {
+  id: string
+  title: string
+  language: string
+  startedAt: number
+  updatedAt: number
+  entries: SessionEntry[]
+}
+
+// Answer to a typed follow-up; code is the full updated code, or null if unchanged
+interface ChatReply {
+  reply: string
+  code: string | null
+  time_complexity: string | null
+  space_complexity: string | null
+}
+
+// Display a capture covers: the one under the cursor, a specific one, or all stitched together
+interface CaptureDisplaySetting {
+  mode: "cursor" | "display" | "all"
+  displayId?: number
+}
+
+interface CaptureDisplayInfo {
+  id: number
+  label: string
+  width: number
+  height: number
+  isPrimary: boolean
+}
+
+// How screenshots are prepared before they are sent to the model
+interface ImagePreprocessSettings {
+  maxEdge: number
+  grayscale: boolean
+  contrastBoost: boolean
+  encoding: "auto" | "png" | "jpeg"
+}
+
+// Whether screenshots, local OCR text or both are sent to extract the problem
+type OcrMode = "image" | "ocr+image" | "ocr"
+
+// Screenshot queue size and whether overlapping captures are stitched
+interface ScreenshotQueueSettings {
+  maxScreenshots: number
+  stitch: boolean
+}
+
+// Outcome of importing files or the clipboard; text problems are solved straight away
+interface ImportResult {
+  success: boolean
+  kind?: "images" | "text"
+  count?: number
+  canceled?: boolean
+  error?: string
+}
+
+// A capture that looks the same as a queued screenshot and waits for "replace" or "keep both"
+interface DuplicateScreenshotInfo {
+  path: string
+  preview: string
+  /** Position of the matching screenshot in the queue */
+  duplicateIndex: number
+}
+
+// Earlier session whose screenshots match a new capture
+interface MatchingSession {
+  id: string
+  title: string
+  updatedAt: number
+}
+
+// Highlighted area of an annotated screenshot, as fractions (0-1) of its size
+interface FocusRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Partial solution streamed while the model is still generating
+interface SolutionChunk {
+  short_answer: string | null
+  thoughts: string[]
+  code: string
+}
+
 interface ElectronAPI {
   openSubscriptionPortal: (authData: {
     id: string
@@ -30,9 +203,40 @@ interface ElectronAPI {
   deleteScreenshot: (
     path: string
   ) => Promise<{ success: boolean; error?: string }>
+  reorderScreenshots: (paths: string[]) => Promise<{ success: boolean; error?: string }>
+  saveAnnotatedScreenshot: (
+    path: string,
+    imageDataUrl: string,
+    focusRegions: FocusRegion[]
+  ) => Promise<{ success: boolean; error?: string }>
+  getScreenshotQueueSettings: () => Promise<{
+    success: boolean
+    settings?: ScreenshotQueueSettings
+    maxScreenshotsOptions?: number[]
+    error?: string
+  }>
+  setScreenshotQueueSettings: (
+    settings: Partial<ScreenshotQueueSettings>
+  ) => Promise<{ success: boolean; error?: string }>
   onScreenshotTaken: (
     callback: (data: { path: string; preview: string }) => void
   ) => () => void
+  onScreenshotError: (callback: (error: string) => void) => () => void
+  onScreenshotDuplicate: (callback: (data: DuplicateScreenshotInfo) => void) => () => void
+  onScreenshotSeenBefore: (callback: (sessions: MatchingSession[]) => void) => () => void
+  resolveDuplicateScreenshot: (
+    action: "replace" | "keep-both"
+  ) => Promise<{ success: boolean; path?: string; error?: string }>
+  getCaptureDisplays: () => Promise<{
+    success: boolean
+    displays?: CaptureDisplayInfo[]
+    setting?: CaptureDisplaySetting
+    error?: string
+  }>
+  setCaptureDisplay: (setting: CaptureDisplaySetting) => Promise<{ success: boolean; error?: string }>
+  importProblemFiles: (filePaths?: string[]) => Promise<ImportResult>
+  importClipboard: () => Promise<ImportResult>
+  getPathForFile: (file: File) => string
   onResetView: (callback: () => void) => () => void
   onSolutionStart: (callback: () => void) => () => void
   onDebugStart: (callback: () => void) => () => void
@@ -40,13 +244,14 @@ interface ElectronAPI {
   onSolutionError: (callback: (error: string) => void) => () => void
   onProcessingNoScreenshots: (callback: () => void) => () => void
   onProblemExtracted: (callback: (data: any) => void) => () => void
+  onSolutionChunk: (callback: (data: SolutionChunk) => void) => () => void
   onSolutionSuccess: (callback: (data: any) => void) => () => void
   onUnauthorized: (callback: () => void) => () => void
   onDebugError: (callback: (error: string) => void) => () => void
   openExternal: (url: string) => void
   toggleMainWindow: () => Promise<{ success: boolean; error?: string }>
   triggerScreenshot: () => Promise<{ success: boolean; error?: string }>
-  triggerProcessScreenshots: () => Promise<{ success: boolean; error?: string }>
+  triggerProcessScreenshots: (options?: { bypassCache?: boolean }) => Promise<{ success: boolean; error?: string }>
   triggerReset: () => Promise<{ success: boolean; error?: string }>
   triggerMoveLeft: () => Promise<{ success: boolean; error?: string }>
   triggerMoveRight: () => Promise<{ success: boolean; error?: string }>
@@ -64,6 +269,55 @@ interface ElectronAPI {
   getApiKey: () => Promise<{ success: boolean; apiKey?: string; error?: string }>
   getModel: () => Promise<{ success: boolean; model?: string; error?: string }>
   setModel: (model: string) => Promise<{ success: boolean; error?: string }>
+  getModelCatalog: (forceRefresh?: boolean) => Promise<{ success: boolean; catalog?: ModelCatalog; error?: string }>
+  getModelChain: () => Promise<{ success: boolean; chain?: string[]; isCustom?: boolean; error?: string }>
+  setModelChain: (chain: string[]) => Promise<{ success: boolean; error?: string }>
+  getResponseLanguage: () => Promise<{ success: boolean; language?: string; languages?: string[]; error?: string }>
+  setResponseLanguage: (language: string) => Promise<{ success: boolean; error?: string }>
+  getImagePreprocessing: () => Promise<{
+    success: boolean
+    settings?: ImagePreprocessSettings
+    maxEdgeOptions?: number[]
+    error?: string
+  }>
+  setImagePreprocessing: (settings: Partial<ImagePreprocessSettings>) => Promise<{ success: boolean; error?: string }>
+  getOcrSettings: () => Promise<{
+    success: boolean
+    mode?: OcrMode
+    tesseractVersion?: string | null
+    error?: string
+  }>
+  setOcrMode: (mode: OcrMode) => Promise<{ success: boolean; error?: string }>
+  getUsageSummary: () => Promise<{ success: boolean; summary?: UsageSummary; error?: string }>
+  setDailyTokenBudget: (tokens: number) => Promise<{ success: boolean; error?: string }>
+  clearUsage: () => Promise<{ success: boolean; error?: string }>
+  clearResponseCache: () => Promise<{ success: boolean; error?: string }>
+  getSessions: () => Promise<{
+    success: boolean
+    sessions?: SessionSummary[]
+    currentSessionId?: string
+    saveThumbnails?: boolean
+    error?: string
+  }>
+  getSession: (id: string) => Promise<{ success: boolean; session?: StoredSession; error?: string }>
+  deleteSession: (id: string) => Promise<{ success: boolean; error?: string }>
+  clearSessions: () => Promise<{ success: boolean; error?: string }>
+  exportSession: (
+    format: "markdown" | "html" | "pdf",
+    content: string,
+    fileName: string
+  ) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>
+  setHistoryThumbnails: (enabled: boolean) => Promise<{ success: boolean; error?: string }>
+  getPromptTemplates: () => Promise<{ success: boolean; templates?: PromptTemplate[]; error?: string }>
+  savePromptTemplate: (
+    id: string,
+    text: { system: string; user: string }
+  ) => Promise<{ success: boolean; template?: PromptTemplate; error?: string }>
+  resetPromptTemplate: (id: string) => Promise<{ success: boolean; error?: string }>
+  exportPromptTemplates: () => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>
+  importPromptTemplates: () => Promise<{ success: boolean; imported?: string[]; canceled?: boolean; error?: string }>
+  getAIProviderSettings: () => Promise<{ success: boolean; settings?: AIProviderSettings; error?: string }>
+  setAIProviderSettings: (settings: Partial<AIProviderSettings>) => Promise<{ success: boolean; error?: string }>
   setWindowFocusable: (focusable: boolean) => Promise<{ success: boolean; error?: string }>
   quitApp: () => void
   getPlatform: () => string
@@ -80,6 +334,13 @@ interface ElectronAPI {
   onVoiceTranscriptionComplete: (callback: (data: { transcription: string }) => void) => () => void
   onVoiceResponse: (callback: (data: { transcription: string; response: string }) => void) => () => void
   onVoiceError: (callback: (error: string) => void) => () => void
+
+  // Follow-up chat
+  sendChatMessage: (
+    message: string,
+    code: string,
+    checkpointId?: string
+  ) => Promise<{ success: boolean; data?: ChatReply; checkpointId?: string; error?: string }>
   
   // Model events
   onModelUsed: (callback: (model: string) => void) => () => void
@@ -14,8 +14,33 @@ interface ElectronAPI {
     error?: string
   }>
   deleteScreenshot: (path: string) => Promise<{ success: boolean; error?: string }>
+  reorderScreenshots: (paths: string[]) => Promise<{ success: boolean; error?: string }>
+  saveAnnotatedScreenshot: (
+    path: string,
+    imageDataUrl: string,
+    focusRegions: FocusRegion[]
+  ) => Promise<{ success: boolean; error?: string }>
+  getScreenshotQueueSettings: () => Promise<{
+    success: boolean
+    settings?: ScreenshotQueueSettings
+    maxScreenshotsOptions?: number[]
+    error?: string
+  }>
+  setScreenshotQueueSettings: (
+    settings: Partial<ScreenshotQueueSettings>
+  ) => Promise<{ success: boolean; error?: string }>
   triggerScreenshot: () => Promise<{ success: boolean; error?: string }>
-  triggerProcessScreenshots: () => Promise<{ success: boolean; error?: string }>
+  getCaptureDisplays: () => Promise<{
+    success: boolean
+    displays?: CaptureDisplayInfo[]
+    setting?: CaptureDisplaySetting
+    error?: string
+  }>
+  setCaptureDisplay: (setting: CaptureDisplaySetting) => Promise<{ success: boolean; error?: string }>
+  importProblemFiles: (filePaths?: string[]) => Promise<ImportResult>
+  importClipboard: () => Promise<ImportResult>
+  getPathForFile: (file: File) => string
+  triggerProcessScreenshots: (options?: { bypassCache?: boolean }) => Promise<{ success: boolean; error?: string }>
   
   // Navigation/Reset
   triggerReset: () => Promise<{ success: boolean; error?: string }>
@@ -31,6 +56,67 @@ interface ElectronAPI {
   // Model management
   setModel: (model: string) => Promise<{ success: boolean; error?: string }>
   getModel: () => Promise<{ success: boolean; model?: string; error?: string }>
+  getModelCatalog: (forceRefresh?: boolean) => Promise<{ success: boolean; catalog?: ModelCatalog; error?: string }>
+  getModelChain: () => Promise<{ success: boolean; chain?: string[]; isCustom?: boolean; error?: string }>
+  setModelChain: (chain: string[]) => Promise<{ success: boolean; error?: string }>
+  
+  // Response language
+  getResponseLanguage: () => Promise<{ success: boolean; language?: string; languages?: string[]; error?: string }>
+  setResponseLanguage: (language: string) => Promise<{ success: boolean; error?: string }>
+  
+  // Image preprocessing
+  getImagePreprocessing: () => Promise<{
+    success: boolean
+    settings?: ImagePreprocessSettings
+    maxEdgeOptions?: number[]
+    error?: string
+  }>
+  setImagePreprocessing: (settings: Partial<ImagePreprocessSettings>) => Promise<{ success: boolean; error?: string }>
+  getOcrSettings: () => Promise<{
+    success: boolean
+    mode?: OcrMode
+    tesseractVersion?: string | null
+    error?: string
+  }>
+  setOcrMode: (mode: OcrMode) => Promise<{ success: boolean; error?: string }>
+  
+  // Usage accounting
+  getUsageSummary: () => Promise<{ success: boolean; summary?: UsageSummary; error?: string }>
+  setDailyTokenBudget: (tokens: number) => Promise<{ success: boolean; error?: string }>
+  clearUsage: () => Promise<{ success: boolean; error?: string }>
+  clearResponseCache: () => Promise<{ success: boolean; error?: string }>
+  
+  // Session history
+  getSessions: () => Promise<{
+    success: boolean
+    sessions?: SessionSummary[]
+    currentSessionId?: string
+    saveThumbnails?: boolean
+    error?: string
+  }>
+  getSession: (id: string) => Promise<{ success: boolean; session?: StoredSession; error?: string }>
+  deleteSession: (id: string) => Promise<{ success: boolean; error?: string }>
+  clearSessions: () => Promise<{ success: boolean; error?: string }>
+  exportSession: (
+    format: "markdown" | "html" | "pdf",
+    content: string,
+    fileName: string
+  ) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>
+  setHistoryThumbnails: (enabled: boolean) => Promise<{ success: boolean; error?: string }>
+  
+  // Prompt templates
+  getPromptTemplates: () => Promise<{ success: boolean; templates?: PromptTemplate[]; error?: string }>
+  savePromptTemplate: (
+    id: string,
+    text: { system: string; user: string }
+  ) => Promise<{ success: boolean; template?: PromptTemplate; error?: string }>
+  resetPromptTemplate: (id: string) => Promise<{ success: boolean; error?: string }>
+  exportPromptTemplates: () => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>
+  importPromptTemplates: () => Promise<{ success: boolean; imported?: string[]; canceled?: boolean; error?: string }>
+  
+  // AI provider management
+  getAIProviderSettings: () => Promise<{ success: boolean; settings?: AIProviderSettings; error?: string }>
+  setAIProviderSettings: (settings: Partial<AIProviderSettings>) => Promise<{ success: boolean; error?: string }>
   
   // Voice recording
   startVoiceRecording: () => Promise<{ success: boolean; error?: string }>
@@ -38,6 +124,13 @@ interface ElectronAPI {
   toggleVoiceRecording: () => Promise<{ success: boolean; isRecording?: boolean; error?: string }>
   processVoiceAudio: (audioBase64: string) => Promise<{ success: boolean; data?: any; error?: string }>
   getVoiceRecordingStatus: () => Promise<{ success: boolean; isRecording: boolean }>
+
+  // Follow-up chat
+  sendChatMessage: (
+    message: string,
+    code: string,
+    checkpointId?: string
+  ) => Promise<{ success: boolean; data?: ChatReply; checkpointId?: string; error?: string }>
   
   // App control
   quitApp: () => void
@@ -57,11 +150,18 @@ interface ElectronAPI {
   
   // Screenshot events
   onScreenshotTaken: (callback: (data: { path: string; preview: string }) => void) => () => void
+  onScreenshotError: (callback: (error: string) => void) => () => void
+  onScreenshotDuplicate: (callback: (data: DuplicateScreenshotInfo) => void) => () => void
+  onScreenshotSeenBefore: (callback: (sessions: MatchingSession[]) => void) => () => void
+  resolveDuplicateScreenshot: (
+    action: "replace" | "keep-both"
+  ) => Promise<{ success: boolean; path?: string; error?: string }>
   
   // View/state events
   onResetView: (callback: () => void) => () => void
   onSolutionStart: (callback: () => void) => () => void
   onProblemExtracted: (callback: (data: any) => void) => () => void
+  onSolutionChunk: (callback: (data: SolutionChunk) => void) => () => void
   onSolutionSuccess: (callback: (data: any) => void) => () => void
   onSolutionError: (callback: (error: string) => void) => () => void
   onUnauthorized: (callback: () => void) => () => void
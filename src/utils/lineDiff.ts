@@ -0,0 +1,52 @@
+export interface LineDiff {
+  /** 1-based line numbers in the new text that are new or changed */
+  added: number[]
+  /** Number of lines of the old text that no longer appear */
+  removed: number
+}
+
+// Above this many line pairs the LCS table gets too large to build on every update
+const MAX_DIFF_CELLS = 4_000_000
+
+/**
+ * Line-level diff of two code versions, via the longest common subsequence
+ */
+export const diffLines = (oldText: string, newText: string): LineDiff => {
+  const oldLines = oldText.split("\n")
+  const newLines = newText.split("\n")
+
+  if (oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+    // Too big to diff cheaply; treat the whole block as changed
+    return { added: newLines.map((_, index) => index + 1), removed: oldLines.length }
+  }
+
+  // lcs[i][j] = common lines between oldLines[i..] and newLines[j..]
+  const lcs: number[][] = Array.from({ length: oldLines.length + 1 }, () =>
+    new Array(newLines.length + 1).fill(0)
+  )
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        oldLines[i] === newLines[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const added: number[] = []
+  let i = 0
+  let j = 0
+  while (j < newLines.length) {
+    if (i < oldLines.length && oldLines[i] === newLines[j]) {
+      i++
+      j++
+    } else if (i < oldLines.length && lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++
+    } else {
+      added.push(j + 1)
+      j++
+    }
+  }
+
+  return { added, removed: oldLines.length - lcs[0][0] }
+}
@@ -0,0 +1,240 @@
+// Renders a saved session to Markdown or to a standalone HTML document.
+// The HTML uses the same SyntaxHighlighter theme as the app, rendered to static
+// markup so every token carries inline styles and needs no external CSS.
+import React from "react"
+import { renderToStaticMarkup } from "react-dom/server"
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter"
+import { dracula } from "react-syntax-highlighter/dist/esm/styles/prism"
+import ReactMarkdown from "react-markdown"
+import remarkGfm from "remark-gfm"
+
+export type SessionExportFormat = "markdown" | "html" | "pdf"
+
+const toHighlighterLanguage = (language: string) => (language === "golang" ? "go" : language)
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString()
+
+const entryHeading = (entry: SessionEntry, index: number) => {
+  const labels: Record<SessionEntry["type"], string> = {
+    solution: "Solution",
+    debug: "Debug",
+    voice: "Voice Question",
+    chat: "Follow-up"
+  }
+  return `${index + 1}. ${labels[entry.type]}`
+}
+
+const entryMeta = (entry: SessionEntry) =>
+  [formatDate(entry.timestamp), entry.model, entry.type === "solution" && entry.cached ? "cached" : null]
+    .filter(Boolean)
+    .join(" · ")
+
+/**
+ * File name without extension, e.g. "2024-05-01-two-sum"
+ */
+export function getSessionFileName(session: StoredSession): string {
+  const date = new Date(session.startedAt).toISOString().slice(0, 10)
+  const slug = session.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 40)
+  return slug ? `${date}-${slug}` : `${date}-session`
+}
+
+function solutionToMarkdown(solution: SolutionData, language: string): string[] {
+  const lines: string[] = []
+  if (solution.short_answer && solution.short_answer.trim() !== "") {
+    lines.push("### Short Answer", "", solution.short_answer, "")
+  }
+  if (solution.thoughts.length > 0) {
+    lines.push("### Explanation", "", ...solution.thoughts.map((t, i) => `${i + 1}. ${t}`), "")
+  }
+  if (solution.code) {
+    lines.push("### Code", "", "```" + toHighlighterLanguage(language), solution.code, "```", "")
+  }
+  lines.push(
+    "### Complexity",
+    "",
+    `- **Time:** ${solution.time_complexity}`,
+    `- **Space:** ${solution.space_complexity}`,
+    ""
+  )
+  return lines
+}
+
+export function buildSessionMarkdown(session: StoredSession): string {
+  const lines: string[] = [
+    `# ${session.title}`,
+    "",
+    `_Started ${formatDate(session.startedAt)} · Language: ${session.language}_`,
+    ""
+  ]
+
+  session.entries.forEach((entry, index) => {
+    lines.push(`## ${entryHeading(entry, index)}`, "", `_${entryMeta(entry)}_`, "")
+    if (entry.type === "solution") {
+      lines.push("### Problem Statement", "", entry.problemStatement, "")
+      lines.push(...solutionToMarkdown(entry.solution, session.language))
+    } else if (entry.type === "debug") {
+      lines.push(entry.response, "")
+    } else if (entry.type === "voice") {
+      lines.push(`> ${entry.question.replace(/\n/g, "\n> ")}`, "")
+      lines.push(...solutionToMarkdown(entry.answer, session.language))
+    } else {
+      lines.push(`> ${entry.message.replace(/\n/g, "\n> ")}`, "", entry.reply, "")
+      if (entry.code) {
+        lines.push("### Updated Code", "", "```" + toHighlighterLanguage(session.language), entry.code, "```", "")
+      }
+    }
+  })
+
+  return lines.join("\n")
+}
+
+const CodeBlock = ({ code, language }: { code: string; language: string }) => (
+  // @ts-ignore
+  <SyntaxHighlighter
+    language={toHighlighterLanguage(language)}
+    style={dracula}
+    showLineNumbers
+    wrapLongLines
+    customStyle={{ margin: "0.5rem 0", borderRadius: "8px", fontSize: "12px" }}
+  >
+    {code}
+  </SyntaxHighlighter>
+)
+
+const Markdown = ({ content }: { content: string }) => (
+  <ReactMarkdown
+    remarkPlugins={[remarkGfm]}
+    components={{
+      code({ inline, className, children }: any) {
+        const match = /language-(\w+)/.exec(className || "")
+        return !inline && match ? (
+          <CodeBlock code={String(children).replace(/\n$/, "")} language={match[1]} />
+        ) : (
+          <code>{children}</code>
+        )
+      }
+    }}
+  >
+    {content}
+  </ReactMarkdown>
+)
+
+const SolutionBlock = ({ solution, language }: { solution: SolutionData; language: string }) => (
+  <>
+    {solution.short_answer && solution.short_answer.trim() !== "" && (
+      <>
+        <h3>Short Answer</h3>
+        <Markdown content={solution.short_answer} />
+      </>
+    )}
+    {solution.thoughts.length > 0 && (
+      <>
+        <h3>Explanation</h3>
+        <ol>
+          {solution.thoughts.map((thought, index) => (
+            <li key={index}>
+              <Markdown content={thought} />
+            </li>
+          ))}
+        </ol>
+      </>
+    )}
+    {solution.code && (
+      <>
+        <h3>Code</h3>
+        <CodeBlock code={solution.code} language={language} />
+      </>
+    )}
+    <h3>Complexity</h3>
+    <p>
+      <span className="tag time">Time</span> {solution.time_complexity}
+      {"  "}
+      <span className="tag space">Space</span> {solution.space_complexity}
+    </p>
+  </>
+)
+
+const SessionDocument = ({ session }: { session: StoredSession }) => (
+  <main>
+    <h1>{session.title}</h1>
+    <p className="meta">
+      Started {formatDate(session.startedAt)} · Language: {session.language}
+    </p>
+    {session.entries.map((entry, index) => (
+      <section key={index}>
+        <h2>{entryHeading(entry, index)}</h2>
+        <p className="meta">{entryMeta(entry)}</p>
+        {entry.thumbnails.length > 0 && (
+          <div className="thumbnails">
+            {entry.thumbnails.map((thumbnail, i) => (
+              <img key={i} src={thumbnail} alt={`Screenshot ${i + 1}`} />
+            ))}
+          </div>
+        )}
+        {entry.type === "solution" && (
+          <>
+            <h3>Problem Statement</h3>
+            <Markdown content={entry.problemStatement} />
+            <SolutionBlock solution={entry.solution} language={session.language} />
+          </>
+        )}
+        {entry.type === "debug" && <Markdown content={entry.response} />}
+        {entry.type === "voice" && (
+          <>
+            <blockquote>{entry.question}</blockquote>
+            <SolutionBlock solution={entry.answer} language={session.language} />
+          </>
+        )}
+        {entry.type === "chat" && (
+          <>
+            <blockquote>{entry.message}</blockquote>
+            <Markdown content={entry.reply} />
+            {entry.code && (
+              <>
+                <h3>Updated Code</h3>
+                <CodeBlock code={entry.code} language={session.language} />
+              </>
+            )}
+          </>
+        )}
+      </section>
+    ))}
+  </main>
+)
+
+const DOCUMENT_STYLES = `
+  body { margin: 0; background: #f7f7f8; color: #1f2328; font: 14px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 32px 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 17px; margin: 0 0 2px; border-bottom: 1px solid #d0d7de; padding-bottom: 4px; }
+  h3 { font-size: 13px; text-transform: uppercase; letter-spacing: 0.05em; color: #57606a; margin: 18px 0 6px; }
+  section { background: #fff; border: 1px solid #d0d7de; border-radius: 10px; padding: 16px 20px; margin: 20px 0; page-break-inside: avoid; }
+  .meta { color: #6e7781; font-size: 12px; margin: 0 0 8px; }
+  .thumbnails img { height: 90px; margin: 0 8px 8px 0; border-radius: 6px; border: 1px solid #d0d7de; }
+  blockquote { margin: 8px 0; padding: 4px 12px; border-left: 4px solid #6366f1; color: #57606a; }
+  code { font-family: "Fira Code", Menlo, Consolas, monospace; font-size: 12px; background: #eff1f3; padding: 1px 4px; border-radius: 4px; }
+  pre code, div > code { background: none; padding: 0; }
+  .tag { display: inline-block; font-size: 11px; font-weight: 600; padding: 1px 6px; border-radius: 4px; }
+  .tag.time { background: #dbeafe; color: #1d4ed8; }
+  .tag.space { background: #ede9fe; color: #6d28d9; }
+`
+
+export function buildSessionHtml(session: StoredSession): string {
+  const body = renderToStaticMarkup(<SessionDocument session={session} />)
+  const title = session.title.replace(/</g, "&lt;").replace(/>/g, "&gt;")
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${DOCUMENT_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`
+}
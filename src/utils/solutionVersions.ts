@@ -0,0 +1,58 @@
+export interface ChatMessage {
+  role: "user" | "assistant"
+  content: string
+  /** Set on replies that replaced the code block */
+  codeChanged?: boolean
+}
+
+export interface SolutionVersion {
+  /** 1-based, shown as "v1", "v2"... in creation order */
+  id: number
+  /** Version the follow-up was sent from; null for the original answer */
+  parentId: number | null
+  solution: SolutionData
+  /** Follow-ups on this version, starting with the one that created it */
+  messages: ChatMessage[]
+  /** Main-process conversation checkpoint, so follow-ups can branch from here */
+  checkpointId: string | null
+  createdAt: number
+}
+
+/**
+ * Versions from the original answer down to the given one
+ */
+export const getVersionPath = (versions: SolutionVersion[], id: number | null): SolutionVersion[] => {
+  const path: SolutionVersion[] = []
+  let current = versions.find((version) => version.id === id)
+  while (current) {
+    path.unshift(current)
+    const parentId: number | null = current.parentId
+    current = parentId === null ? undefined : versions.find((version) => version.id === parentId)
+  }
+  return path
+}
+
+/**
+ * Depth-first order with each version's depth, for rendering the tree as an indented list
+ */
+export const flattenVersionTree = (
+  versions: SolutionVersion[]
+): { version: SolutionVersion; depth: number }[] => {
+  const rows: { version: SolutionVersion; depth: number }[] = []
+  const visit = (parentId: number | null, depth: number) => {
+    for (const version of versions.filter((v) => v.parentId === parentId)) {
+      rows.push({ version, depth })
+      visit(version.id, depth + 1)
+    }
+  }
+  visit(null, 0)
+  return rows
+}
+
+/**
+ * Short description for the switcher: the follow-up that produced the version
+ */
+export const describeVersion = (version: SolutionVersion): string =>
+  version.parentId === null
+    ? "Original answer"
+    : version.messages.find((message) => message.role === "user")?.content || "Follow-up"